@@ -2,14 +2,17 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { fetchForecasts, searchLocations, fetchCurrentWeather, fetchPastWeather } from './services/openMeteoService';
-import { ProcessedForecasts, Metric, ForecastView, Location, ModelError, CurrentWeather as CurrentWeatherType, ProcessedHourlyData } from './types';
+import { ProcessedForecasts, SuperEnsembleWeights, MosSummary, Metric, ForecastView, Location, ModelError, ModelPreferences, CurrentWeather as CurrentWeatherType, ProcessedHourlyData } from './types';
 import { METRICS, DEFAULT_LOCATION, LAST_ACCURACY_CHECK_KEY, MODELS } from './constants';
+import { buildUrlHash, isSameLocation, parseUrlState } from './utils/urlState';
+import { SNOW_CM_TO_WATER_MM } from './utils/units';
 import Header from './components/Header';
 import ComparisonChart from './components/ComparisonChart';
 import LoadingSpinner from './components/LoadingSpinner';
 import AccuracyTracker from './components/AccuracyTracker';
 import { checkAndRunHourlyUpdate, runFullAccuracyCycleNow } from './services/accuracyService';
 import ModelErrorLog from './components/ModelErrorLog';
+import DataAgeNotice from './components/DataAgeNotice';
 import CurrentWeather from './components/CurrentWeather';
 import SearchResultsDropdown from './components/SearchResultsDropdown';
 import DailyForecastInfo from './components/DailyForecastInfo';
@@ -20,10 +23,25 @@ import ErrorBoundary from './components/ErrorBoundary';
 import DailyForecastView from './components/DailyForecastView';
 import HourlyForecastView from './components/HourlyForecastView';
 import OverviewChart from './components/OverviewChart';
+import LocationComparison from './components/LocationComparison';
+import DataSourceSettings from './components/DataSourceSettings';
+import CacheDebugPanel from './components/CacheDebugPanel';
+import { clearResponseCache } from './services/responseCache';
+import UnitSettings from './components/UnitSettings';
+import ModelSettings from './components/ModelSettings';
+import { loadLastLocation, loadModelPreferences, saveLastLocation, saveModelPreferences } from './services/settingsService';
+import { useUnitPreferences } from './components/UnitsContext';
+import SuperEnsembleWeightsPanel from './components/SuperEnsembleWeightsPanel';
 
 const App: React.FC = () => {
+  const { preferences: unitPreferences, setPreferences: setUnitPreferences } = useUnitPreferences();
+  const [initialUrlState] = useState(() => parseUrlState(window.location.hash));
   const [hourlyForecasts, setHourlyForecasts] = useState<ProcessedForecasts | null>(null);
   const [dailyForecasts, setDailyForecasts] = useState<ProcessedForecasts | null>(null);
+  const [superEnsembleWeights, setSuperEnsembleWeights] = useState<SuperEnsembleWeights | null>(null);
+  const [correctedHourlyForecasts, setCorrectedHourlyForecasts] = useState<ProcessedForecasts | null>(null);
+  const [mosSummary, setMosSummary] = useState<MosSummary | null>(null);
+  const [forecastsLocation, setForecastsLocation] = useState<Location | null>(null); // The place the forecasts above are for
   const [currentWeather, setCurrentWeather] = useState<CurrentWeatherType | null>(null);
   const [currentTimezoneAbbr, setCurrentTimezoneAbbr] = useState<string | null>(null);
   const [loadingForecasts, setLoadingForecasts] = useState<boolean>(true);
@@ -31,10 +49,15 @@ const App: React.FC = () => {
   const [currentWeatherError, setCurrentWeatherError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [modelErrors, setModelErrors] = useState<ModelError[]>([]);
-  const [selectedMetric, setSelectedMetric] = useState<Metric>(METRICS[0]);
-  const [activeView, setActiveView] = useState<ForecastView>('hourly');
-
-  const [location, setLocation] = useState<Location>(DEFAULT_LOCATION);
+  const [forecastsCachedAt, setForecastsCachedAt] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState<boolean>(() => navigator.onLine);
+  const [selectedMetric, setSelectedMetric] = useState<Metric>(() => METRICS.find(m => m.key === initialUrlState.metricKey) ?? METRICS[0]);
+  const [activeView, setActiveView] = useState<ForecastView>(initialUrlState.view ?? 'hourly');
+  const [visibleModelKeys, setVisibleModelKeys] = useState<string[] | null>(initialUrlState.modelKeys);
+  const [modelPreferences, setModelPreferences] = useState<ModelPreferences>(loadModelPreferences);
+
+  // A shared link wins over the place used last time; a first visit falls back to the default.
+  const [location, setLocation] = useState<Location>(() => initialUrlState.location ?? loadLastLocation() ?? DEFAULT_LOCATION);
   
   // New state for autocomplete search
   const [searchQuery, setSearchQuery] = useState('');
@@ -55,13 +78,21 @@ const App: React.FC = () => {
   
   // State for expandable card view section
   const [isCardViewExpanded, setIsCardViewExpanded] = useState<boolean>(false);
+  const [isDataSourceSettingsOpen, setIsDataSourceSettingsOpen] = useState<boolean>(false);
+  const [isUnitSettingsOpen, setIsUnitSettingsOpen] = useState<boolean>(false);
+  const [isModelSettingsOpen, setIsModelSettingsOpen] = useState<boolean>(false);
+  const [isCacheDebugOpen, setIsCacheDebugOpen] = useState<boolean>(false);
 
   // State for derived precipitation data
   const [precipLast6h, setPrecipLast6h] = useState<number | null>(null);
   const [precipNext6h, setPrecipNext6h] = useState<number | null>(null);
   
   const refreshIntervalRef = useRef<number | null>(null);
+  const forecastLoadRef = useRef<AbortController | null>(null);
+  const currentWeatherLoadRef = useRef<AbortController | null>(null);
+  const aiSummaryLoadRef = useRef<AbortController | null>(null);
   const accuracyIntervalRef = useRef<number | null>(null);
+  const hasSyncedUrlRef = useRef(false);
 
   useEffect(() => {
     // For development: uncomment the following line to force a full accuracy
@@ -71,7 +102,11 @@ const App: React.FC = () => {
     console.log("App component mounted.");
   }, []);
 
+  // Like the forecasts, a new load cancels the previous one, whose results are then dropped.
   const loadCurrentWeather = useCallback(async (loc: Location) => {
+    currentWeatherLoadRef.current?.abort();
+    const controller = new AbortController();
+    currentWeatherLoadRef.current = controller;
     console.log(`[Weather] Starting to load current weather for ${loc.name}...`);
     setLoadingCurrent(true);
     setCurrentWeather(null); 
@@ -81,9 +116,10 @@ const App: React.FC = () => {
 
     try {
         const [{ current, timezoneAbbreviation, error: currentError }, pastData] = await Promise.all([
-            fetchCurrentWeather(loc.latitude, loc.longitude),
-            fetchPastWeather(loc.latitude, loc.longitude, 1) // Fetch 1 day of past data for precip calc
+            fetchCurrentWeather(loc.latitude, loc.longitude, controller.signal),
+            fetchPastWeather(loc.latitude, loc.longitude, 1, 'view', controller.signal) // Fetch 1 day of past data for precip calc
         ]);
+        if (controller.signal.aborted) return;
 
         if (currentError) {
             console.error(`[Weather] Error loading current weather for ${loc.name}:`, currentError);
@@ -102,34 +138,53 @@ const App: React.FC = () => {
             });
             const totalPrecip = relevantPastData.reduce((sum, record) => {
                 const rain = record.rain ?? 0; // rain is in mm
-                const snowMM = (record.snowfall ?? 0) * 10; // snowfall from service is in cm, convert to mm
+                const snowMM = (record.snowfall ?? 0) * SNOW_CM_TO_WATER_MM; // snowfall depth in cm, as water equivalent
                 return sum + rain + snowMM;
             }, 0);
             setPrecipLast6h(totalPrecip);
             console.log(`[Weather] Calculated last 6h precipitation: ${totalPrecip.toFixed(2)} mm`);
         }
     } catch (err) {
+        if (controller.signal.aborted) {
+            console.log(`[Weather] Cancelled the superseded load for ${loc.name}.`);
+            return;
+        }
         console.error("[Weather] Critical UI error in loadCurrentWeather.", err);
         setCurrentWeatherError('An unexpected client-side error occurred.');
     } finally {
-        setLoadingCurrent(false);
+        if (currentWeatherLoadRef.current === controller) setLoadingCurrent(false);
     }
 }, []);
 
   
-  const loadAllForecasts = useCallback(async (loc: Location) => {
-    setLoadingForecasts(true);
-    setError(null);
-    setModelErrors([]);
+  // A background load keeps the current forecasts on screen, and keeps them if the load fails.
+  // Starting a load cancels the previous one, so requests still queued for a place the user has
+  // left do not hold up the new one.
+  const loadAllForecasts = useCallback(async (loc: Location, background = false) => {
+    forecastLoadRef.current?.abort();
+    const controller = new AbortController();
+    forecastLoadRef.current = controller;
+    if (!background) {
+      setLoadingForecasts(true);
+      setError(null);
+      setModelErrors([]);
+    }
     try {
       console.log(`[Forecast] Starting to load all forecasts for ${loc.name}...`);
       const [hourlyResult, dailyResult] = await Promise.all([
-        fetchForecasts('hourly', loc.latitude, loc.longitude),
-        fetchForecasts('daily', loc.latitude, loc.longitude),
+        fetchForecasts('hourly', loc.latitude, loc.longitude, controller.signal),
+        fetchForecasts('daily', loc.latitude, loc.longitude, controller.signal),
       ]);
+      if (controller.signal.aborted) return;
   
       setHourlyForecasts(hourlyResult.forecasts);
       setDailyForecasts(dailyResult.forecasts);
+      setForecastsLocation(loc);
+      setSuperEnsembleWeights(hourlyResult.superEnsembleWeights);
+      setCorrectedHourlyForecasts(hourlyResult.correctedForecasts);
+      setMosSummary(hourlyResult.mosSummary);
+      const cachedTimes = [hourlyResult.cachedAt, dailyResult.cachedAt].filter((t): t is string => t !== null).sort();
+      setForecastsCachedAt(cachedTimes[0] ?? null);
   
       const allErrors = [...hourlyResult.errors, ...dailyResult.errors];
       const uniqueErrors = Array.from(new Map(allErrors.map(e => [`${e.modelName}-${e.reason}`, e])).values());
@@ -137,23 +192,33 @@ const App: React.FC = () => {
       
       console.log(`[Forecast] Successfully loaded all forecasts for ${loc.name}.`);
     } catch (err) {
+      if (controller.signal.aborted) {
+        console.log(`[Forecast] Cancelled the superseded load for ${loc.name}.`);
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(errorMessage);
       console.error(`[Forecast] Failed to load forecasts for ${loc.name}:`, errorMessage);
+      if (!background) setError(errorMessage);
     } finally {
-      setLoadingForecasts(false);
+      // Only the latest load clears the spinner, even when a background load replaced a visible one.
+      if (forecastLoadRef.current === controller) setLoadingForecasts(false);
     }
   }, []);
 
+  useEffect(() => {
+    saveLastLocation(location);
+  }, [location]);
+
   // Effect for fetching current weather. Runs on initial load and when location changes.
   useEffect(() => {
     loadCurrentWeather(location);
   }, [loadCurrentWeather, location]);
 
-  // Effect for fetching forecasts. Runs on initial load and when location changes.
+  // Effect for fetching forecasts. Runs on initial load, when location changes and when the model
+  // selection changes, since the derived models are built from whatever was fetched.
   useEffect(() => {
     loadAllForecasts(location);
-  }, [loadAllForecasts, location]);
+  }, [loadAllForecasts, location, modelPreferences]);
 
   // Effect to calculate precipitation for the next 6 hours from forecast data
   useEffect(() => {
@@ -175,9 +240,13 @@ const App: React.FC = () => {
     console.log(`[Forecast] Calculated next 6h precipitation: ${totalPrecip.toFixed(2)} mm`);
   }, [hourlyForecasts]);
   
+  // Summaries are written for the place the forecasts belong to, and dropped if the forecasts are
+  // replaced before the model answers.
   const loadAllAiSummaries = useCallback(async (
     hForecasts: ProcessedForecasts,
-    dForecasts: ProcessedForecasts
+    dForecasts: ProcessedForecasts,
+    loc: Location,
+    signal: AbortSignal
   ) => {
     setIsHourlyAiSummaryLoading(true);
     setIsDailyAiSummaryLoading(true);
@@ -186,12 +255,16 @@ const App: React.FC = () => {
     setHourlyAiSummary(null);
     setDailyAiSummary(null);
 
-    console.log(`[AI] Pre-loading summaries for both views for ${location.name}...`);
+    console.log(`[AI] Pre-loading summaries for both views for ${loc.name}...`);
 
     const [hourlyResult, dailyResult] = await Promise.allSettled([
-      generateForecastSummary(hForecasts, 'hourly', location),
-      generateForecastSummary(dForecasts, 'daily', location),
+      generateForecastSummary(hForecasts, 'hourly', loc, signal),
+      generateForecastSummary(dForecasts, 'daily', loc, signal),
     ]);
+    if (signal.aborted) {
+      console.log(`[AI] Discarded summaries for ${loc.name}; the forecasts have changed.`);
+      return;
+    }
 
     if (hourlyResult.status === 'fulfilled') {
       setHourlyAiSummary(hourlyResult.value);
@@ -212,16 +285,29 @@ const App: React.FC = () => {
       console.error(`[AI] Error generating daily summary:`, dailyResult.reason);
     }
     setIsDailyAiSummaryLoading(false);
-  }, [location]);
+  }, []);
 
-  // Effect for AI Summary: pre-loads both summaries when forecast data is ready.
+  // Effect for AI Summary: pre-loads both summaries when forecast data is ready. Summaries are unit-neutral,
+  // so changing display units only reformats them.
+  // Forecasts still on screen from the previous location are skipped until the new ones arrive.
   useEffect(() => {
-    if (!loadingForecasts && hourlyForecasts && dailyForecasts) {
-      loadAllAiSummaries(hourlyForecasts, dailyForecasts);
+    if (loadingForecasts || !hourlyForecasts || !dailyForecasts || !forecastsLocation || !isSameLocation(forecastsLocation, location)) {
+      return;
     }
-  }, [hourlyForecasts, dailyForecasts, loadingForecasts, loadAllAiSummaries]);
+    const controller = new AbortController();
+    aiSummaryLoadRef.current = controller;
+    loadAllAiSummaries(hourlyForecasts, dailyForecasts, forecastsLocation, controller.signal);
+    return () => {
+      controller.abort();
+      setIsHourlyAiSummaryLoading(false);
+      setIsDailyAiSummaryLoading(false);
+    };
+  }, [hourlyForecasts, dailyForecasts, forecastsLocation, location, loadingForecasts, loadAllAiSummaries]);
 
+  // A retry shares the pre-load's signal, so it is cancelled along with it when the forecasts change.
   const handleAiSummaryRetry = useCallback(async () => {
+    const signal = aiSummaryLoadRef.current?.signal;
+    if (!forecastsLocation || !signal || signal.aborted) return;
     console.log(`[AI] Retrying summary for ${activeView} view...`);
     if (activeView === 'hourly') {
         if (!hourlyForecasts) return;
@@ -229,12 +315,14 @@ const App: React.FC = () => {
         setHourlyAiSummaryError(null);
         setHourlyAiSummary(null);
         try {
-            const summary = await generateForecastSummary(hourlyForecasts, 'hourly', location);
+            const summary = await generateForecastSummary(hourlyForecasts, 'hourly', forecastsLocation, signal);
+            if (signal.aborted) return;
             setHourlyAiSummary(summary);
         } catch (err) {
+            if (signal.aborted) return;
             setHourlyAiSummaryError(err instanceof Error ? err.message : 'An AI summary error occurred.');
         } finally {
-            setIsHourlyAiSummaryLoading(false);
+            if (!signal.aborted) setIsHourlyAiSummaryLoading(false);
         }
     } else if (activeView === 'daily') {
         if (!dailyForecasts) return;
@@ -242,15 +330,17 @@ const App: React.FC = () => {
         setDailyAiSummaryError(null);
         setDailyAiSummary(null);
         try {
-            const summary = await generateForecastSummary(dailyForecasts, 'daily', location);
+            const summary = await generateForecastSummary(dailyForecasts, 'daily', forecastsLocation, signal);
+            if (signal.aborted) return;
             setDailyAiSummary(summary);
         } catch (err) {
+            if (signal.aborted) return;
             setDailyAiSummaryError(err instanceof Error ? err.message : 'An AI summary error occurred.');
         } finally {
-            setIsDailyAiSummaryLoading(false);
+            if (!signal.aborted) setIsDailyAiSummaryLoading(false);
         }
     }
-  }, [activeView, hourlyForecasts, dailyForecasts, location]);
+  }, [activeView, hourlyForecasts, dailyForecasts, forecastsLocation]);
   
   useEffect(() => {
     const runCheck = async () => {
@@ -327,6 +417,26 @@ const App: React.FC = () => {
   }, [location, loadCurrentWeather, loadAllForecasts]);
 
 
+  // When the connection returns, quietly replace anything that was served from the offline cache.
+  useEffect(() => {
+    const handleOnline = () => {
+      console.log(`[Offline] Connection restored; revalidating data for ${location.name}.`);
+      setIsOnline(true);
+      loadCurrentWeather(location);
+      loadAllForecasts(location, true);
+    };
+    const handleOffline = () => {
+      console.log('[Offline] Connection lost; forecasts will be served from the offline cache.');
+      setIsOnline(false);
+    };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [location, loadCurrentWeather, loadAllForecasts]);
+
   // Debounce user input for search
   useEffect(() => {
     if (!isSearchDropdownVisible) {
@@ -407,10 +517,70 @@ const App: React.FC = () => {
     }
   };
 
+  const handleToggleModel = useCallback((modelKey: string) => {
+    setVisibleModelKeys(current => {
+      const allKeys = MODELS.map(m => m.key);
+      const visible = current ?? allKeys;
+      const next = allKeys.filter(key => key === modelKey ? !visible.includes(key) : visible.includes(key));
+      return next.length === allKeys.length ? null : next;
+    });
+  }, []);
+
+  const handleModelPreferencesChange = (preferences: ModelPreferences) => {
+    saveModelPreferences(preferences);
+    setModelPreferences(preferences);
+    // A model that is no longer fetched has nothing to show, so drop it from the legend selection too.
+    setVisibleModelKeys(current => {
+      if (!current) return current;
+      const next = current.filter(key => !preferences.hidden.includes(key));
+      return next.length > 0 ? next : null;
+    });
+  };
+
+  // Mirror the shareable state into the URL hash. The first sync replaces the entry the page was
+  // opened with; later changes push, so back/forward walks through them.
+  useEffect(() => {
+    const hash = buildUrlHash({ location, view: activeView, metricKey: selectedMetric.key, modelKeys: visibleModelKeys, units: unitPreferences });
+    if (hash !== window.location.hash) {
+      if (hasSyncedUrlRef.current) {
+        window.history.pushState(null, '', hash);
+      } else {
+        window.history.replaceState(null, '', hash);
+      }
+    }
+    hasSyncedUrlRef.current = true;
+  }, [location, activeView, selectedMetric, visibleModelKeys, unitPreferences]);
+
+  // Back/forward and hand-edited links: apply whatever the URL now says. Anything the link leaves
+  // out keeps its current value, and the entry is rewritten in full so the sync above has nothing to push.
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseUrlState(window.location.hash);
+      console.log(`[UI] Restoring state from URL: ${window.location.hash}`);
+      const nextLocation = state.location && !isSameLocation(location, state.location) ? state.location : location;
+      const nextView = state.view ?? activeView;
+      const nextMetric = METRICS.find(m => m.key === state.metricKey) ?? selectedMetric;
+      const nextUnits = state.units ?? unitPreferences;
+
+      setLocation(nextLocation);
+      setActiveView(nextView);
+      setSelectedMetric(nextMetric);
+      setVisibleModelKeys(state.modelKeys);
+      setUnitPreferences(nextUnits, false);
+      window.history.replaceState(null, '', buildUrlHash({ location: nextLocation, view: nextView, metricKey: nextMetric.key, modelKeys: state.modelKeys, units: nextUnits }));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [location, activeView, selectedMetric, unitPreferences, setUnitPreferences]);
+
   const renderContent = () => {
     if (activeView === 'accuracy') {
         return <AccuracyTracker />;
     }
+
+    if (activeView === 'compare') {
+        return <LocationComparison currentLocation={location} />;
+    }
     
     if (loadingForecasts) {
       return (
@@ -436,7 +606,8 @@ const App: React.FC = () => {
       );
     }
 
-    if (!hourlyForecasts || !dailyForecasts || Object.keys(hourlyForecasts).length <= 2) { // Allow for mean/median models
+    // With a narrow model selection a single model is enough, so count raw models rather than keys.
+    if (!hourlyForecasts || !dailyForecasts || !Object.keys(hourlyForecasts).some(key => MODELS.find(m => m.key === key)?.category !== 'Derived')) {
       return (
          <div className="text-center p-8 bg-yellow-900/30 border border-yellow-700 rounded-lg">
            <h2 className="text-2xl font-bold text-yellow-400">No Data Available</h2>
@@ -478,12 +649,19 @@ const App: React.FC = () => {
                     activeView={activeView}
                   />
                 ) : (
-                  <ComparisonChart
-                    hourlyData={hourlyForecasts}
-                    dailyData={dailyForecasts}
-                    metric={selectedMetric}
-                    activeView={activeView}
-                  />
+                  <>
+                    <ComparisonChart
+                      hourlyData={hourlyForecasts}
+                      dailyData={dailyForecasts}
+                      correctedHourlyData={correctedHourlyForecasts}
+                      mosSummary={mosSummary}
+                      metric={selectedMetric}
+                      activeView={activeView}
+                      visibleModelKeys={visibleModelKeys}
+                      onToggleModel={handleToggleModel}
+                    />
+                    <SuperEnsembleWeightsPanel weights={superEnsembleWeights} metric={selectedMetric} />
+                  </>
                 )}
             </div>
         )}
@@ -565,6 +743,7 @@ const App: React.FC = () => {
                   searchQuery={searchQuery}
                   setSearchQuery={setSearchQuery}
                   onSearchFocus={() => setIsSearchDropdownVisible(true)}
+                  onLocationSelect={handleLocationSelect}
               />
               {isSearchDropdownVisible && searchQuery.length >= 3 && (
                   <SearchResultsDropdown
@@ -576,6 +755,7 @@ const App: React.FC = () => {
               )}
           </div>
 
+          <DataAgeNotice cachedAt={forecastsCachedAt} isOnline={isOnline} />
           <ModelErrorLog errors={modelErrors} onClear={() => setModelErrors([])} />
           
           <CurrentWeather 
@@ -602,6 +782,13 @@ const App: React.FC = () => {
             >
               7-Day Forecast
             </button>
+            <button
+              onClick={() => handleViewChange('compare')}
+              className={`px-6 py-3 text-lg font-medium transition-colors duration-200 ease-in-out
+                ${activeView === 'compare' ? 'border-b-2 border-blue-500 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              Compare Locations
+            </button>
             <button
               onClick={() => handleViewChange('accuracy')}
               className={`px-6 py-3 text-lg font-medium transition-colors duration-200 ease-in-out
@@ -617,6 +804,52 @@ const App: React.FC = () => {
           </main>
           <footer className="text-center mt-12 text-gray-500 text-sm">
             <p>Weather data provided by <a href="https://open-meteo.com/" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">Open-Meteo</a>.</p>
+            <div className="mt-2 flex justify-center gap-4">
+              <button
+                onClick={() => setIsUnitSettingsOpen(open => !open)}
+                className="text-gray-400 hover:text-white underline-offset-2 hover:underline"
+              >
+                {isUnitSettingsOpen ? 'Hide units' : 'Units'}
+              </button>
+              <button
+                onClick={() => setIsModelSettingsOpen(open => !open)}
+                className="text-gray-400 hover:text-white underline-offset-2 hover:underline"
+              >
+                {isModelSettingsOpen ? 'Hide models' : 'Models'}
+              </button>
+              <button
+                onClick={() => setIsDataSourceSettingsOpen(open => !open)}
+                className="text-gray-400 hover:text-white underline-offset-2 hover:underline"
+              >
+                {isDataSourceSettingsOpen ? 'Hide data source settings' : 'Data source settings'}
+              </button>
+              <button
+                onClick={() => setIsCacheDebugOpen(open => !open)}
+                className="text-gray-400 hover:text-white underline-offset-2 hover:underline"
+              >
+                {isCacheDebugOpen ? 'Hide cache stats' : 'Cache stats'}
+              </button>
+            </div>
+            {isUnitSettingsOpen && (
+              <div className="mt-4">
+                <UnitSettings />
+              </div>
+            )}
+            {isModelSettingsOpen && (
+              <div className="mt-4">
+                <ModelSettings preferences={modelPreferences} onChange={handleModelPreferencesChange} />
+              </div>
+            )}
+            {isDataSourceSettingsOpen && (
+              <div className="mt-4">
+                <DataSourceSettings onSaved={() => { clearResponseCache(); loadCurrentWeather(location); loadAllForecasts(location); }} />
+              </div>
+            )}
+            {isCacheDebugOpen && (
+              <div className="mt-4">
+                <CacheDebugPanel />
+              </div>
+            )}
           </footer>
         </ErrorBoundary>
       </div>
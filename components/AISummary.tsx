@@ -1,5 +1,7 @@
 import React from 'react';
 import { ForecastView } from '../types';
+import { formatSummaryQuantities } from '../services/geminiService';
+import { useUnits } from './UnitsContext';
 
 interface AISummaryProps {
   summary: string | null;
@@ -11,11 +13,12 @@ interface AISummaryProps {
 
 // Internal component for simple markdown rendering
 const SimpleMarkdownRenderer: React.FC<{ text: string }> = ({ text }) => {
+  const units = useUnits();
   if (!text) return null;
 
-  // First, handle special replacements like the LaTeX degree symbols
-  let cleanedText = text;
-  cleanedText = cleanedText.replace(/\$(-?[\d.]+)\^\{[^\}]+\}\\text\{C\}\$/g, '$1°C');
+  // First, handle special replacements: quantity tags in the user's units, then LaTeX degree symbols
+  let cleanedText = formatSummaryQuantities(text, units);
+  cleanedText = cleanedText.replace(/\$(-?[\d.]+)\^\{[^\}]+\}\\text\{([CF])\}\$/g, '$1°$2');
   cleanedText = cleanedText.replace(/\$(-?[\d.]+)\^\{[^\}]+\}\$/g, '$1°');
 
   // Then, process basic markdown by splitting by bold/italic markers while keeping them
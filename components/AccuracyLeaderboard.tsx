@@ -1,7 +1,43 @@
 
-import React, { useMemo } from 'react';
-import { AccuracyScore, AccuracyInterval, Metric } from '../types';
+import React, { useMemo, useState } from 'react';
+import { AccuracyScore, AccuracyScoreData, AccuracyInterval, Metric } from '../types';
 import { MODELS } from '../constants';
+import { modelSupportsMetric } from '../services/providers';
+import { useUnits } from './UnitsContext';
+
+type SortColumn = 'mae' | 'bias' | 'rmse' | 'stdDev' | 'skillPersistence' | 'skillMedian';
+
+interface LeaderboardRow {
+    modelKey: string;
+    modelName: string;
+    hours: number;
+    mae: number | null;
+    bias: number | null;
+    rmse: number | null;
+    stdDev: number | null;
+    skillPersistence: number | null;
+    skillMedian: number | null;
+}
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+const COLUMNS: {
+    key: SortColumn;
+    label: string;
+    description: string;
+    defaultAscending: boolean;
+    value: (row: LeaderboardRow) => number | null;
+    sortValue: (row: LeaderboardRow) => number | null;
+    format: (value: number) => string;
+}[] = [
+    { key: 'mae', label: 'MAE', description: 'Mean absolute error', defaultAscending: true, value: r => r.mae, sortValue: r => r.mae, format: v => v.toFixed(2) },
+    // Bias ranks by magnitude so that both warm and cold models sink the same way.
+    { key: 'bias', label: 'Bias', description: 'Mean of forecast minus actual (positive = runs warm/high)', defaultAscending: true, value: r => r.bias, sortValue: r => r.bias === null ? null : Math.abs(r.bias), format: formatSigned },
+    { key: 'rmse', label: 'RMSE', description: 'Root mean square error', defaultAscending: true, value: r => r.rmse, sortValue: r => r.rmse, format: v => v.toFixed(2) },
+    { key: 'stdDev', label: 'Error SD', description: 'Standard deviation of the error (random component after removing bias)', defaultAscending: true, value: r => r.stdDev, sortValue: r => r.stdDev, format: v => v.toFixed(2) },
+    { key: 'skillPersistence', label: 'Skill vs Persist.', description: 'MSE skill score against persisting the observation at run time (1 = perfect, 0 = no better)', defaultAscending: false, value: r => r.skillPersistence, sortValue: r => r.skillPersistence, format: formatSigned },
+    { key: 'skillMedian', label: 'Skill vs Median', description: 'MSE skill score against the median of all models (positive = beats the consensus)', defaultAscending: false, value: r => r.skillMedian, sortValue: r => r.skillMedian, format: formatSigned },
+];
 
 interface AccuracyLeaderboardProps {
     scores: AccuracyScore[];
@@ -22,6 +58,10 @@ const AccuracyLeaderboard: React.FC<AccuracyLeaderboardProps> = ({
         '5d': 1,
     };
     const minHoursForReliability = MIN_HOURS_MAP[selectedInterval];
+    const units = useUnits();
+
+    const [sortColumn, setSortColumn] = useState<SortColumn>('mae');
+    const [sortAscending, setSortAscending] = useState<boolean>(true);
 
     const rankedScores = useMemo(() => {
         if (!scores || scores.length === 0) return [];
@@ -31,48 +71,65 @@ const AccuracyLeaderboard: React.FC<AccuracyLeaderboardProps> = ({
             .map(modelScore => {
                 const metricData = modelScore.scores[selectedMetric.key];
                 if (!metricData || !metricData[selectedInterval]) return null;
-                const intervalData = metricData[selectedInterval];
                 return {
                     modelKey: modelScore.modelKey,
                     modelName: modelScore.modelName,
-                    mae: intervalData.meanAbsoluteError,
-                    hours: intervalData.hoursTracked,
+                    data: metricData[selectedInterval],
                 };
             })
-            .filter((item): item is { modelKey: string; modelName: string; mae: number; hours: number; } => item !== null);
+            .filter((item): item is { modelKey: string; modelName: string; data: AccuracyScoreData; } => item !== null);
     }, [scores, selectedLocationId, selectedInterval, selectedMetric]);
 
     const allModelsData = useMemo(() => {
-        const scoreMap = new Map<string, { mae: number; hours: number }>();
+        const scoreMap = new Map<string, AccuracyScoreData>();
         rankedScores.forEach(score => {
-            scoreMap.set(score.modelKey, { mae: score.mae, hours: score.hours });
+            scoreMap.set(score.modelKey, score.data);
         });
 
-        const normalizeParam = (s: string) => s.replace(/_/g, '');
-        const normalizedMetricKey = normalizeParam(selectedMetric.key);
-
         const allTrackableModels = MODELS.filter(m => 
-            m.category !== 'Derived' &&
-            m.params.some(p => normalizeParam(p) === normalizedMetricKey)
+            m.category !== 'Derived' && modelSupportsMetric(m, selectedMetric.key)
         );
 
-        const displayData = allTrackableModels.map(model => {
-            const scoreData = scoreMap.get(model.key);
+        // Error statistics are shown in the chosen units; skill scores are unitless.
+        const toDisplay = (value: number | null | undefined) => typeof value === 'number' ? units.delta(selectedMetric.key, value) : null;
+        const displayData: LeaderboardRow[] = allTrackableModels.map(model => {
+            const data = scoreMap.get(model.key);
             return {
                 modelKey: model.key,
                 modelName: model.name,
-                mae: scoreData?.mae ?? 0,
-                hours: scoreData?.hours ?? 0,
+                hours: data?.hoursTracked ?? 0,
+                mae: toDisplay(data?.meanAbsoluteError),
+                bias: toDisplay(data?.meanBias),
+                rmse: toDisplay(data?.rootMeanSquareError),
+                stdDev: toDisplay(data?.errorStdDev),
+                skillPersistence: data?.skillVsPersistence ?? null,
+                skillMedian: data?.skillVsMedian ?? null,
             };
         });
 
+        const column = COLUMNS.find(c => c.key === sortColumn)!;
         return displayData.sort((a, b) => {
             if (a.hours > 0 && b.hours === 0) return -1;
             if (a.hours === 0 && b.hours > 0) return 1;
             if (a.hours === 0 && b.hours === 0) return a.modelName.localeCompare(b.modelName);
-            return a.mae - b.mae;
+
+            const aValue = column.sortValue(a);
+            const bValue = column.sortValue(b);
+            if (aValue === null && bValue === null) return a.modelName.localeCompare(b.modelName);
+            if (aValue === null) return 1; // Missing values always sink to the bottom
+            if (bValue === null) return -1;
+            return sortAscending ? aValue - bValue : bValue - aValue;
         });
-    }, [rankedScores, selectedMetric.key]);
+    }, [rankedScores, selectedMetric.key, sortColumn, sortAscending, units]);
+
+    const handleSort = (column: SortColumn) => {
+        if (column === sortColumn) {
+            setSortAscending(!sortAscending);
+        } else {
+            setSortColumn(column);
+            setSortAscending(COLUMNS.find(c => c.key === column)!.defaultAscending);
+        }
+    };
 
     return (
         <div>
@@ -82,7 +139,18 @@ const AccuracyLeaderboard: React.FC<AccuracyLeaderboardProps> = ({
                         <tr className="border-b border-white/10 text-sm text-gray-400">
                             <th className="p-3 font-semibold">Rank</th>
                             <th className="p-3 font-semibold">Model</th>
-                            <th className="p-3 font-semibold text-right">Avg. Error (MAE)</th>
+                            {COLUMNS.map(column => (
+                                <th key={column.key} className="p-3 font-semibold text-right whitespace-nowrap">
+                                    <button
+                                        onClick={() => handleSort(column.key)}
+                                        title={column.description}
+                                        className={`hover:text-white transition-colors ${sortColumn === column.key ? 'text-white' : ''}`}
+                                    >
+                                        {column.label}
+                                        {sortColumn === column.key && <span className="ml-1">{sortAscending ? '▲' : '▼'}</span>}
+                                    </button>
+                                </th>
+                            ))}
                             <th className="p-3 font-semibold text-right">Hours Tracked</th>
                         </tr>
                     </thead>
@@ -94,21 +162,26 @@ const AccuracyLeaderboard: React.FC<AccuracyLeaderboardProps> = ({
                                     <tr key={score.modelKey} className="border-b border-white/10 hover:bg-gray-700/50">
                                         <td className="p-3 font-bold">{score.hours > 0 ? index + 1 : 'N/A'}</td>
                                         <td className="p-3">{score.modelName}</td>
-                                        <td className="p-3 text-right font-mono">
-                                            {score.hours > 0 ? (
-                                                <>
-                                                    {score.mae.toFixed(2)}
-                                                    {!isReliable && <span className="text-yellow-400">*</span>}
-                                                </>
-                                            ) : '-'}
-                                        </td>
+                                        {COLUMNS.map(column => {
+                                            const value = column.value(score);
+                                            return (
+                                                <td key={column.key} className="p-3 text-right font-mono">
+                                                    {score.hours > 0 && value !== null ? (
+                                                        <>
+                                                            {column.format(value)}
+                                                            {column.key === 'mae' && !isReliable && <span className="text-yellow-400">*</span>}
+                                                        </>
+                                                    ) : '-'}
+                                                </td>
+                                            );
+                                        })}
                                         <td className="p-3 text-right font-mono">{score.hours}</td>
                                     </tr>
                                 );
                             })
                         ) : (
                             <tr>
-                                <td colSpan={4} className="p-6 text-center text-gray-400">
+                                <td colSpan={COLUMNS.length + 3} className="p-6 text-center text-gray-400">
                                     No models support this metric.
                                 </td>
                             </tr>
@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import { AccuracySite, Location } from '../types';
+import { searchLocations } from '../services/openMeteoService';
+import { addAccuracySite, updateAccuracySite, deleteAccuracySite, deleteAccuracySiteData } from '../services/dbService';
+import SearchResultsDropdown from './SearchResultsDropdown';
+
+interface AccuracySiteManagerProps {
+    sites: AccuracySite[];
+    disabled: boolean;
+    onSitesChanged: (selectSiteId?: number) => void;
+}
+
+interface SiteDraft {
+    name: string;
+    latitude: string;
+    longitude: string;
+    icao: string;
+}
+
+const AccuracySiteManager: React.FC<AccuracySiteManagerProps> = ({ sites, disabled, onSitesChanged }) => {
+    const [searchQuery, setSearchQuery] = useState('');
+    const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
+    const [searchResults, setSearchResults] = useState<Location[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [searchError, setSearchError] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [draft, setDraft] = useState<SiteDraft>({ name: '', latitude: '', longitude: '', icao: '' });
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const handler = setTimeout(() => setDebouncedSearchQuery(searchQuery), 300);
+        return () => clearTimeout(handler);
+    }, [searchQuery]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const performSearch = async () => {
+            if (debouncedSearchQuery.trim().length < 3) {
+                setSearchResults([]);
+                setSearchError(null);
+                setIsSearching(false);
+                return;
+            }
+            setIsSearching(true);
+            setSearchError(null);
+            try {
+                const results = await searchLocations(debouncedSearchQuery);
+                if (cancelled) return;
+                setSearchResults(results);
+                if (results.length === 0) setSearchError('No locations found.');
+            } catch (err) {
+                if (!cancelled) setSearchError(err instanceof Error ? err.message : 'Failed to fetch locations.');
+            } finally {
+                if (!cancelled) setIsSearching(false);
+            }
+        };
+        performSearch();
+        return () => { cancelled = true; };
+    }, [debouncedSearchQuery]);
+
+    const handleAdd = async (location: Location) => {
+        setActionError(null);
+        try {
+            // The geocoder's id is discarded; the registry generates its own stable ids.
+            const site = await addAccuracySite({
+                name: location.name,
+                latitude: location.latitude,
+                longitude: location.longitude,
+                country: location.country,
+                admin1: location.admin1,
+            });
+            console.log(`[Accuracy Sites] Added site "${site.name}" with id ${site.id}.`);
+            setSearchQuery('');
+            setSearchResults([]);
+            onSitesChanged(site.id);
+        } catch (err) {
+            console.error('[Accuracy Sites] Failed to add site:', err);
+            setActionError('Failed to add site. See console for details.');
+        }
+    };
+
+    const startEditing = (site: AccuracySite) => {
+        setEditingId(site.id);
+        setDraft({ name: site.name, latitude: String(site.latitude), longitude: String(site.longitude), icao: site.icao ?? '' });
+        setActionError(null);
+    };
+
+    const handleSave = async (site: AccuracySite) => {
+        const latitude = parseFloat(draft.latitude);
+        const longitude = parseFloat(draft.longitude);
+        if (!draft.name.trim() || !isFinite(latitude) || !isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+            setActionError('Enter a name and a valid latitude (-90 to 90) and longitude (-180 to 180).');
+            return;
+        }
+        const icao = draft.icao.trim().toUpperCase();
+        if (icao && !/^[A-Z][A-Z0-9]{3}$/.test(icao)) {
+            setActionError('ICAO station codes are four characters, e.g. CYEG. Leave blank for sites without a station.');
+            return;
+        }
+
+        const moved = latitude !== site.latitude || longitude !== site.longitude;
+        try {
+            await updateAccuracySite({ ...site, name: draft.name.trim(), latitude, longitude, icao: icao || undefined });
+            if (moved && window.confirm(`"${site.name}" has moved. Delete the data collected at its old position so scores only reflect the new one?`)) {
+                await deleteAccuracySiteData(site.id);
+            }
+            setEditingId(null);
+            onSitesChanged();
+        } catch (err) {
+            console.error('[Accuracy Sites] Failed to update site:', err);
+            setActionError('Failed to update site. See console for details.');
+        }
+    };
+
+    const handleRemove = async (site: AccuracySite) => {
+        if (sites.length <= 1) {
+            setActionError('At least one verification site is required.');
+            return;
+        }
+        if (!window.confirm(`Stop verifying forecasts at "${site.name}"?`)) return;
+
+        try {
+            await deleteAccuracySite(site.id);
+            if (window.confirm(`Also delete all collected forecasts, observations and scores for "${site.name}"? This cannot be undone.`)) {
+                await deleteAccuracySiteData(site.id);
+                console.log(`[Accuracy Sites] Removed site ${site.id} and purged its data.`);
+            } else {
+                console.log(`[Accuracy Sites] Removed site ${site.id}; its data will expire with normal retention.`);
+            }
+            onSitesChanged();
+        } catch (err) {
+            console.error('[Accuracy Sites] Failed to remove site:', err);
+            setActionError('Failed to remove site. See console for details.');
+        }
+    };
+
+    const inputClassName = 'bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+        <div className="p-4 bg-gray-900/50 rounded-md border border-white/10 space-y-4">
+            <div className="relative max-w-lg mx-auto">
+                <input
+                    type="text"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    disabled={disabled}
+                    placeholder="Search for a place to add as a verification site..."
+                    className={`w-full ${inputClassName} py-2`}
+                />
+                {searchQuery.length >= 3 && (
+                    <SearchResultsDropdown
+                        results={searchResults}
+                        isLoading={isSearching}
+                        error={searchError}
+                        onSelect={handleAdd}
+                    />
+                )}
+            </div>
+
+            {actionError && <p className="text-center text-sm text-red-400">{actionError}</p>}
+
+            <ul className="divide-y divide-white/10">
+                {sites.map(site => (
+                    <li key={site.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                        {editingId === site.id ? (
+                            <>
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <input className={inputClassName} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} aria-label="Site name" />
+                                    <input className={`${inputClassName} w-28`} value={draft.latitude} onChange={(e) => setDraft({ ...draft, latitude: e.target.value })} aria-label="Latitude" />
+                                    <input className={`${inputClassName} w-28`} value={draft.longitude} onChange={(e) => setDraft({ ...draft, longitude: e.target.value })} aria-label="Longitude" />
+                                    <input className={`${inputClassName} w-24 uppercase`} value={draft.icao} onChange={(e) => setDraft({ ...draft, icao: e.target.value })} placeholder="ICAO" aria-label="METAR station (ICAO)" />
+                                </div>
+                                <div className="flex gap-2">
+                                    <button onClick={() => handleSave(site)} disabled={disabled} className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-600">Save</button>
+                                    <button onClick={() => setEditingId(null)} className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600">Cancel</button>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <div>
+                                    <p className="font-semibold text-gray-100">
+                                        {site.name}
+                                        <span className="ml-2 text-xs font-normal text-gray-400">
+                                            {site.icao ? `Verified against ${site.icao} METARs` : 'Verified against archive reanalysis'}
+                                        </span>
+                                    </p>
+                                    <p className="text-xs text-gray-400 font-mono">
+                                        {site.latitude.toFixed(4)}, {site.longitude.toFixed(4)}
+                                        {site.admin1 && <span className="font-sans"> · {site.admin1}, {site.country}</span>}
+                                    </p>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button onClick={() => startEditing(site)} disabled={disabled} className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 disabled:text-gray-500">Edit</button>
+                                    <button onClick={() => handleRemove(site)} disabled={disabled} className="px-3 py-1 text-sm bg-red-700 text-white rounded-md hover:bg-red-800 disabled:bg-gray-600">Remove</button>
+                                </div>
+                            </>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default AccuracySiteManager;
@@ -1,25 +1,35 @@
 
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { AccuracyScore, AccuracyInterval, Metric } from '../types';
-import { getAccuracyScores, initDB, clearAccuracyData } from '../services/dbService';
-import { runFullAccuracyCycleNow } from '../services/accuracyService';
-import { TRACKABLE_METRICS, ACCURACY_LOCATIONS, ACCURACY_FIRST_RUN_KEY, LAST_ACCURACY_CHECK_KEY } from '../constants';
+import { AccuracyScore, AccuracySite, AccuracyInterval, Metric, LeadTimeErrorCurve, CategoricalScore } from '../types';
+import { getAccuracyScores, getCategoricalScores, getAccuracySites, initDB, clearAccuracyData } from '../services/dbService';
+import { runFullAccuracyCycleNow, computeLeadTimeErrorCurves, deriveIntervalScores } from '../services/accuracyService';
+import { TRACKABLE_METRICS, DEFAULT_ACCURACY_SITES, ACCURACY_FIRST_RUN_KEY, LAST_ACCURACY_CHECK_KEY, MODELS, LEAD_TIME_BIN_HOURS } from '../constants';
 import LoadingSpinner from './LoadingSpinner';
 import AccuracyLeaderboard from './AccuracyLeaderboard';
 import HistoricalComparisonChart from './HistoricalComparisonChart';
+import LeadTimeErrorChart from './LeadTimeErrorChart';
+import CategoricalScoresPanel from './CategoricalScoresPanel';
+import AccuracySiteManager from './AccuracySiteManager';
+import { useUnits } from './UnitsContext';
 
 const AccuracyTracker: React.FC = () => {
+    const units = useUnits();
     const [scores, setScores] = useState<AccuracyScore[]>([]);
+    const [categoricalScores, setCategoricalScores] = useState<CategoricalScore[]>([]);
     const [loading, setLoading] = useState<boolean>(true);
     const [error, setError] = useState<string | null>(null);
     const [retryCount, setRetryCount] = useState(0);
+    const [sites, setSites] = useState<AccuracySite[]>([]);
 
     // UI State
-    const [selectedLocationId, setSelectedLocationId] = useState<number>(ACCURACY_LOCATIONS[0].id);
+    const [selectedLocationId, setSelectedLocationId] = useState<number>(DEFAULT_ACCURACY_SITES[0].id);
     const [selectedInterval, setSelectedInterval] = useState<AccuracyInterval>('24h');
     const [selectedMetric, setSelectedMetric] = useState<Metric>(TRACKABLE_METRICS[0]);
     const [isProcessing, setIsProcessing] = useState<boolean>(false);
     const [processingMessage, setProcessingMessage] = useState<string>('');
+    const [curves, setCurves] = useState<LeadTimeErrorCurve[]>([]);
+    const [curvesVersion, setCurvesVersion] = useState(0);
+    const [isManagingSites, setIsManagingSites] = useState<boolean>(false);
 
     const primaryMetrics = useMemo(() => TRACKABLE_METRICS.filter(m => ['temperature_2m', 'rain', 'snowfall'].includes(m.key)), []);
     const secondaryMetrics = useMemo(() => TRACKABLE_METRICS.filter(m => ['wind_speed_10m', 'wind_gusts_10m', 'cloud_cover', 'visibility'].includes(m.key)), []);
@@ -31,6 +41,9 @@ const AccuracyTracker: React.FC = () => {
             await initDB();
             const savedScores = await getAccuracyScores();
             setScores(savedScores);
+            setCategoricalScores(await getCategoricalScores());
+            setSites(await getAccuracySites());
+            setCurvesVersion(v => v + 1);
         } catch (err) {
             console.error('[AccuracyTracker] Error loading scores:', err);
             setError(err instanceof Error ? err.message : 'Failed to load accuracy scores.');
@@ -47,6 +60,8 @@ const AccuracyTracker: React.FC = () => {
                 await initDB();
                 const savedScores = await getAccuracyScores();
                 setScores(savedScores);
+                setCategoricalScores(await getCategoricalScores());
+                setSites(await getAccuracySites());
             } catch (err) {
                 console.error('[AccuracyTracker] Initial score load failed:', err);
                 setError(err instanceof Error ? err.message : 'Failed to load accuracy scores.');
@@ -62,12 +77,63 @@ const AccuracyTracker: React.FC = () => {
         initialLoad();
     }, [retryCount]);
     
+    // Keep the selection valid when the selected site is removed (or the defaults were never seeded).
+    useEffect(() => {
+        if (sites.length > 0 && !sites.some(s => s.id === selectedLocationId)) {
+            setSelectedLocationId(sites[0].id);
+        }
+    }, [sites, selectedLocationId]);
+
+    const handleSitesChanged = async (selectSiteId?: number) => {
+        try {
+            setSites(await getAccuracySites());
+            if (selectSiteId !== undefined) setSelectedLocationId(selectSiteId);
+            // Purges may have removed scores, so reload everything derived from them too.
+            setScores(await getAccuracyScores());
+            setCategoricalScores(await getCategoricalScores());
+            setCurvesVersion(v => v + 1);
+        } catch (err) {
+            console.error('[AccuracyTracker] Failed to reload sites:', err);
+        }
+    };
+
+    useEffect(() => {
+        let cancelled = false;
+        computeLeadTimeErrorCurves(selectedLocationId, selectedMetric.key)
+            .then(result => { if (!cancelled) setCurves(result); })
+            .catch(err => console.error('[AccuracyTracker] Failed to compute lead-time curves:', err));
+        return () => { cancelled = true; };
+    }, [selectedLocationId, selectedMetric, curvesVersion]);
+
+    // Bucket scores are derivable from the curves, so models missing from the score store
+    // (e.g. after a reset of the running scores) still appear on the leaderboard.
+    const leaderboardScores = useMemo(() => {
+        const merged = [...scores];
+        curves.forEach(curve => {
+            const index = merged.findIndex(s => s.locationId === curve.locationId && s.modelKey === curve.modelKey);
+            if (index !== -1 && merged[index].scores[curve.metricKey]) return;
+            const derived = deriveIntervalScores(curve);
+            if (index !== -1) {
+                merged[index] = { ...merged[index], scores: { ...merged[index].scores, [curve.metricKey]: derived } };
+            } else {
+                const location = sites.find(l => l.id === curve.locationId);
+                merged.push({
+                    locationId: curve.locationId,
+                    locationName: location?.name ?? String(curve.locationId),
+                    modelKey: curve.modelKey,
+                    modelName: MODELS.find(m => m.key === curve.modelKey)?.name ?? curve.modelKey,
+                    scores: { [curve.metricKey]: derived },
+                });
+            }
+        });
+        return merged;
+    }, [scores, curves, sites]);
+
     const totalHoursTrackedForView = useMemo(() => {
-        if (!scores) return 0;
-        return scores
+        return leaderboardScores
             .filter(s => s.locationId === selectedLocationId && s.scores[selectedMetric.key]?.[selectedInterval])
             .reduce((total, score) => total + score.scores[selectedMetric.key][selectedInterval].hoursTracked, 0);
-    }, [scores, selectedLocationId, selectedMetric, selectedInterval]);
+    }, [leaderboardScores, selectedLocationId, selectedMetric, selectedInterval]);
 
     const showLowDataWarning = totalHoursTrackedForView > 0 && totalHoursTrackedForView < 1;
 
@@ -95,6 +161,7 @@ const AccuracyTracker: React.FC = () => {
             try {
                 await clearAccuracyData();
                 setScores([]);
+                setCategoricalScores([]);
                 
                 setProcessingMessage('Data cleared. Fetching initial forecasts...');
                 await runFullAccuracyCycleNow();
@@ -110,7 +177,7 @@ const AccuracyTracker: React.FC = () => {
         }
     };
 
-    const selectedLocation = ACCURACY_LOCATIONS.find(l => l.id === selectedLocationId) || ACCURACY_LOCATIONS[0];
+    const selectedLocation = sites.find(l => l.id === selectedLocationId) || sites[0];
     
     if (loading) {
         return (
@@ -133,7 +200,7 @@ const AccuracyTracker: React.FC = () => {
     return (
         <div className="bg-black/20 backdrop-blur-sm border border-white/10 rounded-xl shadow-lg p-4 sm:p-6">
             <h2 className="text-2xl font-bold text-center mb-2">
-                Forecast Accuracy for {selectedLocation.name}
+                Forecast Accuracy for {selectedLocation?.name ?? 'No Site Selected'}
             </h2>
             <p className="text-center text-gray-400 mb-6">
                 Ranking models by their average error for forecasts made for a specific time in the future.
@@ -154,12 +221,25 @@ const AccuracyTracker: React.FC = () => {
                 >
                     Reset Data
                 </button>
+                <button
+                    onClick={() => setIsManagingSites(!isManagingSites)}
+                    disabled={isProcessing}
+                    className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+                >
+                    {isManagingSites ? 'Done Managing Sites' : 'Manage Sites'}
+                </button>
                 {isProcessing && <p className="w-full text-center text-yellow-400 mt-2">{processingMessage}</p>}
             </div>
             
+            {isManagingSites && (
+                <div className="mb-8">
+                    <AccuracySiteManager sites={sites} disabled={isProcessing} onSitesChanged={handleSitesChanged} />
+                </div>
+            )}
+
             {/* Location Tabs */}
             <div className="flex justify-center flex-wrap gap-x-4 gap-y-2 mb-6 border-b border-white/10">
-                {ACCURACY_LOCATIONS.map(loc => (
+                {sites.map(loc => (
                     <button 
                         key={loc.id} 
                         onClick={() => setSelectedLocationId(loc.id)}
@@ -210,7 +290,7 @@ const AccuracyTracker: React.FC = () => {
             </div>
             
             <p className="text-center text-sm text-gray-400 mb-6">
-                Wind speed and gust errors are in knots; visibility errors are in statute miles.
+                {selectedMetric.label} values and errors are shown in {units.label(selectedMetric.key)}.
             </p>
 
             {/* Interval Tabs */}
@@ -244,12 +324,34 @@ const AccuracyTracker: React.FC = () => {
                 </div>
             )}
             
-            <AccuracyLeaderboard 
-                scores={scores}
-                selectedLocationId={selectedLocationId}
-                selectedInterval={selectedInterval}
-                selectedMetric={selectedMetric}
-            />
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-8 items-start">
+                <AccuracyLeaderboard 
+                    scores={leaderboardScores}
+                    selectedLocationId={selectedLocationId}
+                    selectedInterval={selectedInterval}
+                    selectedMetric={selectedMetric}
+                />
+                <div>
+                    <h4 className="text-lg font-semibold text-center text-gray-300 mb-2">
+                        Error vs. Lead Time ({LEAD_TIME_BIN_HOURS}h bins)
+                    </h4>
+                    <LeadTimeErrorChart curves={curves} selectedMetric={selectedMetric} />
+                </div>
+            </div>
+
+            <div className="mt-12">
+                <h3 className="text-2xl font-bold text-center mb-4">
+                    { { '24h': '24-Hour', '48h': '48-Hour', '5d': '5-Day' }[selectedInterval] } Precipitation Event Verification
+                </h3>
+                <p className="text-center text-gray-400 mb-6 max-w-3xl mx-auto">
+                    Scores whether each model correctly called rain or snow events at the chosen threshold, rather than how close its amounts were. Hourly values are summed over each threshold's window before comparing.
+                </p>
+                <CategoricalScoresPanel
+                    scores={categoricalScores}
+                    selectedLocationId={selectedLocationId}
+                    selectedInterval={selectedInterval}
+                />
+            </div>
 
             <div className="mt-12">
                 <h3 className="text-2xl font-bold text-center mb-4">
@@ -266,7 +368,7 @@ const AccuracyTracker: React.FC = () => {
             </div>
             
             <p className="text-center text-sm text-gray-500 mt-6 pt-4 border-t border-white/10">
-                Please note: Accuracy tracking is performed for fixed locations and does not change with the city selected in the main search bar.
+                Please note: Accuracy tracking is performed for the verification sites listed above and does not change with the city selected in the main search bar. New sites start collecting data on the next update cycle.
             </p>
         </div>
     );
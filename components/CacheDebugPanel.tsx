@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { ResponseCacheStats } from '../types';
+import { MODELS } from '../constants';
+import { clearResponseCache, getResponseCacheStats, resetResponseCacheStats } from '../services/responseCache';
+
+const REFRESH_INTERVAL_MS = 1000;
+
+const formatTime = (iso: string | null) =>
+    iso ? new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }) : '--';
+
+// Developer view of the run-aware response cache. The counters live in memory and reset on reload.
+const CacheDebugPanel: React.FC = () => {
+    const [stats, setStats] = useState<ResponseCacheStats>(getResponseCacheStats);
+
+    useEffect(() => {
+        const interval = window.setInterval(() => setStats(getResponseCacheStats()), REFRESH_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, []);
+
+    const rows = MODELS.filter(m => stats.byModel[m.key]).map(m => ({ model: m, ...stats.byModel[m.key] }));
+    const totals = rows.reduce(
+        (sum, row) => ({ hits: sum.hits + row.hits, misses: sum.misses + row.misses, coalesced: sum.coalesced + row.coalesced, prefetched: sum.prefetched + row.prefetched, invalidations: sum.invalidations + row.invalidations }),
+        { hits: 0, misses: 0, coalesced: 0, prefetched: 0, invalidations: 0 }
+    );
+    const requests = totals.hits + totals.misses + totals.coalesced;
+    const savedShare = requests > 0 ? ((totals.hits + totals.coalesced) / requests) * 100 : null;
+
+    const buttonClassName = 'px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors';
+
+    return (
+        <div className="p-4 bg-gray-900/50 rounded-md border border-white/10 space-y-4 text-left max-w-4xl mx-auto">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm text-gray-300">
+                    {stats.entries} cached responses · {totals.hits} hits · {totals.misses} network · {totals.coalesced} coalesced · {totals.prefetched} prefetched · {totals.invalidations} new runs · {stats.networkCalls} HTTP calls
+                    {savedShare !== null && <span className="text-gray-500"> ({savedShare.toFixed(0)}% of requests avoided the network)</span>}
+                </p>
+                <div className="flex gap-2">
+                    <button onClick={() => { clearResponseCache(); setStats(getResponseCacheStats()); }} className={buttonClassName}>Clear cache</button>
+                    <button onClick={() => { resetResponseCacheStats(); setStats(getResponseCacheStats()); }} className={buttonClassName}>Reset counters</button>
+                </div>
+            </div>
+            {rows.length === 0 ? (
+                <p className="text-sm text-gray-500">No model requests yet.</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead className="text-gray-500 text-xs">
+                        <tr>
+                            <th className="py-1 pr-2 font-medium text-left">Model</th>
+                            <th className="py-1 px-2 font-medium text-right">Hits</th>
+                            <th className="py-1 px-2 font-medium text-right">Network</th>
+                            <th className="py-1 px-2 font-medium text-right">Coalesced</th>
+                            <th className="py-1 px-2 font-medium text-right" title="Fetched alongside a request for the other view">Prefetched</th>
+                            <th className="py-1 px-2 font-medium text-right">New runs</th>
+                            <th className="py-1 px-2 font-medium text-left">Cached run</th>
+                            <th className="py-1 pl-2 font-medium text-left">Last fetched</th>
+                        </tr>
+                    </thead>
+                    <tbody className="font-mono text-gray-300">
+                        {rows.map(row => (
+                            <tr key={row.model.key} className="border-t border-white/5">
+                                <td className="py-1 pr-2 font-sans text-gray-200">{row.model.name}</td>
+                                <td className="py-1 px-2 text-right text-green-400">{row.hits}</td>
+                                <td className="py-1 px-2 text-right">{row.misses}</td>
+                                <td className="py-1 px-2 text-right text-sky-400">{row.coalesced}</td>
+                                <td className="py-1 px-2 text-right">{row.prefetched}</td>
+                                <td className="py-1 px-2 text-right">{row.invalidations}</td>
+                                <td className="py-1 px-2">{row.runInitTime ? `${row.runInitTime.slice(0, 13).replace('T', ' ')}Z` : '--'}</td>
+                                <td className="py-1 pl-2">{formatTime(row.lastFetchedAt)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default CacheDebugPanel;
@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { CategoricalScore, CategoricalScoreData, AccuracyInterval } from '../types';
+import { CATEGORICAL_THRESHOLDS } from '../constants';
+
+interface CategoricalScoresPanelProps {
+    scores: CategoricalScore[];
+    selectedLocationId: number;
+    selectedInterval: AccuracyInterval;
+}
+
+const formatScore = (value: number | null) => value === null ? '-' : value.toFixed(2);
+
+const CategoricalScoresPanel: React.FC<CategoricalScoresPanelProps> = ({ scores, selectedLocationId, selectedInterval }) => {
+    const [selectedThresholdKey, setSelectedThresholdKey] = useState<string>(CATEGORICAL_THRESHOLDS[0].key);
+
+    const rows = useMemo(() => {
+        return scores
+            .filter(score => score.locationId === selectedLocationId)
+            .map(score => ({
+                modelKey: score.modelKey,
+                modelName: score.modelName,
+                data: score.scores[selectedThresholdKey]?.[selectedInterval],
+            }))
+            .filter((row): row is { modelKey: string; modelName: string; data: CategoricalScoreData } =>
+                !!row.data && row.data.hits + row.data.misses + row.data.falseAlarms + row.data.correctNegatives > 0)
+            .sort((a, b) => {
+                // Rank by CSI, which ignores the (usually dominant) correct negatives.
+                const aCsi = a.data.criticalSuccessIndex;
+                const bCsi = b.data.criticalSuccessIndex;
+                if (aCsi === null && bCsi === null) return a.modelName.localeCompare(b.modelName);
+                if (aCsi === null) return 1;
+                if (bCsi === null) return -1;
+                return bCsi - aCsi;
+            });
+    }, [scores, selectedLocationId, selectedInterval, selectedThresholdKey]);
+
+    const observedEvents = rows.length > 0 ? Math.max(...rows.map(r => r.data.hits + r.data.misses)) : 0;
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center justify-center gap-2 mb-4">
+                {CATEGORICAL_THRESHOLDS.map(threshold => (
+                    <button
+                        key={threshold.key}
+                        onClick={() => setSelectedThresholdKey(threshold.key)}
+                        className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all duration-200 border ${
+                            selectedThresholdKey === threshold.key
+                            ? 'bg-blue-600 text-white shadow-md border-blue-500'
+                            : 'bg-gray-800/60 text-gray-300 hover:bg-gray-700/80 border-white/10'
+                        }`}
+                    >
+                        {threshold.label}
+                    </button>
+                ))}
+            </div>
+
+            {rows.length === 0 ? (
+                <div className="text-center p-6 bg-yellow-900/30 border border-yellow-700 rounded-lg">
+                    <p>No complete verification windows yet for this threshold and forecast range.</p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="border-b border-white/10 text-sm text-gray-400">
+                                <th className="p-3 font-semibold">Model</th>
+                                <th className="p-3 font-semibold text-right" title="Hits / misses / false alarms / correct negatives">H / M / FA / CN</th>
+                                <th className="p-3 font-semibold text-right" title="Probability of detection (1 = every event caught)">POD</th>
+                                <th className="p-3 font-semibold text-right" title="False alarm ratio (0 = no false alarms)">FAR</th>
+                                <th className="p-3 font-semibold text-right" title="Critical success index (1 = perfect)">CSI</th>
+                                <th className="p-3 font-semibold text-right" title="Frequency bias (1 = forecasts events as often as they occur)">Bias</th>
+                                <th className="p-3 font-semibold text-right" title="Heidke skill score (0 = no better than chance)">HSS</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => (
+                                <tr key={row.modelKey} className="border-b border-white/10 hover:bg-gray-700/50">
+                                    <td className="p-3">{row.modelName}</td>
+                                    <td className="p-3 text-right font-mono text-gray-300">
+                                        {row.data.hits} / {row.data.misses} / {row.data.falseAlarms} / {row.data.correctNegatives}
+                                    </td>
+                                    <td className="p-3 text-right font-mono">{formatScore(row.data.probabilityOfDetection)}</td>
+                                    <td className="p-3 text-right font-mono">{formatScore(row.data.falseAlarmRatio)}</td>
+                                    <td className="p-3 text-right font-mono">{formatScore(row.data.criticalSuccessIndex)}</td>
+                                    <td className="p-3 text-right font-mono">{formatScore(row.data.frequencyBias)}</td>
+                                    <td className="p-3 text-right font-mono">{formatScore(row.data.heidkeSkillScore)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {rows.length > 0 && observedEvents < 10 && (
+                <p className="text-center text-sm text-yellow-400 mt-4">
+                    Only {observedEvents} observed event{observedEvents === 1 ? '' : 's'} so far; these scores will be noisy until more events are recorded.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default CategoricalScoresPanel;
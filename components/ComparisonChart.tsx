@@ -1,8 +1,9 @@
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
-  LineChart,
+  ComposedChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -12,22 +13,30 @@ import {
   ReferenceDot,
   ReferenceArea,
 } from 'recharts';
-import { ComparisonChartProps, ProcessedHourlyData } from '../types';
-import { MODEL_COLORS, MODELS } from '../constants';
+import { ComparisonChartProps, ModelAgreement, ModelSpread, ProcessedHourlyData } from '../types';
+import { MODEL_COLORS, MODELS, ENSEMBLE_EXCEEDANCE_THRESHOLDS, MOS_CORRECTED_METRICS, DERIVED_MIN_CONFIDENT_MODELS } from '../constants';
 import { MedianLabel } from './ChartComponents';
+import { AGREEMENT_COLORS, AGREEMENT_LABELS, agreementFor } from '../utils/modelSpread';
+import { formatExceedanceThreshold } from '../utils/unitFormat';
+import { useUnits } from './UnitsContext';
 
-const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
+const CustomTooltip: React.FC<any> = ({ active, payload, label, decimals = 1 }) => {
   if (active && payload && payload.length) {
+    const modelCount: number | undefined = payload[0]?.payload?.model_count;
+    const agreement: AgreementEntry | undefined = payload[0]?.payload?.agreement;
     const sortedPayload = [...payload]
-      .filter(p => p.value !== null && p.value !== undefined)
+      .filter(p => p.value !== null && p.value !== undefined && !Array.isArray(p.value) && !p.hide)
+      .filter(p => !(p.dataKey === 'median_model_sparse' && typeof p.payload.median_model_confident === 'number'))
       .sort((a, b) => {
         if (payload.some(p => p.dataKey === 'temperature_2m' && p.dataKey !== 'wind_gusts_10m')) {
           return 0;
         }
         return b.value - a.value;
       });
+    const bandPayload = payload.filter(p => Array.isArray(p.value));
+    const exceedance: ExceedanceEntry[] = payload[0]?.payload?.exceedance ?? [];
 
-    if (sortedPayload.length === 0) return null;
+    if (sortedPayload.length === 0 && bandPayload.length === 0) return null;
 
     return (
       <div className="relative z-50 p-3 bg-gray-800/95 backdrop-blur-sm border border-gray-600 rounded-lg shadow-2xl min-w-[180px]">
@@ -47,18 +56,67 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
                     <span className="text-gray-300">{pld.name}</span>
                   </div>
                   <span className="font-bold font-mono text-white">
-                    {value.toFixed(1)} {pld.unit}
+                    {value.toFixed(decimals)} {pld.unit}
                   </span>
                 </li>
             );
           })}
+          {bandPayload.map((pld: any) => (
+            <li key={pld.dataKey} className="flex items-center justify-between text-sm">
+              <div className="flex items-center">
+                <span className="w-3 h-3 rounded-sm mr-3" style={{ backgroundColor: pld.fill, opacity: 0.6 }}></span>
+                <span className="text-gray-300">{pld.name}</span>
+              </div>
+              <span className="font-mono text-gray-200">
+                {pld.value[0].toFixed(decimals)}–{pld.value[1].toFixed(decimals)} {pld.unit}
+              </span>
+            </li>
+          ))}
         </ul>
+        {modelCount !== undefined && (
+          <p className={`mt-2 text-xs ${modelCount < DERIVED_MIN_CONFIDENT_MODELS ? 'text-yellow-400' : 'text-gray-400'}`}>
+            Median of {agreement?.spread.count ?? modelCount} {(agreement?.spread.count ?? modelCount) === 1 ? 'model' : 'models'}
+          </p>
+        )}
+        {agreement?.level && (
+          <p className="mt-1 flex items-center text-xs text-gray-400">
+            <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: AGREEMENT_COLORS[agreement.level] }}></span>
+            {AGREEMENT_LABELS[agreement.level]} agreement · IQR {agreement.spread.iqr.toFixed(decimals)} · σ {agreement.spread.stdDev.toFixed(decimals)}
+          </p>
+        )}
+        {exceedance.length > 0 && (
+          <ul className="mt-2 pt-2 border-t border-gray-600 space-y-1">
+            {exceedance.map(entry => (
+              <li key={entry.label} className="flex items-center justify-between text-xs text-gray-300">
+                <span>{entry.label}</span>
+                <span className="font-mono text-white">{Math.round(entry.probability * 100)}%</span>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     );
   }
   return null;
 };
 
+interface ExceedanceEntry {
+  label: string;
+  probability: number;
+}
+
+interface AgreementEntry {
+  level: ModelAgreement | null;
+  spread: ModelSpread;
+}
+
+// Precipitation probabilities are shown on both the rain and snowfall charts.
+const EXCEEDANCE_VARIABLES_BY_METRIC: { [metricKey: string]: string } = {
+  temperature_2m: 'temperature_2m',
+  rain: 'precipitation',
+  snowfall: 'precipitation',
+};
+
 type TagPosition = 'default' | 'staggered';
 
 const PRECIP_LEGEND_ITEMS = [
@@ -67,17 +125,38 @@ const PRECIP_LEGEND_ITEMS = [
     { value: 'Snow', color: 'rgba(230, 230, 230, 0.4)' },
 ];
 
+// The median is drawn as two lines; its legend entry belongs to the confident one.
+const modelKeyForDataKey = (dataKey: string): string | null => {
+    const key = dataKey === 'median_model_confident' ? 'median_model' : dataKey;
+    return MODELS.some(m => m.key === key) ? key : null;
+};
+
 const CustomLegend: React.FC<any> = (props) => {
-    const { payload, metric } = props;
+    const { payload, metric, onToggleModel } = props;
 
     return (
         <div className="flex flex-wrap justify-center items-center gap-x-4 gap-y-1 text-xs text-gray-400 -translate-y-2">
-            {payload.map((entry, index) => (
-                <div key={`item-${index}`} className="flex items-center">
-                    <span className="w-3 h-0.5 mr-1.5" style={{ backgroundColor: entry.color }}></span>
-                    <span>{entry.value}</span>
-                </div>
-            ))}
+            {payload.map((entry, index) => {
+                const modelKey = onToggleModel ? modelKeyForDataKey(String(entry.dataKey)) : null;
+                const content = (
+                    <>
+                        <span className="w-3 h-0.5 mr-1.5" style={{ backgroundColor: entry.color }}></span>
+                        <span className={entry.inactive ? 'line-through' : undefined}>{entry.value}</span>
+                    </>
+                );
+                return modelKey ? (
+                    <button
+                        key={`item-${index}`}
+                        onClick={() => onToggleModel(modelKey)}
+                        className={`flex items-center hover:text-white ${entry.inactive ? 'opacity-40' : ''}`}
+                        title={entry.inactive ? 'Show this model' : 'Hide this model'}
+                    >
+                        {content}
+                    </button>
+                ) : (
+                    <div key={`item-${index}`} className="flex items-center">{content}</div>
+                );
+            })}
             
             {(metric.key === 'rain' || metric.key === 'snowfall') && (
                 <>
@@ -95,7 +174,7 @@ const CustomLegend: React.FC<any> = (props) => {
     );
 };
 
-const ComparisonChart: React.FC<ComparisonChartProps> = ({ hourlyData, dailyData, metric, activeView }) => {
+const ComparisonChart: React.FC<ComparisonChartProps> = ({ hourlyData: rawHourlyData, dailyData, correctedHourlyData, mosSummary, metric, activeView, visibleModelKeys, onToggleModel }) => {
   interface ChartDataPoint {
     xIndex: number;
     time: string;
@@ -103,10 +182,52 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({ hourlyData, dailyData
     precipitation_type: number;
     median_model?: number | null;
     median_model_min?: number | null;
-    [key: string]: string | number | null | undefined;
+    median_model_confident?: number | null; // Median where enough models contribute
+    median_model_sparse?: number | null; // Faded continuation where few models remain
+    model_count?: number;
+    model_range?: [number, number]; // Min–max of the models behind the median
+    agreement?: AgreementEntry;
+    band_outer?: [number, number]; // P10–P90 of the selected ensemble
+    band_inner?: [number, number]; // P25–P75
+    exceedance?: ExceedanceEntry[];
+    [key: string]: string | number | null | undefined | [number, number] | ExceedanceEntry[] | AgreementEntry;
   }
   
+  const units = useUnits();
   const userTimeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
+  // null follows the first ensemble with data; 'none' hides the bands.
+  const [bandModelKey, setBandModelKey] = useState<string | null>(null);
+  const [showCorrected, setShowCorrected] = useState(false);
+
+  const canShowCorrected = activeView === 'hourly' && !!correctedHourlyData && MOS_CORRECTED_METRICS.includes(metric.key);
+  const hourlyData = canShowCorrected && showCorrected ? correctedHourlyData! : rawHourlyData;
+
+  // Out-of-sample verification of the corrections, pooled over every corrected model.
+  const mosVerification = useMemo(() => {
+    if (!mosSummary) return null;
+    let samples = 0, rawError = 0, correctedError = 0;
+    for (const correction of mosSummary.corrections) {
+      const v = correction.verification[metric.key];
+      if (!v) continue;
+      samples += v.samples;
+      rawError += v.rawMae * v.samples;
+      correctedError += v.correctedMae * v.samples;
+    }
+    return samples > 0 ? { samples, rawMae: rawError / samples, correctedMae: correctedError / samples } : null;
+  }, [mosSummary, metric.key]);
+
+  const ensembleEntries = useMemo(() => {
+    if (activeView !== 'hourly') return [];
+    return MODELS.filter(model =>
+      model.category === 'Ensemble' &&
+      hourlyData[model.key]?.hourly.some(h => typeof h.ensemble?.percentiles[metric.key]?.p50 === 'number')
+    );
+  }, [hourlyData, activeView, metric.key]);
+
+  const bandModel = useMemo(() => {
+    if (bandModelKey === 'none') return null;
+    return ensembleEntries.find(m => m.key === bandModelKey) ?? ensembleEntries[0] ?? null;
+  }, [ensembleEntries, bandModelKey]);
 
   const keyForView = useMemo(() => {
     if (activeView === 'daily') {
@@ -166,8 +287,10 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({ hourlyData, dailyData
         }
     }
 
+    const toDisplay = (value: number) => units.value(keyForView, value);
+
     let lastDay: string | null = null;
-    return referenceHourlyData.map((refPoint, index) => {
+    const points = referenceHourlyData.map((refPoint, index) => {
         const { time } = refPoint;
         let displayLabel: string;
         
@@ -198,7 +321,18 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({ hourlyData, dailyData
             time: displayLabel,
             rawTime: time,
             precipitation_type: dataMap['median_model']?.[time]?.precipitation_type ?? 0,
+            model_count: dataMap['median_model']?.[time]?.modelCount,
         };
+
+        // Chart values are converted to display units here; agreement levels are judged on the canonical spread.
+        const medianSpread = dataMap['median_model']?.[time]?.spread?.[keyForView];
+        if (medianSpread) {
+            dataPoint.model_range = [toDisplay(medianSpread.min), toDisplay(medianSpread.max)];
+            dataPoint.agreement = {
+                level: agreementFor(keyForView, medianSpread),
+                spread: { ...medianSpread, min: toDisplay(medianSpread.min), max: toDisplay(medianSpread.max), iqr: units.delta(keyForView, medianSpread.iqr), stdDev: units.delta(keyForView, medianSpread.stdDev) },
+            };
+        }
         
         const dailyAggs = activeView === 'daily' ? dailyAggregates.get(time) : undefined;
 
@@ -216,16 +350,39 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({ hourlyData, dailyData
                 if (metric.key === 'visibility') value = dailyAggs?.visibilityMin;
             }
 
-            dataPoint[model.key] = typeof value === 'number' ? value : null;
+            dataPoint[model.key] = typeof value === 'number' ? toDisplay(value) : null;
+
+            if (bandModel && model.key === bandModel.key) {
+                const ensemble = hourlyPoint?.ensemble;
+                const bands = ensemble?.percentiles[metric.key];
+                if (bands && bands.p10 !== null && bands.p90 !== null && bands.p25 !== null && bands.p75 !== null) {
+                    dataPoint.band_outer = [toDisplay(bands.p10), toDisplay(bands.p90)];
+                    dataPoint.band_inner = [toDisplay(bands.p25), toDisplay(bands.p75)];
+                }
+                const variable = EXCEEDANCE_VARIABLES_BY_METRIC[metric.key];
+                dataPoint.exceedance = ENSEMBLE_EXCEEDANCE_THRESHOLDS
+                    .filter(t => t.variable === variable && typeof ensemble?.exceedance[t.id] === 'number')
+                    .map(t => ({ label: `${formatExceedanceThreshold(t, units)} (${bandModel.name})`, probability: ensemble!.exceedance[t.id] as number }));
+            }
 
             if (activeView === 'daily' && metric.key === 'temperature_2m' && model.key === 'median_model') {
                 const min_value = hourlyPoint?.temperature_2m_min;
-                dataPoint['median_model_min'] = typeof min_value === 'number' ? min_value : null;
+                dataPoint['median_model_min'] = typeof min_value === 'number' ? toDisplay(min_value) : null;
             }
         }
         return dataPoint;
     }).filter((p): p is ChartDataPoint => p !== null);
-  }, [activeView, hourlyData, dailyData, metric.key, userTimeZone, keyForView, dailyAggregates]);
+
+    // Split the median so the stretch backed by few models can be drawn faded. Points next to a
+    // sparse one carry both values so the two lines join.
+    const isSparse = (p?: ChartDataPoint) => p?.model_count !== undefined && p.model_count < DERIVED_MIN_CONFIDENT_MODELS;
+    points.forEach((point, i) => {
+        const touchesSparse = isSparse(point) || isSparse(points[i - 1]) || isSparse(points[i + 1]);
+        point.median_model_confident = isSparse(point) ? null : point.median_model;
+        point.median_model_sparse = touchesSparse ? point.median_model : null;
+    });
+    return points;
+  }, [activeView, hourlyData, dailyData, metric.key, userTimeZone, keyForView, dailyAggregates, bandModel, units]);
   
   const modelEntries = useMemo(() => {
     const data = activeView === 'hourly' ? hourlyData : dailyData;
@@ -237,20 +394,25 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({ hourlyData, dailyData
     return MODELS.filter(model => data[model.key] && data[model.key].hourly.some(h => typeof h[keyForView as keyof ProcessedHourlyData] === 'number'));
   }, [hourlyData, dailyData, metric.key, activeView, keyForView]);
 
+  // Hidden models keep their legend entry so they can be shown again.
+  const isModelVisible = (modelKey: string) => !visibleModelKeys || visibleModelKeys.includes(modelKey);
+
   const yDomain = useMemo(() => {
-    const allValues = comparisonChartData.flatMap(d => modelEntries.map(m => d[m.key]).filter((v): v is number => typeof v === 'number'));
+    const shownEntries = modelEntries.filter(m => !visibleModelKeys || visibleModelKeys.includes(m.key));
+    const allValues = comparisonChartData.flatMap(d => [...shownEntries.map(m => d[m.key]), ...(d.band_outer ?? [])].filter((v): v is number => typeof v === 'number'));
     if (allValues.length === 0) return ['auto', 'auto'] as const;
     const min = Math.min(...allValues);
     const max = Math.max(...allValues);
     const range = max - min;
     const topPadding = range > 0 ? range * 0.35 : 5;
     return [ (dataMin: number) => Math.floor(Math.min(min, dataMin)), (dataMax: number) => Math.ceil(Math.max(max, dataMax) + topPadding) ] as const;
-  }, [comparisonChartData, modelEntries]);
+  }, [comparisonChartData, modelEntries, visibleModelKeys]);
   
   const tagIndices = useMemo(() => {
     const indices = new Map<number, { position: TagPosition }>();
     if (comparisonChartData.length === 0) return indices;
     const medianData = comparisonChartData.map(d => ({ value: d.median_model as number | null, rawTime: d.rawTime as string, }));
+    const precipTagThreshold = units.value(metric.key, 0.05); // Significant precipitation, in display units
     
     if (activeView === 'hourly') {
         const findExtremumIndex = (type: 'min' | 'max') => {
@@ -277,7 +439,7 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({ hourlyData, dailyData
             case 'rain': case 'snowfall':
                 let precipTagCounter = 0;
                 medianData.forEach(({ value }, index) => {
-                    if (value !== null && value > 0.05) { // Threshold for significant precip
+                    if (value !== null && value > precipTagThreshold) {
                         indices.set(index, { position: precipTagCounter % 2 === 0 ? 'default' : 'staggered' });
                         precipTagCounter++;
                     }
@@ -318,13 +480,13 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({ hourlyData, dailyData
         }
     } else {
         medianData.forEach(({ value }, index) => {
-            if (value !== null && (metric.key !== 'rain' && metric.key !== 'snowfall' || value > 0.05)) {
+            if (value !== null && (metric.key !== 'rain' && metric.key !== 'snowfall' || value > precipTagThreshold)) {
                 indices.set(index, { position: index % 2 === 0 ? 'default' : 'staggered' });
             }
         });
     }
     return indices;
-  }, [comparisonChartData, metric.key, activeView]);
+  }, [comparisonChartData, metric.key, activeView, units]);
   
   const precipTypeSegments = useMemo(() => {
     if (!comparisonChartData || comparisonChartData.length === 0) return [];
@@ -350,44 +512,105 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({ hourlyData, dailyData
 
   if (metric.key === 'overview') return null;
 
-  return (
-    <div className="h-[60vh] sm:h-96 w-full">
-      <ResponsiveContainer>
-        <LineChart data={comparisonChartData} margin={{ top: 70, right: 30, left: 5, bottom: 40 }}>
-          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255, 255, 255, 0.1)" />
-          <XAxis dataKey="xIndex" stroke="#a0aec0" fontSize={12} tick={{ fill: '#a0aec0' }} interval={activeView === 'hourly' ? 5 : 0} tickFormatter={(value: number) => comparisonChartData[value]?.time ?? ''} />
-          <YAxis stroke="#a0aec0" fontSize={12} tick={{ fill: '#a0aec0' }} label={{ value: metric.unit, angle: -90, position: 'insideLeft', fill: '#a0aec0' }} domain={yDomain} allowDataOverflow={true} />
-          <Tooltip content={<CustomTooltip />} allowEscapeViewBox={{ x: true, y: true }} />
-          <Legend content={<CustomLegend metric={metric} />} />
-          {(metric.key === 'rain' || metric.key === 'snowfall') && precipTypeSegments.map((segment, index) => {
-              const PRECIP_TYPE_COLORS: { [key: number]: string } = { 1: 'rgba(75, 150, 255, 0.1)', 2: 'rgba(173, 53, 255, 0.1)', 3: 'rgba(230, 230, 230, 0.1)' };
-              return <ReferenceArea key={`precip-area-${index}`} x1={segment.x1} x2={segment.x2} fill={PRECIP_TYPE_COLORS[segment.type]} stroke="none" ifOverflow="visible"/>;
-          })}
+  const bandColor = bandModel ? MODEL_COLORS[bandModel.key] || '#ffffff' : '#ffffff';
+  const unit = units.label(metric.key);
+  const valueDecimals = Math.max(1, units.decimals(metric.key));
 
-          {modelEntries.map((model) => (
-            <Line key={model.key} type="monotone" dataKey={model.key} name={model.name} stroke={MODEL_COLORS[model.key] || '#ffffff'} strokeWidth={model.key === 'median_model' ? 3 : 1.5} strokeOpacity={model.key === 'median_model' ? 1 : 0.3} dot={false} unit={metric.unit} connectNulls/>
+  return (
+    <div className="w-full">
+      {canShowCorrected && (
+        <div className="flex flex-wrap justify-center items-center gap-2 mb-2 text-xs">
+          <span className="text-gray-400">Model output:</span>
+          <button
+            onClick={() => setShowCorrected(false)}
+            className={`px-2 py-1 rounded-md transition-colors ${!showCorrected ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            Raw
+          </button>
+          <button
+            onClick={() => setShowCorrected(true)}
+            className={`px-2 py-1 rounded-md transition-colors ${showCorrected ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            title={mosSummary ? `Bias corrections learned at ${mosSummary.site.name} (${mosSummary.site.distanceKm.toFixed(0)} km away)` : undefined}
+          >
+            Bias-corrected
+          </button>
+          {mosVerification && (
+            <span className="text-gray-500" title="Errors of corrections applied before the observations were known">
+              Corrected MAE {units.delta(metric.key, mosVerification.correctedMae).toFixed(2)} vs raw {units.delta(metric.key, mosVerification.rawMae).toFixed(2)} {unit} ({mosVerification.samples} h)
+            </span>
+          )}
+        </div>
+      )}
+      {ensembleEntries.length > 0 && (
+        <div className="flex flex-wrap justify-center items-center gap-2 mb-2 text-xs">
+          <span className="text-gray-400">Ensemble spread:</span>
+          {ensembleEntries.map(model => (
+            <button
+              key={model.key}
+              onClick={() => setBandModelKey(model.key)}
+              className={`px-2 py-1 rounded-md transition-colors ${bandModel?.key === model.key ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {model.name}
+            </button>
           ))}
-          {Array.from(tagIndices.entries()).map(([index, { position }]) => {
-            const entry = comparisonChartData[index];
-            const medianValue = entry?.median_model as number | null;
-            const medianMinValue = (entry as any)?.median_model_min as number | null;
-            if (medianValue === null || !isFinite(medianValue)) return null;
-
-            const isDailyTemp = activeView === 'daily' && metric.key === 'temperature_2m';
-            const valueString = isDailyTemp && medianMinValue !== null
-                ? `${Math.round(medianValue)} / ${Math.round(medianMinValue)}°`
-                : `${medianValue.toFixed(1)} ${metric.unit}`;
-
-            return (
-              <ReferenceDot
-                key={`median-tag-${index}`} x={index} y={medianValue} r={0}
-                ifOverflow="extendDomain"
-                label={ <MedianLabel text={valueString} dy={position === 'staggered' ? -48 : -24} /> }
-              />
-            );
-          })}
-        </LineChart>
-      </ResponsiveContainer>
+          <button
+            onClick={() => setBandModelKey('none')}
+            className={`px-2 py-1 rounded-md transition-colors ${!bandModel ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            None
+          </button>
+        </div>
+      )}
+      <div className="h-[60vh] sm:h-96 w-full">
+        <ResponsiveContainer>
+          <ComposedChart data={comparisonChartData} margin={{ top: 70, right: 30, left: 5, bottom: 40 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255, 255, 255, 0.1)" />
+            <XAxis dataKey="xIndex" stroke="#a0aec0" fontSize={12} tick={{ fill: '#a0aec0' }} interval={activeView === 'hourly' ? 5 : 0} tickFormatter={(value: number) => comparisonChartData[value]?.time ?? ''} />
+            <YAxis stroke="#a0aec0" fontSize={12} tick={{ fill: '#a0aec0' }} label={{ value: unit, angle: -90, position: 'insideLeft', fill: '#a0aec0' }} domain={yDomain} allowDataOverflow={true} />
+            <Tooltip content={<CustomTooltip decimals={valueDecimals} />} allowEscapeViewBox={{ x: true, y: true }} />
+            <Legend content={<CustomLegend metric={metric} onToggleModel={onToggleModel} />} />
+            {(metric.key === 'rain' || metric.key === 'snowfall') && precipTypeSegments.map((segment, index) => {
+                const PRECIP_TYPE_COLORS: { [key: number]: string } = { 1: 'rgba(75, 150, 255, 0.1)', 2: 'rgba(173, 53, 255, 0.1)', 3: 'rgba(230, 230, 230, 0.1)' };
+                return <ReferenceArea key={`precip-area-${index}`} x1={segment.x1} x2={segment.x2} fill={PRECIP_TYPE_COLORS[segment.type]} stroke="none" ifOverflow="visible"/>;
+            })}
+
+            <Area type="monotone" dataKey="model_range" name="Model range" fill="#a0aec0" fillOpacity={0.08} stroke="none" unit={unit} isAnimationActive={false} connectNulls legendType="none" />
+            {bandModel && (
+              <Area type="monotone" dataKey="band_outer" name={`${bandModel.name} P10–P90`} fill={bandColor} fillOpacity={0.12} stroke="none" unit={unit} isAnimationActive={false} connectNulls />
+            )}
+            {bandModel && (
+              <Area type="monotone" dataKey="band_inner" name={`${bandModel.name} P25–P75`} fill={bandColor} fillOpacity={0.25} stroke="none" unit={unit} isAnimationActive={false} connectNulls />
+            )}
+            {modelEntries.map((model) => model.key === 'median_model' ? (
+              <React.Fragment key={model.key}>
+                <Line type="monotone" dataKey="median_model_confident" name={model.name} stroke={MODEL_COLORS[model.key] || '#ffffff'} strokeWidth={3} dot={false} unit={unit} hide={!isModelVisible(model.key)}/>
+                <Line type="monotone" dataKey="median_model_sparse" name={`${model.name} (few models)`} stroke={MODEL_COLORS[model.key] || '#ffffff'} strokeWidth={3} strokeOpacity={0.35} strokeDasharray="2 4" dot={false} unit={unit} legendType="none" hide={!isModelVisible(model.key)}/>
+              </React.Fragment>
+            ) : (
+              <Line key={model.key} type="monotone" dataKey={model.key} name={model.name} stroke={MODEL_COLORS[model.key] || '#ffffff'} strokeWidth={model.key === 'super_ensemble' ? 2.5 : 1.5} strokeOpacity={model.category === 'Derived' ? 1 : 0.3} strokeDasharray={model.key === 'super_ensemble' ? '6 3' : undefined} dot={false} unit={unit} hide={!isModelVisible(model.key)} connectNulls/>
+            ))}
+            {isModelVisible('median_model') && Array.from(tagIndices.entries()).map(([index, { position }]) => {
+              const entry = comparisonChartData[index];
+              const medianValue = entry?.median_model as number | null;
+              const medianMinValue = (entry as any)?.median_model_min as number | null;
+              if (medianValue === null || !isFinite(medianValue)) return null;
+
+              const isDailyTemp = activeView === 'daily' && metric.key === 'temperature_2m';
+              const valueString = isDailyTemp && medianMinValue !== null
+                  ? `${Math.round(medianValue)} / ${Math.round(medianMinValue)}°`
+                  : `${medianValue.toFixed(valueDecimals)} ${unit}`;
+
+              return (
+                <ReferenceDot
+                  key={`median-tag-${index}`} x={index} y={medianValue} r={0}
+                  ifOverflow="extendDomain"
+                  label={ <MedianLabel text={valueString} dy={position === 'staggered' ? -48 : -24} /> }
+                />
+              );
+            })}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
     </div>
   );
 };
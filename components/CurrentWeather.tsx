@@ -2,6 +2,7 @@ import React from 'react';
 import { CurrentWeather as CurrentWeatherType } from '../types';
 import { getWeatherInfo } from '../utils/weatherUtils';
 import CloudCoverBreakdown from './CloudCoverBreakdown';
+import { useUnits } from './UnitsContext';
 
 interface CurrentWeatherProps {
   data: CurrentWeatherType | null;
@@ -36,6 +37,8 @@ const MetricItem: React.FC<{
 
 
 const CurrentWeather: React.FC<CurrentWeatherProps> = ({ data, loading, error, timezoneAbbr, precipLast6h, precipNext6h }) => {
+  const units = useUnits();
+
   if (loading) {
     return <div className="text-center p-8 text-gray-400">Loading current conditions...</div>;
   }
@@ -48,7 +51,8 @@ const CurrentWeather: React.FC<CurrentWeatherProps> = ({ data, loading, error, t
 
   const { description, Icon } = getWeatherInfo(data.weather_code, data.is_day === 1);
   const feelsLikeTemp = getFeelsLikeTemp(data.temperature_2m, data.wind_speed_10m);
-  const pressureInHg = data.pressure_msl ? (data.pressure_msl * 0.029529983).toFixed(2) : '--';
+  // The current endpoint reports visibility in metres; everything else arrives in canonical units.
+  const visibilityMiles = typeof data.visibility === 'number' ? data.visibility / 1609.34 : null;
   
   return (
     <div className="my-8 bg-black/20 backdrop-blur-sm border border-white/10 rounded-2xl shadow-lg overflow-hidden">
@@ -59,11 +63,11 @@ const CurrentWeather: React.FC<CurrentWeatherProps> = ({ data, loading, error, t
           </div>
           <div>
               <p className="text-7xl sm:text-8xl font-bold text-white">
-                  {data.temperature_2m.toFixed(0)}<span className="text-5xl align-top -mt-2">°</span>
+                  {units.number('temperature', data.temperature_2m)}<span className="text-5xl align-top -mt-2">°</span>
               </p>
               <p className="text-xl font-medium text-gray-200 -mt-2">{description}</p>
               <p className="text-md text-gray-400 mt-1">
-                  Feels like {feelsLikeTemp.toFixed(0)}°
+                  Feels like {units.number('temperature', feelsLikeTemp)}°
               </p>
           </div>
       </div>
@@ -78,34 +82,34 @@ const CurrentWeather: React.FC<CurrentWeatherProps> = ({ data, loading, error, t
               label="Wind"
               value={
                   <span className="font-semibold">
-                      {data.wind_speed_10m.toFixed(0)} <span className="text-sm text-gray-400">kn</span> / G: {data.wind_gusts_10m.toFixed(0)} <span className="text-sm text-gray-400">kn</span>
+                      {units.number('windSpeed', data.wind_speed_10m)} <span className="text-sm text-gray-400">{units.label('windSpeed')}</span> / G: {units.number('windSpeed', data.wind_gusts_10m)} <span className="text-sm text-gray-400">{units.label('windSpeed')}</span>
                   </span>
               }
           />
           <MetricItem 
               icon={<IconPressure />}
               label="Pressure"
-              value={<span className="font-semibold">{pressureInHg} <span className="text-sm text-gray-400">inHg</span></span>}
+              value={<span className="font-semibold">{units.number('pressure', data.pressure_msl || null)} <span className="text-sm text-gray-400">{units.label('pressure')}</span></span>}
           />
           <MetricItem 
               icon={<IconDewPoint />}
               label="Dew Point"
-              value={<span className="font-semibold">{data.dew_point_2m?.toFixed(0)}°</span>}
+              value={<span className="font-semibold">{units.number('temperature', data.dew_point_2m)}°</span>}
           />
           <MetricItem 
               icon={<IconVisibility />}
               label="Visibility"
-              value={<span className="font-semibold">{(data.visibility / 1609.34).toFixed(1)} <span className="text-sm text-gray-400">mi</span></span>}
+              value={<span className="font-semibold">{units.number('visibility', visibilityMiles)} <span className="text-sm text-gray-400">{units.label('visibility')}</span></span>}
           />
           <MetricItem 
               icon={<IconPrecipitation />}
               label="Precip (Past / Next 6h)"
               value={
                   <div className="flex items-baseline gap-1.5">
-                      <span className="font-semibold">{precipLast6h?.toFixed(1) ?? '--'}</span>
+                      <span className="font-semibold">{units.number('precipitation', precipLast6h)}</span>
                       <span className="text-gray-500 text-lg">/</span>
-                      <span className="font-semibold">{precipNext6h?.toFixed(1) ?? '--'}</span>
-                      <span className="text-sm text-gray-400 ml-1">mm</span>
+                      <span className="font-semibold">{units.number('precipitation', precipNext6h)}</span>
+                      <span className="text-sm text-gray-400 ml-1">{units.label('precipitation')}</span>
                   </div>
               }
           />
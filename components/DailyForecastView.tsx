@@ -3,6 +3,7 @@
 import React, { useMemo } from 'react';
 import { ProcessedForecasts, ProcessedHourlyData } from '../types';
 import { IconCloudSun, IconCloudRain, IconCloudSnow } from '../utils/weatherUtils';
+import { useUnits } from './UnitsContext';
 
 interface DailyForecastViewProps {
     data: ProcessedForecasts;
@@ -32,6 +33,7 @@ const getWeatherIcon = (day: ProcessedHourlyData): React.FC => {
 };
 
 const DailyForecastView: React.FC<DailyForecastViewProps> = ({ data }) => {
+    const units = useUnits();
     const dailyData = useMemo(() => {
         const medianData = data?.median_model?.hourly;
         if (!medianData || medianData.length === 0) return null;
@@ -89,9 +91,9 @@ const DailyForecastView: React.FC<DailyForecastViewProps> = ({ data }) => {
 
                             <div className="flex flex-col items-center w-12 text-center">
                                 <span className={`text-xl font-bold ${getWindGustColor(day.wind_gusts_10m_max ?? 0)}`}>
-                                    {Math.round(day.wind_speed_10m_max ?? 0)}
+                                    {units.number('windSpeed', day.wind_speed_10m_max ?? 0)}
                                 </span>
-                                <span className="text-xs text-gray-400">kts</span>
+                                <span className="text-xs text-gray-400">{units.label('windSpeed')}</span>
                             </div>
 
                             <div className="flex items-center gap-2">
@@ -100,14 +102,14 @@ const DailyForecastView: React.FC<DailyForecastViewProps> = ({ data }) => {
                                 </div>
                                 <div className="flex flex-col items-start w-16">
                                     <span className="text-md text-cyan-300 font-mono">
-                                        {totalPrecip.toFixed(2)}
+                                        {units.number('precipitation', totalPrecip)}
                                     </span>
-                                    <span className="text-xs text-gray-400 -mt-1">mm</span>
+                                    <span className="text-xs text-gray-400 -mt-1">{units.label('precipitation')}</span>
                                 </div>
                             </div>
 
                             <span className="w-10 text-lg text-gray-400 font-mono text-right">
-                                {Math.round(dayLow)}°
+                                {units.number('temperature', dayLow)}°
                             </span>
 
                             <div className="flex-1 h-2 bg-gray-700/50 rounded-full">
@@ -121,7 +123,7 @@ const DailyForecastView: React.FC<DailyForecastViewProps> = ({ data }) => {
                             </div>
                             
                             <span className="w-10 text-lg text-white font-mono text-left">
-                                {Math.round(dayHigh)}°
+                                {units.number('temperature', dayHigh)}°
                             </span>
                         </div>
                     );
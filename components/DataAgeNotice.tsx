@@ -0,0 +1,39 @@
+import React from 'react';
+
+interface DataAgeNoticeProps {
+  cachedAt: string | null;
+  isOnline: boolean;
+}
+
+const formatAge = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return 'less than a minute';
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} h`;
+  return `${Math.round(hours / 24)} days`;
+};
+
+// Shown while any forecast on screen came from the offline cache rather than the network.
+const DataAgeNotice: React.FC<DataAgeNoticeProps> = ({ cachedAt, isOnline }) => {
+  if (!cachedAt && isOnline) {
+    return null;
+  }
+
+  const savedAt = cachedAt ? new Date(cachedAt) : null;
+  return (
+    <div className="my-6 p-4 bg-amber-900/40 border border-amber-700 rounded-lg shadow-lg text-sm text-amber-200">
+      <span className="font-semibold text-amber-300">{isOnline ? 'Some models are unreachable.' : 'You are offline.'}</span>
+      {savedAt ? (
+        <span className="ml-2">
+          Showing forecasts saved {formatAge(Date.now() - savedAt.getTime())} ago ({savedAt.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}).
+          {' '}They will refresh when the connection returns.
+        </span>
+      ) : (
+        <span className="ml-2">Forecasts will refresh when the connection returns.</span>
+      )}
+    </div>
+  );
+};
+
+export default DataAgeNotice;
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { OpenMeteoSettings, EndpointCheckResult } from '../types';
+import { getOpenMeteoSettings, saveOpenMeteoSettings, checkOpenMeteoConnectivity, getEnvOverrides, OPEN_METEO_DOMAINS } from '../services/settingsService';
+import { DEFAULT_OPEN_METEO_SETTINGS } from '../constants';
+
+interface DataSourceSettingsProps {
+    onSaved: () => void;
+}
+
+type HostField = 'forecastBaseUrl' | 'ensembleBaseUrl' | 'archiveBaseUrl' | 'geocodingBaseUrl';
+
+const HOST_FIELDS: { key: HostField; label: string; description: string }[] = [
+    { key: 'forecastBaseUrl', label: 'Forecast', description: 'Forecast API, per-model domains and run metadata' },
+    { key: 'ensembleBaseUrl', label: 'Ensemble', description: 'Ensemble API used for spread bands and probabilities' },
+    { key: 'archiveBaseUrl', label: 'Archive', description: 'Historical weather used to verify forecasts' },
+    { key: 'geocodingBaseUrl', label: 'Geocoding', description: 'Location search' },
+];
+
+const DataSourceSettings: React.FC<DataSourceSettingsProps> = ({ onSaved }) => {
+    const [draft, setDraft] = useState<OpenMeteoSettings | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [saveMessage, setSaveMessage] = useState<string | null>(null);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+    const [checkResults, setCheckResults] = useState<EndpointCheckResult[] | null>(null);
+    const envOverrides = getEnvOverrides();
+
+    useEffect(() => {
+        getOpenMeteoSettings().then(setDraft);
+    }, []);
+
+    if (!draft) {
+        return <p className="text-center text-sm text-gray-400">Loading settings...</p>;
+    }
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setSaveError(null);
+        setSaveMessage(null);
+        try {
+            const saved = await saveOpenMeteoSettings(draft);
+            setDraft(saved);
+            setSaveMessage('Saved. Reloading forecasts from the new source.');
+            onSaved();
+        } catch (err) {
+            setSaveError(err instanceof Error ? err.message : 'Failed to save settings.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCheck = async () => {
+        setIsChecking(true);
+        setCheckResults(null);
+        try {
+            setCheckResults(await checkOpenMeteoConnectivity(draft));
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    const inputClassName = 'w-full bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-sm text-gray-100 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:text-gray-500';
+
+    return (
+        <div className="p-4 bg-gray-900/50 rounded-md border border-white/10 space-y-4 text-left max-w-3xl mx-auto">
+            <div className="grid gap-3 sm:grid-cols-[10rem_1fr] items-center">
+                {HOST_FIELDS.map(field => (
+                    <React.Fragment key={field.key}>
+                        <label className="text-gray-300" title={field.description}>{field.label}</label>
+                        <input
+                            className={inputClassName}
+                            value={draft[field.key]}
+                            onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                            placeholder={DEFAULT_OPEN_METEO_SETTINGS[field.key]}
+                            disabled={envOverrides[field.key] !== undefined}
+                            title={envOverrides[field.key] !== undefined ? 'Set by environment variable' : field.description}
+                        />
+                    </React.Fragment>
+                ))}
+                {OPEN_METEO_DOMAINS.map(domain => (
+                    <React.Fragment key={domain}>
+                        <label className="text-gray-400">Domain: {domain}</label>
+                        <input
+                            className={inputClassName}
+                            value={draft.domainBaseUrls[domain] ?? ''}
+                            onChange={(e) => setDraft({ ...draft, domainBaseUrls: { ...draft.domainBaseUrls, [domain]: e.target.value } })}
+                            placeholder="Same as forecast"
+                        />
+                    </React.Fragment>
+                ))}
+                <label className="text-gray-300">API key</label>
+                <input
+                    type="password"
+                    className={inputClassName}
+                    value={draft.apiKey}
+                    onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                    placeholder="Only needed for the commercial API"
+                    disabled={envOverrides.apiKey !== undefined}
+                    autoComplete="off"
+                />
+            </div>
+
+            <div className="flex flex-wrap justify-center gap-2">
+                <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-600">
+                    {isSaving ? 'Saving...' : 'Save'}
+                </button>
+                <button onClick={() => setDraft({ ...DEFAULT_OPEN_METEO_SETTINGS, ...envOverrides })} className="px-4 py-2 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600">
+                    Reset to defaults
+                </button>
+                <button onClick={handleCheck} disabled={isChecking} className="px-4 py-2 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 disabled:text-gray-500">
+                    {isChecking ? 'Checking...' : 'Check connectivity'}
+                </button>
+            </div>
+
+            {saveMessage && <p className="text-center text-sm text-green-400">{saveMessage}</p>}
+            {saveError && <p className="text-center text-sm text-red-400">{saveError}</p>}
+
+            {checkResults && (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-gray-400 border-b border-white/10">
+                            <th className="py-1 text-left font-medium">Endpoint</th>
+                            <th className="py-1 text-left font-medium">Status</th>
+                            <th className="py-1 text-right font-medium">Latency</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {checkResults.map(result => (
+                            <tr key={result.name} className="border-b border-white/5" title={result.url}>
+                                <td className="py-1 text-gray-200">{result.name}</td>
+                                <td className={`py-1 ${result.ok ? 'text-green-400' : 'text-red-400'}`}>
+                                    {result.ok ? `OK (${result.status})` : `${result.status ?? 'Failed'}${result.error ? `: ${result.error}` : ''}`}
+                                </td>
+                                <td className="py-1 text-right text-gray-400 font-mono">{result.latencyMs} ms</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default DataSourceSettings;
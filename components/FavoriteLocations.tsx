@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FavoriteLocation, Location } from '../types';
+import { addFavoriteLocation, deleteFavoriteLocation, getFavoriteLocations, updateFavoriteLocations } from '../services/dbService';
+import { isSameLocation } from '../utils/urlState';
+
+interface FavoriteLocationsProps {
+    location: Location;
+    onSelect: (location: Location) => void;
+}
+
+const FavoriteLocations: React.FC<FavoriteLocationsProps> = ({ location, onSelect }) => {
+    const [favorites, setFavorites] = useState<FavoriteLocation[]>([]);
+    const [isEditing, setIsEditing] = useState(false);
+    const [labelDrafts, setLabelDrafts] = useState<{ [id: number]: string }>({});
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    const loadFavorites = useCallback(async () => {
+        try {
+            setFavorites(await getFavoriteLocations());
+        } catch (err) {
+            console.error('[Favorites] Failed to load favourites:', err);
+            setActionError('Could not load favourites.');
+        }
+    }, []);
+
+    useEffect(() => {
+        loadFavorites();
+    }, [loadFavorites]);
+
+    const currentFavorite = favorites.find(f => isSameLocation(f.location, location));
+
+    const runAction = async (action: () => Promise<void>, failure: string) => {
+        setActionError(null);
+        try {
+            await action();
+        } catch (err) {
+            console.error(`[Favorites] ${failure}`, err);
+            setActionError(`${failure} See console for details.`);
+        }
+        await loadFavorites();
+    };
+
+    const handleToggleCurrent = () => runAction(async () => {
+        if (currentFavorite) {
+            await deleteFavoriteLocation(currentFavorite.id);
+            console.log(`[Favorites] Removed "${currentFavorite.label}".`);
+        } else {
+            const order = favorites.reduce((max, f) => Math.max(max, f.order), -1) + 1;
+            const favorite = await addFavoriteLocation({ location, label: location.name, order });
+            console.log(`[Favorites] Added "${favorite.label}" with id ${favorite.id}.`);
+        }
+    }, 'Failed to update favourites.');
+
+    const handleRename = (favorite: FavoriteLocation) => {
+        const label = (labelDrafts[favorite.id] ?? favorite.label).trim();
+        if (!label || label === favorite.label) {
+            setLabelDrafts(drafts => ({ ...drafts, [favorite.id]: favorite.label }));
+            return;
+        }
+        runAction(() => updateFavoriteLocations([{ ...favorite, label }]), 'Failed to rename favourite.');
+    };
+
+    // Swaps with the neighbour and rewrites every order so gaps left by deletions close up.
+    const handleMove = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= favorites.length) return;
+        const reordered = [...favorites];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        runAction(() => updateFavoriteLocations(reordered.map((f, order) => ({ ...f, order }))), 'Failed to reorder favourites.');
+    };
+
+    const handleRemove = (favorite: FavoriteLocation) =>
+        runAction(() => deleteFavoriteLocation(favorite.id), 'Failed to remove favourite.');
+
+    const startEditing = () => {
+        setLabelDrafts(Object.fromEntries(favorites.map(f => [f.id, f.label])));
+        setIsEditing(true);
+    };
+
+    const chipClassName = 'px-3 py-1 rounded-full text-sm border transition-colors';
+    const iconButtonClassName = 'px-2 py-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400';
+
+    return (
+        <div className="mt-4 max-w-2xl mx-auto">
+            <div className="flex flex-wrap items-center justify-center gap-2">
+                <button
+                    onClick={handleToggleCurrent}
+                    className={`${chipClassName} ${currentFavorite ? 'border-yellow-400/60 text-yellow-300' : 'border-white/10 text-gray-400 hover:text-white'}`}
+                    title={currentFavorite ? 'Remove this location from favourites' : 'Save this location to favourites'}
+                >
+                    {currentFavorite ? '★ Saved' : '☆ Save'}
+                </button>
+                {!isEditing && favorites.map(favorite => (
+                    <button
+                        key={favorite.id}
+                        onClick={() => onSelect(favorite.location)}
+                        className={`${chipClassName} ${favorite === currentFavorite ? 'border-blue-500 bg-blue-600/30 text-white' : 'border-white/10 bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                    >
+                        {favorite.label}
+                    </button>
+                ))}
+                {favorites.length > 0 && (
+                    <button
+                        onClick={() => (isEditing ? setIsEditing(false) : startEditing())}
+                        className="text-sm text-gray-400 hover:text-white underline-offset-2 hover:underline"
+                    >
+                        {isEditing ? 'Done' : 'Edit'}
+                    </button>
+                )}
+            </div>
+
+            {isEditing && (
+                <ul className="mt-3 space-y-2 p-3 bg-gray-900/50 rounded-md border border-white/10">
+                    {favorites.map((favorite, index) => (
+                        <li key={favorite.id} className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={labelDrafts[favorite.id] ?? favorite.label}
+                                onChange={(e) => setLabelDrafts(drafts => ({ ...drafts, [favorite.id]: e.target.value }))}
+                                onBlur={() => handleRename(favorite)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                className="flex-1 bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                aria-label={`Name for ${favorite.location.name}`}
+                            />
+                            <button onClick={() => handleMove(index, -1)} disabled={index === 0} className={iconButtonClassName} aria-label="Move up">↑</button>
+                            <button onClick={() => handleMove(index, 1)} disabled={index === favorites.length - 1} className={iconButtonClassName} aria-label="Move down">↓</button>
+                            <button onClick={() => handleRemove(favorite)} className="px-2 py-1 text-sm text-red-400 hover:text-red-300">Remove</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {actionError && <p className="mt-2 text-sm text-red-400">{actionError}</p>}
+        </div>
+    );
+};
+
+export default FavoriteLocations;
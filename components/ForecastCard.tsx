@@ -1,8 +1,10 @@
 
 import React, { useMemo } from 'react';
 import { ForecastCardProps } from '../types';
+import { useUnits } from './UnitsContext';
 
 const ForecastCard: React.FC<ForecastCardProps> = ({ modelName, data, activeView }) => {
+  const units = useUnits();
   const userTimeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
 
   const forecastPoints = useMemo(() => {
@@ -54,28 +56,28 @@ const ForecastCard: React.FC<ForecastCardProps> = ({ modelName, data, activeView
               <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-1 text-gray-400">
                   {activeView === 'daily' ? (
                     (typeof point.temperature_2m_max === 'number' || typeof point.temperature_2m_min === 'number') && (
-                      <p>Temp: <span className="font-medium text-gray-200">{point.temperature_2m_max?.toFixed(0) ?? '--'}° / {point.temperature_2m_min?.toFixed(0) ?? '--'}°C</span></p>
+                      <p>Temp: <span className="font-medium text-gray-200">{units.number('temperature', point.temperature_2m_max)}° / {units.format('temperature', point.temperature_2m_min)}</span></p>
                     )
                   ) : (
                     typeof point.temperature_2m === 'number' && (
-                      <p>Temp: <span className="font-medium text-gray-200">{point.temperature_2m.toFixed(1)}°C</span></p>
+                      <p>Temp: <span className="font-medium text-gray-200">{units.format('temperature', point.temperature_2m, 1)}</span></p>
                     )
                   )}
 
                   {typeof point.rain === 'number' && point.rain > 0 && (
-                    <p>Rain: <span className="font-medium text-gray-200">{point.rain.toFixed(1)} mm</span></p>
+                    <p>Rain: <span className="font-medium text-gray-200">{units.format('rain', point.rain)}</span></p>
                   )}
 
                   {typeof point.snowfall === 'number' && point.snowfall > 0 && (
-                    <p>Snow: <span className="font-medium text-gray-200">{point.snowfall.toFixed(1)} cm</span></p>
+                    <p>Snow: <span className="font-medium text-gray-200">{units.format('snowfall', point.snowfall)}</span></p>
                   )}
 
                   {typeof point.wind_speed_10m === 'number' && (
-                    <p>Wind: <span className="font-medium text-gray-200">{point.wind_speed_10m.toFixed(0)} kn {point.wind_direction_10m ?? ''}</span></p>
+                    <p>Wind: <span className="font-medium text-gray-200">{units.format('wind_speed_10m', point.wind_speed_10m)} {point.wind_direction_10m ?? ''}</span></p>
                   )}
                   
                   {typeof point.wind_gusts_10m === 'number' && (
-                    <p>Gusts: <span className="font-medium text-gray-200">{point.wind_gusts_10m.toFixed(0)} kn</span></p>
+                    <p>Gusts: <span className="font-medium text-gray-200">{units.format('wind_gusts_10m', point.wind_gusts_10m)}</span></p>
                   )}
 
                   {typeof point.cloud_cover === 'number' && (
@@ -83,7 +85,7 @@ const ForecastCard: React.FC<ForecastCardProps> = ({ modelName, data, activeView
                   )}
 
                   {typeof point.visibility === 'number' && (
-                    <p>Visibility: <span className="font-medium text-gray-200">{point.visibility.toFixed(1)} mi</span></p>
+                    <p>Visibility: <span className="font-medium text-gray-200">{units.format('visibility', point.visibility)}</span></p>
                   )}
               </div>
             </div>
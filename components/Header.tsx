@@ -1,17 +1,58 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { HeaderProps } from '../types';
+import { coordinateLocationId } from '../utils/urlState';
+import FavoriteLocations from './FavoriteLocations';
+
+const GEOLOCATION_TIMEOUT_MS = 10000;
+
+const Header: React.FC<HeaderProps> = ({ location, searchQuery, setSearchQuery, onSearchFocus, onLocationSelect }) => {
+  const [isLocating, setIsLocating] = useState(false);
+  const [locateError, setLocateError] = useState<string | null>(null);
+
+  const handleUseCurrentLocation = () => {
+    if (!('geolocation' in navigator)) {
+      setLocateError('This browser cannot share its location.');
+      return;
+    }
+    setIsLocating(true);
+    setLocateError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const { latitude, longitude } = position.coords;
+        console.log(`[UI] Using device location ${latitude.toFixed(4)}, ${longitude.toFixed(4)}`);
+        setIsLocating(false);
+        // Open-Meteo has no reverse geocoding, so the place is named by its coordinates.
+        onLocationSelect({
+          id: coordinateLocationId(latitude, longitude),
+          name: `${latitude.toFixed(2)}, ${longitude.toFixed(2)}`,
+          latitude,
+          longitude,
+          country: '',
+          admin1: '',
+        });
+      },
+      (error) => {
+        console.warn('[UI] Geolocation failed:', error);
+        setIsLocating(false);
+        setLocateError(error.code === error.PERMISSION_DENIED ? 'Location access was denied.' : 'Could not determine your location.');
+      },
+      { timeout: GEOLOCATION_TIMEOUT_MS, maximumAge: 5 * 60 * 1000 }
+    );
+  };
 
-const Header: React.FC<HeaderProps> = ({ location, searchQuery, setSearchQuery, onSearchFocus }) => {
   return (
     <header className="text-center mb-2">
       <h1 className="text-4xl sm:text-5xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-sky-400 to-cyan-300">
         Climatus
       </h1>
       <p className="mt-2 text-lg text-gray-400">
-        {location.name}, {location.admin1}, {location.country}
+        {[location.name, location.admin1, location.country].filter(Boolean).join(', ')}
       </p>
 
+      {/* Kept above the search box so the results dropdown still opens directly beneath it. */}
+      <FavoriteLocations location={location} onSelect={onLocationSelect} />
+
       <div className="mt-6 max-w-lg mx-auto">
         <div className="flex items-center bg-gray-800 border-2 border-gray-700 rounded-full shadow-lg overflow-hidden focus-within:border-blue-500 focus-within:ring-2 focus-within:ring-blue-500/50 transition-all">
           <input
@@ -24,12 +65,24 @@ const Header: React.FC<HeaderProps> = ({ location, searchQuery, setSearchQuery,
             aria-label="Search for a location"
             autoComplete="off"
           />
+          <button
+            onClick={handleUseCurrentLocation}
+            disabled={isLocating}
+            className="p-3 text-gray-400 hover:text-white disabled:animate-pulse"
+            title="Use my current location"
+            aria-label="Use my current location"
+          >
+             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 2v3m0 14v3m10-10h-3M5 12H2m15 0a5 5 0 11-10 0 5 5 0 0110 0z" />
+             </svg>
+          </button>
           <div className="p-3">
              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
              </svg>
           </div>
         </div>
+        {locateError && <p className="mt-2 text-sm text-red-400">{locateError}</p>}
       </div>
     </header>
   );
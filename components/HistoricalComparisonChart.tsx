@@ -4,6 +4,7 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsi
 import { Metric, HistoricalForecastRecord, ActualWeatherRecord } from '../types';
 import { getActualsForLocationAndTimeRange, getHistoricalForecasts } from '../services/dbService';
 import LoadingSpinner from './LoadingSpinner';
+import { useUnits } from './UnitsContext';
 import { MODELS, MODEL_COLORS } from '../constants';
 
 interface HistoricalComparisonChartProps {
@@ -11,7 +12,7 @@ interface HistoricalComparisonChartProps {
     selectedMetric: Metric;
 }
 
-const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
+const CustomTooltip: React.FC<any> = ({ active, payload, label, decimals = 1 }) => {
     if (active && payload && payload.length) {
         const sortedPayload = [...payload]
             .filter(p => p.value !== null && p.value !== undefined)
@@ -37,7 +38,7 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
                                 <span className="text-gray-300">{pld.name}</span>
                             </div>
                             <span className="font-bold font-mono text-white">
-                                {pld.value.toFixed(1)} {pld.unit}
+                                {pld.value.toFixed(decimals)} {pld.unit}
                             </span>
                         </li>
                     ))}
@@ -53,6 +54,7 @@ const HistoricalComparisonChart: React.FC<HistoricalComparisonChartProps> = ({ s
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const userTimeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
+    const units = useUnits();
 
     useEffect(() => {
         const fetchData = async () => {
@@ -137,6 +139,7 @@ const HistoricalComparisonChart: React.FC<HistoricalComparisonChartProps> = ({ s
                             .filter(f => 
                                 f.modelKey === model.key && 
                                 f.metricKey === selectedMetric.key && 
+                                !f.legacyLeadTime &&
                                 f.forecastLeadTimeHours >= 6
                             );
 
@@ -145,7 +148,7 @@ const HistoricalComparisonChart: React.FC<HistoricalComparisonChartProps> = ({ s
                             const bestForecast = modelForecasts.reduce((prev, current) => (prev.forecastLeadTimeHours < current.forecastLeadTimeHours) ? prev : current);
                             const value = bestForecast.forecastedValue;
                             dataPoint[model.key] = value;
-                            if (model.category !== 'Derived' && typeof value === 'number' && isFinite(value)) {
+                            if (model.category !== 'Derived' && model.category !== 'Ensemble' && typeof value === 'number' && isFinite(value)) {
                                 metricValuesForMedian.push(value);
                             }
                         }
@@ -179,6 +182,16 @@ const HistoricalComparisonChart: React.FC<HistoricalComparisonChartProps> = ({ s
         );
     }, [chartData]);
 
+    // Records are stored in canonical units; convert the numeric series for display.
+    const displayData = useMemo(() => chartData.map(point => {
+        const converted: { [key: string]: any } = { ...point };
+        for (const [key, value] of Object.entries(point)) {
+            if (typeof value === 'number') converted[key] = units.value(selectedMetric.key, value);
+        }
+        return converted;
+    }), [chartData, units, selectedMetric.key]);
+    const unit = units.label(selectedMetric.key);
+
     if (loading) {
         return <div className="flex justify-center items-center h-96"><LoadingSpinner /></div>;
     }
@@ -190,11 +203,11 @@ const HistoricalComparisonChart: React.FC<HistoricalComparisonChartProps> = ({ s
     return (
         <div className="h-[60vh] sm:h-96 w-full">
             <ResponsiveContainer>
-                <LineChart data={chartData} margin={{ top: 5, right: 30, left: 5, bottom: 25 }}>
+                <LineChart data={displayData} margin={{ top: 5, right: 30, left: 5, bottom: 25 }}>
                     <CartesianGrid strokeDasharray="3 3" stroke="rgba(255, 255, 255, 0.1)" />
                     <XAxis dataKey="time" stroke="#a0aec0" fontSize={12} tick={{ fill: '#a0aec0' }} interval={5} />
-                    <YAxis stroke="#a0aec0" fontSize={12} tick={{ fill: '#a0aec0' }} label={{ value: selectedMetric.unit, angle: -90, position: 'insideLeft', fill: '#a0aec0' }} />
-                    <Tooltip content={<CustomTooltip />} allowEscapeViewBox={{ x: true, y: true }} />
+                    <YAxis stroke="#a0aec0" fontSize={12} tick={{ fill: '#a0aec0' }} label={{ value: unit, angle: -90, position: 'insideLeft', fill: '#a0aec0' }} />
+                    <Tooltip content={<CustomTooltip decimals={Math.max(1, units.decimals(selectedMetric.key))} />} allowEscapeViewBox={{ x: true, y: true }} />
                     <Legend />
 
                     {/* Actual Weather Line */}
@@ -206,7 +219,7 @@ const HistoricalComparisonChart: React.FC<HistoricalComparisonChartProps> = ({ s
                         strokeWidth={3}
                         strokeDasharray="5 5"
                         dot={{ r: 3, fill: '#fafafa' }}
-                        unit={selectedMetric.unit}
+                        unit={unit}
                         connectNulls
                     />
 
@@ -220,7 +233,7 @@ const HistoricalComparisonChart: React.FC<HistoricalComparisonChartProps> = ({ s
                             strokeWidth={model.key === 'median_model' ? 3 : 1.5}
                             strokeOpacity={model.key === 'median_model' ? 1 : 0.6}
                             dot={false}
-                            unit={selectedMetric.unit}
+                            unit={unit}
                             connectNulls
                         />
                     ))}
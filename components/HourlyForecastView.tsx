@@ -1,11 +1,15 @@
 import React, { useMemo } from 'react';
 import { ProcessedForecasts, ProcessedHourlyData } from '../types';
 import { IconCloudSun, IconCloudRain, IconCloudSnow, IconCloud } from '../utils/weatherUtils';
+import { AGREEMENT_COLORS, AGREEMENT_LABELS, overallAgreement } from '../utils/modelSpread';
+import { useUnits } from './UnitsContext';
 
 interface HourlyForecastViewProps {
     data: ProcessedForecasts;
 }
 
+const AGREEMENT_FIELDS = ['temperature_2m', 'precipitation', 'wind_speed_10m'];
+
 const getWindGustColor = (gusts: number): string => {
     if (gusts >= 30) return 'text-red-400';
     if (gusts >= 20) return 'text-yellow-400';
@@ -27,6 +31,7 @@ const getHourlyWeatherIcon = (hour: ProcessedHourlyData): React.FC => {
 
 
 const HourlyForecastView: React.FC<HourlyForecastViewProps> = ({ data }) => {
+    const units = useUnits();
     const userTimeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
 
     const hourlyData = useMemo(() => {
@@ -88,6 +93,7 @@ const HourlyForecastView: React.FC<HourlyForecastViewProps> = ({ data }) => {
                     const totalPrecip = hour.precipitation ?? 0;
                     const markerOffset = tempRange.range > 0 ? ((temp - tempRange.min) / tempRange.range) * 100 : 50;
                     const clampedOffset = Math.max(1, Math.min(99, markerOffset)); // Clamp to keep marker border visible
+                    const agreement = overallAgreement(hour, AGREEMENT_FIELDS);
 
                     return (
                         <div key={index} className="flex items-center gap-4 p-2 rounded-lg transition-colors hover:bg-white/5">
@@ -97,9 +103,9 @@ const HourlyForecastView: React.FC<HourlyForecastViewProps> = ({ data }) => {
 
                             <div className="flex flex-col items-center w-12 text-center">
                                 <span className={`text-xl font-bold ${getWindGustColor(hour.wind_gusts_10m ?? 0)}`}>
-                                    {Math.round(hour.wind_speed_10m ?? 0)}
+                                    {units.number('windSpeed', hour.wind_speed_10m ?? 0)}
                                 </span>
-                                <span className="text-xs text-gray-400">kts</span>
+                                <span className="text-xs text-gray-400">{units.label('windSpeed')}</span>
                             </div>
 
                             <div className="flex items-center gap-2">
@@ -108,14 +114,14 @@ const HourlyForecastView: React.FC<HourlyForecastViewProps> = ({ data }) => {
                                 </div>
                                 <div className="flex flex-col items-start w-16">
                                     <span className="text-md text-cyan-300 font-mono">
-                                        {totalPrecip.toFixed(2)}
+                                        {units.number('precipitation', totalPrecip)}
                                     </span>
-                                    <span className="text-xs text-gray-400 -mt-1">mm</span>
+                                    <span className="text-xs text-gray-400 -mt-1">{units.label('precipitation')}</span>
                                 </div>
                             </div>
 
                             <span className="w-10 text-lg text-white font-mono text-right">
-                                {Math.round(temp)}°
+                                {units.number('temperature', temp)}°
                             </span>
 
                             <div className="flex-1 h-2 bg-gray-700/50 rounded-full relative">
@@ -128,6 +134,12 @@ const HourlyForecastView: React.FC<HourlyForecastViewProps> = ({ data }) => {
                                     }}
                                 ></div>
                             </div>
+
+                            <span
+                                className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+                                style={{ backgroundColor: agreement ? AGREEMENT_COLORS[agreement] : 'transparent' }}
+                                title={agreement ? `${AGREEMENT_LABELS[agreement]} model agreement (${hour.modelCount ?? 0} models)` : undefined}
+                            ></span>
                         </div>
                     );
                 })}
@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { LeadTimeErrorCurve, Metric } from '../types';
+import { MODELS, MODEL_COLORS } from '../constants';
+import { useUnits } from './UnitsContext';
+
+interface LeadTimeErrorChartProps {
+    curves: LeadTimeErrorCurve[];
+    selectedMetric: Metric;
+}
+
+const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
+    if (active && payload && payload.length) {
+        const sortedPayload = [...payload]
+            .filter(p => p.value !== null && p.value !== undefined)
+            .sort((a, b) => a.value - b.value);
+
+        if (sortedPayload.length === 0) return null;
+
+        return (
+            <div className="relative z-50 p-3 bg-gray-800/95 backdrop-blur-sm border border-gray-600 rounded-lg shadow-2xl min-w-[180px]">
+                <p className="font-bold text-gray-200 mb-2 border-b border-gray-600 pb-2">Lead time ≤ {label}h</p>
+                <ul className="space-y-1.5">
+                    {sortedPayload.map((pld: any) => (
+                        <li key={pld.dataKey} className="flex items-center justify-between text-sm">
+                            <div className="flex items-center">
+                                <span
+                                    className="w-3 h-3 rounded-full mr-3 border-2 border-white/20"
+                                    style={{ backgroundColor: pld.color }}
+                                ></span>
+                                <span className="text-gray-300">{pld.name}</span>
+                            </div>
+                            <span className="font-bold font-mono text-white ml-4">
+                                {pld.value.toFixed(2)} {pld.unit}
+                                <span className="text-gray-500 text-xs ml-1">(n={pld.payload[`${pld.dataKey}_count`]})</span>
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        );
+    }
+    return null;
+};
+
+const LeadTimeErrorChart: React.FC<LeadTimeErrorChartProps> = ({ curves, selectedMetric }) => {
+    const units = useUnits();
+    const unit = units.label(selectedMetric.key);
+
+    const chartData = useMemo(() => {
+        if (curves.length === 0) return [];
+        const rows = curves[0].bins.map(bin => ({ lead: bin.leadEndHours } as { [key: string]: number | null }));
+        curves.forEach(curve => {
+            curve.bins.forEach((bin, i) => {
+                rows[i][curve.modelKey] = bin.count > 0 ? units.delta(selectedMetric.key, bin.meanAbsoluteError) : null;
+                rows[i][`${curve.modelKey}_count`] = bin.count;
+            });
+        });
+        return rows;
+    }, [curves, units, selectedMetric.key]);
+
+    const modelEntries = useMemo(() => {
+        return MODELS.filter(model => curves.some(c => c.modelKey === model.key && c.bins.some(b => b.count > 0)));
+    }, [curves]);
+
+    if (modelEntries.length === 0) {
+        return (
+            <div className="text-center p-6 bg-yellow-900/30 border border-yellow-700 rounded-lg">
+                <p>No verified forecasts yet for {selectedMetric.label.toLowerCase()}. Error curves appear once forecasts have been scored.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-[60vh] sm:h-96 w-full">
+            <ResponsiveContainer>
+                <LineChart data={chartData} margin={{ top: 5, right: 30, left: 5, bottom: 25 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(255, 255, 255, 0.1)" />
+                    <XAxis
+                        dataKey="lead"
+                        stroke="#a0aec0"
+                        fontSize={12}
+                        tick={{ fill: '#a0aec0' }}
+                        label={{ value: 'Lead time (h)', position: 'insideBottom', offset: -15, fill: '#a0aec0' }}
+                    />
+                    <YAxis stroke="#a0aec0" fontSize={12} tick={{ fill: '#a0aec0' }} label={{ value: `MAE (${unit})`, angle: -90, position: 'insideLeft', fill: '#a0aec0' }} />
+                    <Tooltip content={<CustomTooltip />} allowEscapeViewBox={{ x: true, y: true }} />
+                    <Legend verticalAlign="top" />
+
+                    {modelEntries.map(model => (
+                        <Line
+                            key={model.key}
+                            type="monotone"
+                            dataKey={model.key}
+                            name={model.name}
+                            stroke={MODEL_COLORS[model.key] || '#ffffff'}
+                            strokeWidth={1.5}
+                            dot={{ r: 2 }}
+                            unit={unit}
+                            connectNulls
+                        />
+                    ))}
+                </LineChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
+
+export default LeadTimeErrorChart;
@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Location, Metric, ProcessedHourlyData } from '../types';
+import { COMPARE_MAX_LOCATIONS, TRACKABLE_METRICS } from '../constants';
+import { fetchMedianHourlyForecast } from '../services/openMeteoService';
+import { getAccuracySites, getFavoriteLocations } from '../services/dbService';
+import { coordinateLocationId } from '../utils/urlState';
+import { summarizeOutlook, upcomingHours } from '../utils/locationOutlook';
+import LoadingSpinner from './LoadingSpinner';
+import { useUnits } from './UnitsContext';
+
+interface LocationComparisonProps {
+    currentLocation: Location;
+}
+
+interface Candidate {
+    key: number; // From the coordinates, so the same place saved twice is one candidate
+    location: Location;
+    label: string;
+    source: 'current' | 'favorite' | 'site';
+}
+
+interface ForecastResult {
+    hourly?: ProcessedHourlyData[];
+    error?: string;
+}
+
+const SERIES_COLORS = ['#38bdf8', '#f97316', '#a3e635', '#e879f9', '#facc15', '#f87171'];
+
+const SOURCE_LABELS: Record<Candidate['source'], string> = {
+    current: 'Current',
+    favorite: 'Favourite',
+    site: 'Accuracy site',
+};
+
+const candidateKey = (location: Location) => coordinateLocationId(location.latitude, location.longitude);
+
+const CustomTooltip: React.FC<any> = ({ active, payload, label, metricKey }) => {
+    const units = useUnits();
+    if (active && payload && payload.length) {
+        const sortedPayload = [...payload]
+            .filter(p => p.value !== null && p.value !== undefined)
+            .sort((a, b) => b.value - a.value);
+
+        if (sortedPayload.length === 0) return null;
+
+        return (
+            <div className="relative z-50 p-3 bg-gray-800/95 backdrop-blur-sm border border-gray-600 rounded-lg shadow-2xl min-w-[180px]">
+                <p className="font-bold text-gray-200 mb-2 border-b border-gray-600 pb-2">{label}</p>
+                <ul className="space-y-1.5">
+                    {sortedPayload.map((pld: any) => (
+                        <li key={pld.dataKey} className="flex items-center justify-between text-sm">
+                            <div className="flex items-center">
+                                <span
+                                    className="w-3 h-3 rounded-full mr-3 border-2 border-white/20"
+                                    style={{ backgroundColor: pld.color }}
+                                ></span>
+                                <span className="text-gray-300">{pld.name}</span>
+                            </div>
+                            <span className="font-bold font-mono text-white ml-4">
+                                {units.format(metricKey, pld.payload[`${pld.dataKey}_raw`])}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        );
+    }
+    return null;
+};
+
+const LocationComparison: React.FC<LocationComparisonProps> = ({ currentLocation }) => {
+    const units = useUnits();
+    const [savedCandidates, setSavedCandidates] = useState<Candidate[]>([]);
+    const [selectedKeys, setSelectedKeys] = useState<number[] | null>(null);
+    const [results, setResults] = useState<{ [key: number]: ForecastResult }>({});
+    const [loadingKeys, setLoadingKeys] = useState<number[]>([]);
+    const [refreshToken, setRefreshToken] = useState(0);
+    const requestedRef = useRef(new Set<number>());
+    const generationRef = useRef(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        const loadCandidates = async () => {
+            const [favorites, sites] = await Promise.all([
+                getFavoriteLocations().catch(err => { console.error('[Compare] Failed to load favourites:', err); return []; }),
+                getAccuracySites().catch(err => { console.error('[Compare] Failed to load accuracy sites:', err); return []; }),
+            ]);
+            if (cancelled) return;
+            setSavedCandidates([
+                ...favorites.map(f => ({ key: candidateKey(f.location), location: f.location, label: f.label, source: 'favorite' as const })),
+                ...sites.map(site => ({ key: candidateKey(site), location: site, label: site.name, source: 'site' as const })),
+            ]);
+        };
+        loadCandidates();
+        return () => { cancelled = true; };
+    }, []);
+
+    const candidates = useMemo(() => {
+        const all: Candidate[] = [
+            { key: candidateKey(currentLocation), location: currentLocation, label: currentLocation.name, source: 'current' },
+            ...savedCandidates,
+        ];
+        return all.filter((candidate, index) => all.findIndex(c => c.key === candidate.key) === index);
+    }, [currentLocation, savedCandidates]);
+
+    // Until the user picks, compare the current place with the favourites, or with the accuracy
+    // sites when nothing has been saved yet.
+    const effectiveKeys = useMemo(() => {
+        if (selectedKeys) return selectedKeys;
+        const favorites = candidates.filter(c => c.source !== 'site');
+        const defaults = favorites.length > 1 ? favorites : candidates;
+        return defaults.slice(0, COMPARE_MAX_LOCATIONS).map(c => c.key);
+    }, [selectedKeys, candidates]);
+
+    const selected = useMemo(() => candidates.filter(c => effectiveKeys.includes(c.key)), [candidates, effectiveKeys]);
+
+    // Places are fetched one at a time: each one is a full multi-model request, and results
+    // already on screen are kept when the selection changes.
+    useEffect(() => {
+        const generation = generationRef.current;
+        const missing = selected.filter(c => !requestedRef.current.has(c.key));
+        if (missing.length === 0) return;
+        missing.forEach(c => requestedRef.current.add(c.key));
+        setLoadingKeys(keys => [...keys, ...missing.map(c => c.key)]);
+
+        const fetchMissing = async () => {
+            for (const candidate of missing) {
+                let result: ForecastResult;
+                try {
+                    console.log(`[Compare] Fetching median forecast for ${candidate.label}...`);
+                    result = { hourly: await fetchMedianHourlyForecast(candidate.location) };
+                } catch (err) {
+                    console.error(`[Compare] Failed to fetch ${candidate.label}:`, err);
+                    result = { error: err instanceof Error ? err.message : 'Failed to fetch forecast.' };
+                }
+                if (generation !== generationRef.current) return;
+                setResults(current => ({ ...current, [candidate.key]: result }));
+                setLoadingKeys(keys => keys.filter(key => key !== candidate.key));
+            }
+        };
+        fetchMissing();
+    }, [selected, refreshToken]);
+
+    const handleRefresh = () => {
+        generationRef.current++;
+        requestedRef.current.clear();
+        setResults({});
+        setLoadingKeys([]);
+        setRefreshToken(token => token + 1);
+    };
+
+    const toggleCandidate = (key: number) => {
+        const next = effectiveKeys.includes(key) ? effectiveKeys.filter(k => k !== key) : [...effectiveKeys, key];
+        if (next.length > COMPARE_MAX_LOCATIONS) return;
+        setSelectedKeys(next);
+    };
+
+    const loaded = useMemo(() => selected
+        .map((candidate, index) => ({ candidate, color: SERIES_COLORS[index % SERIES_COLORS.length], hourly: results[candidate.key]?.hourly }))
+        .filter((entry): entry is { candidate: Candidate; color: string; hourly: ProcessedHourlyData[] } => !!entry.hourly)
+        .map(entry => ({ ...entry, points: upcomingHours(entry.hourly) })),
+        [selected, results]);
+
+    // One row per hour across every loaded place, with display values for the lines and the
+    // canonical value alongside for the tooltip. Rows are keyed by UTC time and labelled in the
+    // viewer's time zone, since the places may not share one.
+    const chartData = useMemo(() => {
+        const rows = new Map<string, { [field: string]: string | number | null }>();
+        loaded.forEach(({ candidate, points }) => {
+            points.forEach(point => {
+                if (!rows.has(point.time)) {
+                    const label = new Date(point.time + 'Z').toLocaleString('en-US', { weekday: 'short', hour: 'numeric', hour12: true });
+                    rows.set(point.time, { time: point.time, label });
+                }
+                const row = rows.get(point.time)!;
+                TRACKABLE_METRICS.forEach(metric => {
+                    const raw = point[metric.key as keyof ProcessedHourlyData];
+                    const value = typeof raw === 'number' && isFinite(raw) ? raw : null;
+                    row[`${candidate.key}_${metric.key}_raw`] = value;
+                    row[`${candidate.key}_${metric.key}`] = value === null ? null : units.value(metric.key, value);
+                });
+            });
+        });
+        return Array.from(rows.values()).sort((a, b) => String(a.time).localeCompare(String(b.time)));
+    }, [loaded, units]);
+
+    const renderChart = (metric: Metric) => (
+        <div key={metric.key} className="p-4 bg-black/20 backdrop-blur-sm border border-white/10 rounded-xl shadow-lg">
+            <h3 className="text-lg font-semibold text-gray-200 mb-2">{metric.label}</h3>
+            <div className="h-64 w-full">
+                <ResponsiveContainer>
+                    <LineChart data={chartData} margin={{ top: 5, right: 20, left: 5, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255, 255, 255, 0.1)" />
+                        <XAxis dataKey="label" stroke="#a0aec0" fontSize={12} tick={{ fill: '#a0aec0' }} interval={5} />
+                        <YAxis stroke="#a0aec0" fontSize={12} tick={{ fill: '#a0aec0' }} label={{ value: units.label(metric.key), angle: -90, position: 'insideLeft', fill: '#a0aec0' }} />
+                        <Tooltip content={<CustomTooltip metricKey={metric.key} />} allowEscapeViewBox={{ x: true, y: true }} />
+                        <Legend verticalAlign="top" />
+                        {loaded.map(({ candidate, color }) => (
+                            <Line
+                                key={candidate.key}
+                                type="monotone"
+                                dataKey={`${candidate.key}_${metric.key}`}
+                                name={candidate.label}
+                                stroke={color}
+                                strokeWidth={2}
+                                dot={false}
+                                connectNulls
+                            />
+                        ))}
+                    </LineChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="p-4 bg-black/20 backdrop-blur-sm border border-white/10 rounded-xl shadow-lg">
+                <div className="flex items-center justify-between mb-3">
+                    <p className="text-sm text-gray-400">
+                        Pick up to {COMPARE_MAX_LOCATIONS} places to compare their median forecasts.
+                    </p>
+                    <button
+                        onClick={handleRefresh}
+                        disabled={loadingKeys.length > 0}
+                        className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+                    >
+                        Refresh
+                    </button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {candidates.map(candidate => {
+                        const isSelected = effectiveKeys.includes(candidate.key);
+                        const colorIndex = selected.findIndex(c => c.key === candidate.key);
+                        return (
+                            <button
+                                key={candidate.key}
+                                onClick={() => toggleCandidate(candidate.key)}
+                                disabled={!isSelected && effectiveKeys.length >= COMPARE_MAX_LOCATIONS}
+                                className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm border transition-colors disabled:opacity-40
+                                    ${isSelected ? 'border-blue-500 bg-blue-600/30 text-white' : 'border-white/10 bg-gray-800 text-gray-400 hover:text-white'}`}
+                                title={SOURCE_LABELS[candidate.source]}
+                            >
+                                {isSelected && (
+                                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: SERIES_COLORS[colorIndex % SERIES_COLORS.length] }}></span>
+                                )}
+                                {candidate.label}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {selected.length === 0 ? (
+                <p className="text-center text-gray-400">Select at least one place to compare.</p>
+            ) : (
+                <>
+                    <div className="p-4 bg-black/20 backdrop-blur-sm border border-white/10 rounded-xl shadow-lg overflow-x-auto">
+                        <h3 className="text-lg font-semibold text-gray-200 mb-2">Next 36 hours</h3>
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-gray-400 border-b border-white/10">
+                                <tr>
+                                    <th className="py-2 pr-4 font-medium">Location</th>
+                                    <th className="py-2 px-2 font-medium text-right">High</th>
+                                    <th className="py-2 px-2 font-medium text-right">Low</th>
+                                    <th className="py-2 px-2 font-medium text-right">Precip</th>
+                                    <th className="py-2 pl-2 font-medium text-right">Peak gust</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {selected.map((candidate, index) => {
+                                    const result = results[candidate.key];
+                                    const outlook = result?.hourly ? summarizeOutlook(upcomingHours(result.hourly)) : null;
+                                    return (
+                                        <tr key={candidate.key} className="border-b border-white/5">
+                                            <td className="py-2 pr-4">
+                                                <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }}></span>
+                                                <span className="text-gray-200">{candidate.label}</span>
+                                            </td>
+                                            {outlook ? (
+                                                <>
+                                                    <td className="py-2 px-2 text-right font-mono text-red-300">{units.format('temperature', outlook.high)}</td>
+                                                    <td className="py-2 px-2 text-right font-mono text-blue-300">{units.format('temperature', outlook.low)}</td>
+                                                    <td className="py-2 px-2 text-right font-mono text-cyan-300">{units.format('precipitation', outlook.precipitationTotal)}</td>
+                                                    <td className="py-2 pl-2 text-right font-mono text-gray-200">{units.format('windSpeed', outlook.peakGust)}</td>
+                                                </>
+                                            ) : (
+                                                <td colSpan={4} className={`py-2 text-right ${result?.error ? 'text-red-400' : 'text-gray-500'}`}>
+                                                    {result?.error ?? 'Loading...'}
+                                                </td>
+                                            )}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {loaded.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center h-64">
+                            {loadingKeys.length > 0 && <LoadingSpinner />}
+                            <p className="mt-4 text-gray-400">{loadingKeys.length > 0 ? 'Fetching forecasts...' : 'No forecasts available for the selected places.'}</p>
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            {TRACKABLE_METRICS.map(renderChart)}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default LocationComparison;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Model, ModelPreferences } from '../types';
+import { MODELS } from '../constants';
+
+interface ModelSettingsProps {
+    preferences: ModelPreferences;
+    onChange: (preferences: ModelPreferences) => void;
+}
+
+type Selection = keyof ModelPreferences;
+
+const CATEGORIES: Model['category'][] = ['Global', 'Canadian', 'North American Regional', 'Ensemble'];
+
+// Models switched off in constants.ts are not offered at all.
+const SELECTABLE_MODELS = MODELS.filter(m => m.category !== 'Derived' && m.enabled !== false);
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({ preferences, onChange }) => {
+    const [error, setError] = useState<string | null>(null);
+
+    const toggle = (selection: Selection, modelKey: string) => {
+        const deselected = preferences[selection];
+        const next = deselected.includes(modelKey) ? deselected.filter(key => key !== modelKey) : [...deselected, modelKey];
+
+        // The median and super ensemble are built from deterministic models, so one has to stay shown.
+        const remaining = SELECTABLE_MODELS.filter(m => !next.includes(m.key) && (selection === 'untracked' || m.category !== 'Ensemble'));
+        if (remaining.length === 0) {
+            setError(selection === 'hidden'
+                ? 'At least one non-ensemble model must stay selected for display.'
+                : 'At least one model must stay selected for accuracy tracking.');
+            return;
+        }
+        setError(null);
+        onChange({ ...preferences, [selection]: next });
+    };
+
+    const checkboxClassName = 'h-4 w-4 rounded border-gray-600 bg-gray-800 text-blue-600 focus:ring-blue-500';
+
+    return (
+        <div className="p-4 bg-gray-900/50 rounded-md border border-white/10 space-y-4 text-left max-w-4xl mx-auto">
+            <p className="text-xs text-gray-500">
+                Models not shown are skipped when fetching, so the median and super ensemble are rebuilt from the rest.
+                The chart legend only hides lines. Untracked models stop collecting accuracy data; existing scores are kept.
+            </p>
+            {CATEGORIES.map(category => {
+                const models = SELECTABLE_MODELS.filter(m => m.category === category);
+                if (models.length === 0) return null;
+                return (
+                    <div key={category}>
+                        <h4 className="text-sm font-semibold text-gray-300 mb-2">{category}</h4>
+                        <table className="w-full text-sm">
+                            <thead className="text-gray-500 text-xs">
+                                <tr>
+                                    <th className="py-1 pr-2 font-medium text-left">Model</th>
+                                    <th className="py-1 px-2 font-medium text-left">Resolution</th>
+                                    <th className="py-1 px-2 font-medium text-left">Coverage</th>
+                                    <th className="py-1 px-2 font-medium text-left">Parameters</th>
+                                    <th className="py-1 px-2 font-medium text-center">Show</th>
+                                    <th className="py-1 pl-2 font-medium text-center">Track</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {models.map(model => (
+                                    <tr key={model.key} className="border-t border-white/5">
+                                        <td className="py-1.5 pr-2 text-gray-200">{model.name}</td>
+                                        <td className="py-1.5 px-2 text-gray-400 whitespace-nowrap">{model.resolution ?? '--'}</td>
+                                        <td className="py-1.5 px-2 text-gray-400">
+                                            {model.coverage ?? '--'}
+                                            {model.forecastDays && <span className="text-gray-500"> · {model.forecastDays} days</span>}
+                                        </td>
+                                        <td className="py-1.5 px-2 text-xs text-gray-500">{model.params.join(', ')}</td>
+                                        <td className="py-1.5 px-2 text-center">
+                                            <input
+                                                type="checkbox"
+                                                checked={!preferences.hidden.includes(model.key)}
+                                                onChange={() => toggle('hidden', model.key)}
+                                                className={checkboxClassName}
+                                                aria-label={`Show ${model.name}`}
+                                            />
+                                        </td>
+                                        <td className="py-1.5 pl-2 text-center">
+                                            <input
+                                                type="checkbox"
+                                                checked={!preferences.untracked.includes(model.key)}
+                                                onChange={() => toggle('untracked', model.key)}
+                                                className={checkboxClassName}
+                                                aria-label={`Track accuracy of ${model.name}`}
+                                            />
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                );
+            })}
+            <p className="text-xs text-gray-500">North American regional models are only requested for locations in the US mainland.</p>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+export default ModelSettings;
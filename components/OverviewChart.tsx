@@ -13,14 +13,20 @@ import {
   Area,
   LabelList,
 } from 'recharts';
-import { ProcessedForecasts, ForecastView, ProcessedHourlyData } from '../types';
+import { ProcessedForecasts, ForecastView, ProcessedHourlyData, ModelAgreement, UnitFormatter } from '../types';
 import { MedianLabel } from './ChartComponents';
+import { AGREEMENT_COLORS, AGREEMENT_LABELS, overallAgreement } from '../utils/modelSpread';
+import { useUnits } from './UnitsContext';
 
 interface OverviewChartProps {
   data: ProcessedForecasts;
   activeView: ForecastView;
 }
 
+const HOURLY_AGREEMENT_FIELDS = ['temperature_2m', 'precipitation', 'wind_gusts_10m'];
+const DAILY_AGREEMENT_FIELDS = ['temperature_2m_max', 'temperature_2m_min', 'precipitation', 'wind_gusts_10m_max'];
+
+// Values are in display units.
 interface OverviewPoint {
   xIndex: number;
   label: string;
@@ -30,12 +36,14 @@ interface OverviewPoint {
   tempMin: number | null;
   precip: number | null;
   gusts: number | null;
+  tempRange?: [number, number] | null; // Min–max of the models behind the median temperature (or high)
+  agreement?: ModelAgreement | null;
   tagAbove?: string | null;
   tagBelow?: string | null;
   combinedLabel?: string | null;
 }
 
-const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
+const CustomTooltip: React.FC<{ active?: boolean; payload?: { payload: OverviewPoint }[]; label?: string; units: UnitFormatter }> = ({ active, payload, label, units }) => {
   if (!active || !payload || !payload.length) return null;
 
   const data = payload[0].payload;
@@ -43,21 +51,22 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
   const items: {name: string, value: string, color: string}[] = [];
 
   if (isHourly) {
-    if (data.temp !== null) items.push({name: "Temperature", value: `${data.temp.toFixed(1)} °C`, color: '#fafafa'});
+    if (data.temp !== null) items.push({name: "Temperature", value: `${data.temp.toFixed(1)} ${units.label('temperature')}`, color: '#fafafa'});
   } else {
     if (data.tempMax !== null && data.tempMin !== null) {
         items.push({name: "High / Low", value: `${Math.round(data.tempMax)}° / ${Math.round(data.tempMin)}°`, color: '#fafafa'});
     }
   }
 
-  if (data.precip && data.precip > 0.05) items.push({name: "Precipitation", value: `${data.precip.toFixed(1)} mm`, color: '#38b2ac'});
-  if (data.gusts !== null) items.push({name: "Wind Gusts", value: `${data.gusts.toFixed(0)} kn`, color: '#4a5568'});
+  if (data.precip && data.precip > units.value('precipitation', 0.05)) items.push({name: "Precipitation", value: `${data.precip.toFixed(units.decimals('precipitation'))} ${units.label('precipitation')}`, color: '#38b2ac'});
+  if (data.gusts !== null) items.push({name: "Wind Gusts", value: `${data.gusts.toFixed(units.decimals('windSpeed'))} ${units.label('windSpeed')}`, color: '#4a5568'});
+  if (data.agreement) items.push({name: "Model agreement", value: AGREEMENT_LABELS[data.agreement], color: AGREEMENT_COLORS[data.agreement]});
 
   return (
     <div className="relative z-50 p-3 bg-gray-800/95 backdrop-blur-sm border border-gray-600 rounded-lg shadow-2xl min-w-[180px]">
       <p className="font-bold text-gray-200 mb-2 border-b border-gray-600 pb-2">{label}</p>
       <ul className="space-y-1.5">
-        {items.map((item: any) => (
+        {items.map(item => (
           <li key={item.name} className="flex items-center justify-between text-sm">
             <div className="flex items-center">
               <span
@@ -96,6 +105,7 @@ const CustomLegend: React.FC = () => (
 
 
 const OverviewChart: React.FC<OverviewChartProps> = ({ data, activeView }) => {
+  const units = useUnits();
   const medianModel = data?.median_model;
   const hourly = medianModel?.hourly ?? [];
 
@@ -107,6 +117,13 @@ const OverviewChart: React.FC<OverviewChartProps> = ({ data, activeView }) => {
   const chartData: OverviewPoint[] = useMemo(() => {
     if (!hourly.length) return [];
 
+    const display = (key: string, value: number | null | undefined): number | null =>
+        typeof value === 'number' && isFinite(value) ? units.value(key, value) : null;
+    const displayRange = (key: string, p: ProcessedHourlyData): [number, number] | null => {
+        const spread = p.spread?.[key];
+        return spread ? [units.value(key, spread.min), units.value(key, spread.max)] : null;
+    };
+
     const toDate = (iso: string | null | undefined): Date | null => {
         if (!iso) return null;
         // FIX: If the string is just a date (YYYY-MM-DD), append T00:00:00Z to parse it as UTC midnight.
@@ -160,11 +177,13 @@ const OverviewChart: React.FC<OverviewChartProps> = ({ data, activeView }) => {
             xIndex: index,
             label: displayLabel,
             rawTime: p.time,
-            temp: p.temperature_2m ?? null,
+            temp: display('temperature_2m', p.temperature_2m),
             tempMax: null,
             tempMin: null,
-            precip: p.precipitation ?? null,
-            gusts: p.wind_gusts_10m ?? null,
+            precip: display('precipitation', p.precipitation),
+            gusts: display('wind_gusts_10m', p.wind_gusts_10m),
+            tempRange: displayRange('temperature_2m', p),
+            agreement: overallAgreement(p, HOURLY_AGREEMENT_FIELDS),
         } as OverviewPoint;
       }).filter((p): p is OverviewPoint => p !== null);
       
@@ -221,10 +240,10 @@ const OverviewChart: React.FC<OverviewChartProps> = ({ data, activeView }) => {
       if (!date) return null;
       
       const label = dayFormatter.format(date);
-      const max = p.temperature_2m_max ?? null;
-      const min = p.temperature_2m_min ?? null;
-      const precip = p.precipitation ?? null;
-      const gust = p.wind_gusts_10m_max ?? null;
+      const max = display('temperature_2m_max', p.temperature_2m_max);
+      const min = display('temperature_2m_min', p.temperature_2m_min);
+      const precip = display('precipitation', p.precipitation);
+      const gust = display('wind_gusts_10m_max', p.wind_gusts_10m_max);
 
       const combinedLabel = (typeof max === 'number' && isFinite(max) && typeof min === 'number' && isFinite(min))
         ? `${Math.round(max)}° / ${Math.round(min)}°`
@@ -239,10 +258,12 @@ const OverviewChart: React.FC<OverviewChartProps> = ({ data, activeView }) => {
         tempMin: typeof min === 'number' ? min : null,
         precip: typeof precip === 'number' ? precip : null,
         gusts: typeof gust === 'number' ? gust : null,
+        tempRange: displayRange('temperature_2m_max', p),
+        agreement: overallAgreement(p, DAILY_AGREEMENT_FIELDS),
         combinedLabel,
       } as OverviewPoint;
     }).filter((p): p is OverviewPoint => p !== null);
-  }, [hourly, activeView, timeZone]);
+  }, [hourly, activeView, timeZone, units]);
 
   if (!medianModel || !chartData.length) {
     return (
@@ -271,14 +292,15 @@ const OverviewChart: React.FC<OverviewChartProps> = ({ data, activeView }) => {
               stroke="#a0aec0" 
               tick={{ fill: '#a0aec0' }} 
               domain={['auto', 'auto']} 
-              label={{ value: '°C', angle: -90, position: 'insideLeft', fill: '#a0aec0' }}
+              label={{ value: units.label('temperature'), angle: -90, position: 'insideLeft', fill: '#a0aec0' }}
             />
-            <YAxis yAxisId="right" orientation="right" stroke="#a0aec0" tick={{ fill: '#a0aec0' }} domain={[0, 'auto']} label={{ value: 'mm / kn', angle: 90, position: 'insideRight', fill: '#a0aec0' }} />
-            <Tooltip content={<CustomTooltip />} allowEscapeViewBox={{ x: true, y: true }}/>
+            <YAxis yAxisId="right" orientation="right" stroke="#a0aec0" tick={{ fill: '#a0aec0' }} domain={[0, 'auto']} label={{ value: `${units.label('precipitation')} / ${units.label('windSpeed')}`, angle: 90, position: 'insideRight', fill: '#a0aec0' }} />
+            <Tooltip content={<CustomTooltip units={units} />} allowEscapeViewBox={{ x: true, y: true }}/>
             <Legend content={<CustomLegend />} />
 
-            <Area type="monotone" yAxisId="right" dataKey="precip" name="Precipitation" stroke="#38b2ac" strokeWidth={2} fill="url(#precipGradient)" unit="mm"/>
-            <Bar yAxisId="right" dataKey="gusts" name="Wind Gusts" fill="#4a5568" unit="kn" barSize={isHourly ? 4 : 8}/>
+            <Area type="monotone" yAxisId="right" dataKey="precip" name="Precipitation" stroke="#38b2ac" strokeWidth={2} fill="url(#precipGradient)" unit={units.label('precipitation')}/>
+            <Area yAxisId="left" type="monotone" dataKey="tempRange" fill="#fafafa" fillOpacity={0.08} stroke="none" isAnimationActive={false} legendType="none" />
+            <Bar yAxisId="right" dataKey="gusts" name="Wind Gusts" fill="#4a5568" unit={units.label('windSpeed')} barSize={isHourly ? 4 : 8}/>
 
             <Line
               yAxisId="left"
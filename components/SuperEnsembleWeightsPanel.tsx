@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { AccuracyInterval, Metric, SuperEnsembleWeights } from '../types';
+import { MODELS, MODEL_COLORS, SUPER_ENSEMBLE_MIN_HOURS } from '../constants';
+import { useUnits } from './UnitsContext';
+
+interface SuperEnsembleWeightsPanelProps {
+    weights: SuperEnsembleWeights | null;
+    metric: Metric;
+}
+
+const INTERVAL_LABELS: Record<AccuracyInterval, string> = {
+    '24h': '0–24h',
+    '48h': '24–48h',
+    '5d': '2–5 days',
+};
+
+const SuperEnsembleWeightsPanel: React.FC<SuperEnsembleWeightsPanelProps> = ({ weights, metric }) => {
+    const units = useUnits();
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [selectedInterval, setSelectedInterval] = useState<AccuracyInterval>('24h');
+
+    const weightSet = weights?.byMetric[metric.key]?.[selectedInterval];
+    const rows = weightSet ? [...weightSet.weights].sort((a, b) => b.weight - a.weight) : [];
+    const maxWeight = rows.length > 0 ? rows[0].weight : 1;
+
+    return (
+        <div className="mt-4 text-sm">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="text-gray-400 hover:text-white underline-offset-2 hover:underline"
+                aria-expanded={isExpanded}
+            >
+                {isExpanded ? 'Hide Super Ensemble weights' : 'How is the Super Ensemble weighted?'}
+            </button>
+
+            {isExpanded && (
+                <div className="mt-3 p-4 bg-gray-900/50 rounded-md border border-white/10">
+                    <p className="text-gray-400 mb-3">
+                        {weights?.site
+                            ? <>Each model is weighted by the inverse of its recent {metric.label.toLowerCase()} MAE at <span className="text-gray-200">{weights.site.name}</span> ({weights.site.distanceKm.toFixed(0)} km away), for the lead time of each forecast hour.</>
+                            : <>No accuracy site is close enough to this location, so every model is weighted equally.</>}
+                    </p>
+
+                    <div className="flex gap-2 mb-3">
+                        {(Object.keys(INTERVAL_LABELS) as AccuracyInterval[]).map(key => (
+                            <button
+                                key={key}
+                                onClick={() => setSelectedInterval(key)}
+                                className={`px-3 py-1 rounded-md text-xs ${selectedInterval === key ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {INTERVAL_LABELS[key]}
+                            </button>
+                        ))}
+                    </div>
+
+                    {weightSet?.equalWeights && weights?.site && (
+                        <p className="text-xs text-yellow-400 mb-2">
+                            Fewer than two models have {SUPER_ENSEMBLE_MIN_HOURS} verified hours in this range yet, so weights are equal.
+                        </p>
+                    )}
+
+                    {rows.length === 0 ? (
+                        <p className="text-gray-500">No weights are available for {metric.label.toLowerCase()}.</p>
+                    ) : (
+                        <table className="w-full">
+                            <thead>
+                                <tr className="text-gray-400 border-b border-white/10">
+                                    <th className="py-1 text-left font-medium">Model</th>
+                                    <th className="py-1 text-right font-medium">MAE</th>
+                                    <th className="py-1 text-right font-medium">Hours</th>
+                                    <th className="py-1 pl-4 text-left font-medium w-1/3">Weight</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(row => (
+                                    <tr key={row.modelKey} className="border-b border-white/5">
+                                        <td className="py-1 text-gray-200">{MODELS.find(m => m.key === row.modelKey)?.name ?? row.modelKey}</td>
+                                        <td className="py-1 text-right font-mono text-gray-300">
+                                            {row.meanAbsoluteError !== null ? `${units.delta(metric.key, row.meanAbsoluteError).toFixed(2)} ${units.label(metric.key)}` : '—'}
+                                        </td>
+                                        <td className="py-1 text-right font-mono text-gray-400">{row.hoursTracked}</td>
+                                        <td className="py-1 pl-4">
+                                            <div className="flex items-center gap-2">
+                                                <div className="h-2 rounded-full" style={{ width: `${(row.weight / maxWeight) * 100}%`, backgroundColor: MODEL_COLORS[row.modelKey] || '#ffffff' }}></div>
+                                                <span className="font-mono text-gray-200 text-xs">{(row.weight * 100).toFixed(1)}%</span>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SuperEnsembleWeightsPanel;
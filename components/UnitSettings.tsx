@@ -0,0 +1,62 @@
+import React from 'react';
+import { UnitPresetId, UnitQuantity } from '../types';
+import { UNIT_PRESETS } from '../constants';
+import { UNIT_OPTIONS, UNIT_QUANTITY_LABELS } from '../utils/unitFormat';
+import { useUnitPreferences } from './UnitsContext';
+
+const QUANTITIES = Object.keys(UNIT_OPTIONS) as UnitQuantity[];
+
+const UnitSettings: React.FC = () => {
+    const { preferences, setPreferences, formatter } = useUnitPreferences();
+    const presetUnits = UNIT_PRESETS[preferences.preset].units;
+
+    const handleOverride = (quantity: UnitQuantity, unit: string) => {
+        const overrides = { ...preferences.overrides };
+        // Picking the preset's own unit clears the override, so a later preset change applies to it.
+        if (unit === presetUnits[quantity]) {
+            delete overrides[quantity];
+        } else {
+            overrides[quantity] = unit;
+        }
+        setPreferences({ ...preferences, overrides });
+    };
+
+    return (
+        <div className="p-4 bg-gray-900/50 rounded-md border border-white/10 space-y-4 text-left max-w-3xl mx-auto">
+            <div className="flex flex-wrap justify-center gap-2">
+                {(Object.keys(UNIT_PRESETS) as UnitPresetId[]).map(preset => (
+                    <button
+                        key={preset}
+                        onClick={() => setPreferences({ preset, overrides: {} })}
+                        className={`px-4 py-2 text-sm rounded-md ${preferences.preset === preset && Object.keys(preferences.overrides).length === 0
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+                    >
+                        {UNIT_PRESETS[preset].label}
+                    </button>
+                ))}
+            </div>
+            <div className="grid gap-3 sm:grid-cols-[10rem_1fr] items-center">
+                {QUANTITIES.map(quantity => (
+                    <React.Fragment key={quantity}>
+                        <label className="text-gray-300">{UNIT_QUANTITY_LABELS[quantity]}</label>
+                        <select
+                            value={formatter.units[quantity]}
+                            onChange={(e) => handleOverride(quantity, e.target.value)}
+                            className="bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {Object.keys(UNIT_OPTIONS[quantity]).map(unit => (
+                                <option key={unit} value={unit}>
+                                    {unit}{unit === presetUnits[quantity] ? ` (${UNIT_PRESETS[preferences.preset].label} default)` : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </React.Fragment>
+                ))}
+            </div>
+            <p className="text-center text-xs text-gray-500">Stored forecasts and accuracy records keep their original units; only the display changes.</p>
+        </div>
+    );
+};
+
+export default UnitSettings;
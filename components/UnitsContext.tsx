@@ -0,0 +1,43 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { UnitFormatter, UnitPreferences } from '../types';
+import { loadUnitPreferences, saveUnitPreferences } from '../services/settingsService';
+import { createUnitFormatter, resolveDisplayUnits } from '../utils/unitFormat';
+
+interface UnitsContextValue {
+    preferences: UnitPreferences;
+    setPreferences: (preferences: UnitPreferences, persist?: boolean) => void;
+    formatter: UnitFormatter;
+}
+
+const UnitsContext = createContext<UnitsContextValue | null>(null);
+
+interface UnitsProviderProps {
+    children: React.ReactNode;
+    initialPreferences?: UnitPreferences | null; // Used instead of the saved preferences, without saving them
+}
+
+export const UnitsProvider: React.FC<UnitsProviderProps> = ({ children, initialPreferences }) => {
+    const [preferences, setPreferencesState] = useState<UnitPreferences>(() => initialPreferences ?? loadUnitPreferences());
+
+    // Unchanged preferences keep their identity so the formatter, and anything memoized on it, is stable.
+    const setPreferences = useCallback((next: UnitPreferences, persist = true) => {
+        if (persist) saveUnitPreferences(next);
+        setPreferencesState(current => JSON.stringify(current) === JSON.stringify(next) ? current : next);
+    }, []);
+
+    const formatter = useMemo(() => createUnitFormatter(resolveDisplayUnits(preferences)), [preferences]);
+    const value = useMemo(() => ({ preferences, setPreferences, formatter }), [preferences, setPreferences, formatter]);
+
+    return <UnitsContext.Provider value={value}>{children}</UnitsContext.Provider>;
+};
+
+export const useUnitPreferences = (): UnitsContextValue => {
+    const context = useContext(UnitsContext);
+    if (!context) {
+        throw new Error('useUnitPreferences must be used inside a UnitsProvider.');
+    }
+    return context;
+};
+
+/** The formatter every component uses to show canonical values in the chosen units. */
+export const useUnits = (): UnitFormatter => useUnitPreferences().formatter;
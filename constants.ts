@@ -1,4 +1,4 @@
-import { Model, Metric, Location } from './types';
+import { Model, Metric, Location, AccuracyInterval, AccuracySite, CategoricalThreshold, ModelProviderRef, OpenMeteoEndpoint, OpenMeteoSettings, EnsembleExceedanceThreshold, UnitPreset, UnitPresetId, UnitPreferences, ModelPreferences } from './types';
 
 export const DEFAULT_LOCATION: Location = {
   id: 6137331,
@@ -9,7 +9,8 @@ export const DEFAULT_LOCATION: Location = {
   admin1: 'Alberta',
 };
 
-export const ACCURACY_LOCATIONS: Location[] = [
+// Seeds the accuracy site registry on first run; ids 1-4 keep previously collected data attached.
+export const DEFAULT_ACCURACY_SITES: Omit<AccuracySite, 'addedAt'>[] = [
   {
     id: 1,
     name: '37 Jubilation',
@@ -33,6 +34,7 @@ export const ACCURACY_LOCATIONS: Location[] = [
     longitude: -113.58986567205196,
     country: 'Canada',
     admin1: 'Alberta',
+    icao: 'CYEG',
   },
   {
     id: 4,
@@ -41,6 +43,7 @@ export const ACCURACY_LOCATIONS: Location[] = [
     longitude: -113.8631353717015,
     country: 'Canada',
     admin1: 'Alberta',
+    icao: 'CZVL',
   }
 ];
 
@@ -49,9 +52,48 @@ export const isUSMainland = (lat: number, lon: number): boolean =>
 
 export const LAST_ACCURACY_CHECK_KEY = 'lastAccuracyCheckTimestamp';
 export const ACCURACY_FIRST_RUN_KEY = 'accuracyFirstRunTimestamp';
+export const ACCURACY_INGESTED_RUNS_KEY = 'accuracyIngestedRuns'; // Last run stored per location/model
 export const ACCURACY_MAX_FORECAST_HOURS = 120; // 5 days
 export const ACCURACY_STALE_FORECAST_HOURS = 336; // 14 days, matching data retention
+export const DEFAULT_RUN_INTERVAL_HOURS = 6;
+export const OPEN_METEO_SETTINGS_KEY = 'openMeteoSettings';
+export const UNIT_PREFERENCES_KEY = 'unitPreferences'; // localStorage, so a reset of accuracy data keeps it
+export const LAST_LOCATION_KEY = 'lastLocation'; // localStorage, read before the first render
+export const MODEL_PREFERENCES_KEY = 'modelPreferences'; // localStorage, so a reset of accuracy data keeps it
 
+export const UNIT_PRESETS: Record<UnitPresetId, UnitPreset> = {
+  aviation: { label: 'Aviation', units: { temperature: '°C', precipitation: 'mm', snowfall: 'cm', windSpeed: 'kn', visibility: 'SM', pressure: 'inHg' } },
+  canadian: { label: 'Canadian', units: { temperature: '°C', precipitation: 'mm', snowfall: 'cm', windSpeed: 'km/h', visibility: 'km', pressure: 'kPa' } },
+  us: { label: 'US', units: { temperature: '°F', precipitation: 'in', snowfall: 'in', windSpeed: 'mph', visibility: 'mi', pressure: 'inHg' } },
+};
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = { preset: 'aviation', overrides: {} };
+
+export const DEFAULT_MODEL_PREFERENCES: ModelPreferences = { hidden: [], untracked: [] };
+
+export const DEFAULT_OPEN_METEO_SETTINGS: OpenMeteoSettings = {
+  forecastBaseUrl: 'https://api.open-meteo.com',
+  domainBaseUrls: {},
+  ensembleBaseUrl: 'https://ensemble-api.open-meteo.com',
+  archiveBaseUrl: 'https://archive-api.open-meteo.com',
+  geocodingBaseUrl: 'https://geocoding-api.open-meteo.com',
+  apiKey: '',
+};
+export const LEAD_TIME_BIN_HOURS = 6; // Width of each bin in the error-vs-lead-time curves
+
+// Lead-time ranges (in hours, inclusive) that make up each leaderboard bucket.
+export const ACCURACY_INTERVAL_LEAD_HOURS: Record<AccuracyInterval, { min: number; max: number }> = {
+  '24h': { min: 1, max: 24 },
+  '48h': { min: 25, max: 48 },
+  '5d': { min: 49, max: ACCURACY_MAX_FORECAST_HOURS },
+};
+
+
+// Event thresholds for the categorical (yes/no) verification of precipitation.
+export const CATEGORICAL_THRESHOLDS: CategoricalThreshold[] = [
+  { key: 'rain_0.2mm_1h', metricKey: 'rain', label: 'Rain ≥ 0.2 mm/h', threshold: 0.2, windowHours: 1 },
+  { key: 'snowfall_1cm_6h', metricKey: 'snowfall', label: 'Snow ≥ 1 cm / 6h', threshold: 1, windowHours: 6 },
+];
 
 // Base parameter sets for models on the main forecast endpoint.
 const PARAMS_FULL = ['temperature_2m', 'precipitation', 'rain', 'snowfall', 'wind_speed_10m', 'wind_direction_10m', 'wind_gusts_10m', 'cloud_cover', 'visibility'];
@@ -68,32 +110,47 @@ const PARAMS_HRDPS_RDPS = ['temperature_2m', 'rain', 'snowfall', 'windspeed_10m'
 const PARAMS_AIFS = ['temperature_2m', 'rain', 'snowfall', 'wind_speed_10m', 'wind_direction_10m', 'windgusts_10m', 'cloud_cover'];
 const PARAMS_ECMWF_IFS = ['temperature_2m', 'precipitation', 'rain', 'snowfall', 'windspeed_10m', 'winddirection_10m', 'windgusts_10m', 'cloudcover'];
 
+// The ensemble endpoint returns every member for each variable (e.g. 'temperature_2m_member01').
+const PARAMS_ENSEMBLE = PARAMS_NO_VISIBILITY;
+
 
+export const OPEN_METEO_PROVIDER_ID = 'open-meteo';
+
+const openMeteo = (endpoint: OpenMeteoEndpoint): ModelProviderRef => ({ providerId: OPEN_METEO_PROVIDER_ID, endpoint });
+
+// Run cadence (runIntervalHours / runAvailabilityDelayHours) is the fallback schedule used to
+// infer a model's latest cycle when its Open-Meteo metadata endpoint cannot be reached.
 export const MODELS: Model[] = [
   // FORECAST ENDPOINT
-  { key: 'icon_global', name: 'ICON Global 7km', apiName: 'icon_global', endpoint: 'forecast', category: 'Global', params: PARAMS_WITH_VISIBILITY, enabled: true },
-  { key: 'jma_gsm', name: 'JMA GSM 20km', apiName: 'jma_gsm', endpoint: 'forecast', category: 'Global', params: PARAMS_NO_VISIBILITY, enabled: true },
-  { key: 'cma_grapes_global', name: 'CMA Grapes 12km', apiName: 'cma_grapes_global', endpoint: 'forecast', category: 'Global', params: PARAMS_NO_VISIBILITY, enabled: true },
+  { key: 'icon_global', name: 'ICON Global 7km', apiName: 'icon_global', provider: openMeteo('forecast'), category: 'Global', params: PARAMS_WITH_VISIBILITY, resolution: '7 km', coverage: 'Global', enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 4, metadataName: 'dwd_icon' },
+  { key: 'jma_gsm', name: 'JMA GSM 20km', apiName: 'jma_gsm', provider: openMeteo('forecast'), category: 'Global', params: PARAMS_NO_VISIBILITY, resolution: '20 km', coverage: 'Global', enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 6, metadataName: 'jma_gsm' },
+  { key: 'cma_grapes_global', name: 'CMA Grapes 12km', apiName: 'cma_grapes_global', provider: openMeteo('forecast'), category: 'Global', params: PARAMS_NO_VISIBILITY, resolution: '12 km', coverage: 'Global', enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 9, metadataName: 'cma_grapes_global' },
   
   // DEDICATED DOMAIN ENDPOINTS
-  { key: 'arpege_world', name: 'ARPEGE World 11km', apiName: 'arpege-world', endpoint: 'meteofrance', category: 'Global', params: PARAMS_WITH_VISIBILITY, enabled: true },
-  { key: 'bom_access_global', name: 'ACCESS-G 12km', apiName: 'access-g', endpoint: 'bom', category: 'Global', params: PARAMS_NO_VISIBILITY, enabled: true },
-  { key: 'bom_access_g2', name: 'BOM ACCESS-G 17km', apiName: 'access-g2', endpoint: 'bom', category: 'Global', params: PARAMS_BOM_ACCESS_G2, enabled: true },
+  { key: 'arpege_world', name: 'ARPEGE World 11km', apiName: 'arpege-world', provider: openMeteo('meteofrance'), category: 'Global', params: PARAMS_WITH_VISIBILITY, resolution: '11 km', coverage: 'Global', enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 4, metadataName: 'meteofrance_arpege_world025' },
+  { key: 'bom_access_global', name: 'ACCESS-G 12km', apiName: 'access-g', provider: openMeteo('bom'), category: 'Global', params: PARAMS_NO_VISIBILITY, resolution: '12 km', coverage: 'Global', enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 7, metadataName: 'bom_access_global' },
+  { key: 'bom_access_g2', name: 'BOM ACCESS-G 17km', apiName: 'access-g2', provider: openMeteo('bom'), category: 'Global', params: PARAMS_BOM_ACCESS_G2, resolution: '17 km', coverage: 'Global', enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 7 },
 
   // GFS ENDPOINT
-  { key: 'gfs_global', name: 'GFS 11km', apiName: 'gfs_global', endpoint: 'gfs', category: 'Global', params: PARAMS_FULL, enabled: true },
-  { key: 'gfs_graphcast025', name: 'GFS GraphCast 25km', apiName: 'gfs_graphcast025', endpoint: 'gfs', category: 'Global', params: PARAMS_LIMITED, enabled: true },
-  { key: 'nam_conus', name: 'NAM Conus 5km', apiName: 'nam_conus', endpoint: 'gfs', category: 'North American Regional', params: PARAMS_FULL, forecastDays: 3, enabled: true },
-  { key: 'hrrr_subhourly', name: 'HRRR Conus 3km', apiName: 'hrrr_subhourly', endpoint: 'gfs', category: 'North American Regional', params: PARAMS_FULL, forecastDays: 2, enabled: true },
+  { key: 'gfs_global', name: 'GFS 11km', apiName: 'gfs_global', provider: openMeteo('gfs'), category: 'Global', params: PARAMS_FULL, resolution: '11 km', coverage: 'Global', enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 4, metadataName: 'ncep_gfs013' },
+  { key: 'gfs_graphcast025', name: 'GFS GraphCast 25km', apiName: 'gfs_graphcast025', provider: openMeteo('gfs'), category: 'Global', params: PARAMS_LIMITED, resolution: '25 km', coverage: 'Global', enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 5, metadataName: 'ncep_gfs_graphcast025' },
+  { key: 'nam_conus', name: 'NAM Conus 5km', apiName: 'nam_conus', provider: openMeteo('gfs'), category: 'North American Regional', params: PARAMS_FULL, resolution: '5 km', coverage: 'Contiguous US', forecastDays: 3, enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 2, metadataName: 'ncep_nam_conus' },
+  { key: 'hrrr_subhourly', name: 'HRRR Conus 3km', apiName: 'hrrr_subhourly', provider: openMeteo('gfs'), category: 'North American Regional', params: PARAMS_FULL, resolution: '3 km', coverage: 'Contiguous US', forecastDays: 2, enabled: true, runIntervalHours: 1, runAvailabilityDelayHours: 1, metadataName: 'ncep_hrrr_conus_15min' },
   
   // GEM ENDPOINT
-  { key: 'gem_global', name: 'GEM Global 15km (GDPS)', apiName: 'global', endpoint: 'gem', category: 'Canadian', params: PARAMS_HRDPS_RDPS, enabled: true },
-  { key: 'hrdps_continental', name: 'HRDPS Continental 2.5km', apiName: 'hrdps_continental', endpoint: 'gem', category: 'North American Regional', params: PARAMS_HRDPS_RDPS, forecastDays: 2, enabled: true },
-  { key: 'gem_regional', name: 'GEM Regional 10km (RDPS)', apiName: 'regional', endpoint: 'gem', category: 'Canadian', params: PARAMS_HRDPS_RDPS, enabled: true },
+  { key: 'gem_global', name: 'GEM Global 15km (GDPS)', apiName: 'global', provider: openMeteo('gem'), category: 'Canadian', params: PARAMS_HRDPS_RDPS, resolution: '15 km', coverage: 'Global', enabled: true, runIntervalHours: 12, runAvailabilityDelayHours: 5, metadataName: 'cmc_gem_gdps' },
+  { key: 'hrdps_continental', name: 'HRDPS Continental 2.5km', apiName: 'hrdps_continental', provider: openMeteo('gem'), category: 'North American Regional', params: PARAMS_HRDPS_RDPS, resolution: '2.5 km', coverage: 'Canada and northern US', forecastDays: 2, enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 4, metadataName: 'cmc_gem_hrdps' },
+  { key: 'gem_regional', name: 'GEM Regional 10km (RDPS)', apiName: 'regional', provider: openMeteo('gem'), category: 'Canadian', params: PARAMS_HRDPS_RDPS, resolution: '10 km', coverage: 'North America', enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 4, metadataName: 'cmc_gem_rdps' },
   
   // ECMWF ENDPOINT
-  { key: 'ecmwf_ifs', name: 'ECMWF IFS 9km', apiName: 'ecmwf_ifs', endpoint: 'ecmwf', category: 'Global', params: PARAMS_ECMWF_IFS, enabled: true },
-  { key: 'aifs025', name: 'AIFS 25km', apiName: 'aifs025', endpoint: 'ecmwf', category: 'Global', params: PARAMS_AIFS, enabled: true },
+  { key: 'ecmwf_ifs', name: 'ECMWF IFS 9km', apiName: 'ecmwf_ifs', provider: openMeteo('ecmwf'), category: 'Global', params: PARAMS_ECMWF_IFS, resolution: '9 km', coverage: 'Global', enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 7, metadataName: 'ecmwf_ifs' },
+  { key: 'aifs025', name: 'AIFS 25km', apiName: 'aifs025', provider: openMeteo('ecmwf'), category: 'Global', params: PARAMS_AIFS, resolution: '25 km', coverage: 'Global', enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 7, metadataName: 'ecmwf_aifs025_single' },
+
+  // ENSEMBLE ENDPOINT (run schedule only; ensemble metadata is not published alongside the deterministic models)
+  { key: 'gefs', name: 'GEFS Ensemble 25km', apiName: 'gfs025', provider: openMeteo('ensemble'), category: 'Ensemble', params: PARAMS_ENSEMBLE, resolution: '25 km', coverage: 'Global', forecastDays: 7, enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 6 },
+  { key: 'ecmwf_ens', name: 'ECMWF ENS 25km', apiName: 'ecmwf_ifs025', provider: openMeteo('ensemble'), category: 'Ensemble', params: PARAMS_ENSEMBLE, resolution: '25 km', coverage: 'Global', forecastDays: 7, enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 8 },
+  { key: 'gem_geps', name: 'GEM Ensemble (GEPS)', apiName: 'gem_global', provider: openMeteo('ensemble'), category: 'Ensemble', params: PARAMS_ENSEMBLE, resolution: '25 km', coverage: 'Global', forecastDays: 7, enabled: true, runIntervalHours: 12, runAvailabilityDelayHours: 7 },
+  { key: 'icon_eps', name: 'ICON-EPS Global', apiName: 'icon_global', provider: openMeteo('ensemble'), category: 'Ensemble', params: PARAMS_ENSEMBLE, resolution: '26 km', coverage: 'Global', forecastDays: 7, enabled: true, runIntervalHours: 6, runAvailabilityDelayHours: 5 },
 
   // Derived Models
   { key: 'median_model', name: 'Median of Models', apiName: 'median_model', category: 'Derived', params: [] },
@@ -111,10 +168,53 @@ export const METRICS: Metric[] = [
     { key: 'visibility', label: 'Visibility', unit: 'mi' },
 ];
 
+// The compare view plots this many places at most, over the same window as the 36-hour forecast.
+export const COMPARE_MAX_LOCATIONS = 6;
+export const COMPARE_WINDOW_HOURS = 36;
+
 // Define which metrics are eligible for accuracy tracking.
 // The 'overview' metric is a composite view and not a single data point, so it is excluded.
 export const TRACKABLE_METRICS: Metric[] = METRICS.filter(m => m.key !== 'overview');
 
+// Super Ensemble weighting: a model needs this many verified hours in a lead-time bucket to be
+// ranked, and scores are only borrowed from an accuracy site within this distance.
+export const SUPER_ENSEMBLE_MIN_HOURS = 24;
+export const SUPER_ENSEMBLE_MAX_SITE_DISTANCE_KM = 250;
+
+// Derived models are built on the union of every model's timestamps. Instantaneous variables are
+// interpolated across gaps up to this long (3-hourly output); the median fades below the model count.
+export const TIME_AXIS_MAX_INTERPOLATION_HOURS = 3;
+export const DERIVED_MIN_CONFIDENT_MODELS = 3;
+
+// Model agreement from the interquartile range of the models behind a derived value, in display
+// units: at or below `high` the models agree closely, above `moderate` they disagree.
+export const MODEL_AGREEMENT_IQR: { [metricKey: string]: { high: number; moderate: number } } = {
+  temperature_2m: { high: 1.5, moderate: 3 },
+  precipitation: { high: 0.5, moderate: 2 },
+  rain: { high: 0.5, moderate: 2 },
+  snowfall: { high: 0.5, moderate: 2 },
+  wind_speed_10m: { high: 3, moderate: 7 },
+  wind_gusts_10m: { high: 5, moderate: 10 },
+  cloud_cover: { high: 15, moderate: 35 },
+  visibility: { high: 1, moderate: 3 },
+};
+
+// MOS-style correction. Precipitation is left raw: its errors are not additive, so a bias shift
+// would invent drizzle in dry hours.
+export const MOS_CORRECTED_METRICS = ['temperature_2m', 'wind_speed_10m', 'wind_gusts_10m', 'cloud_cover', 'visibility'];
+export const MOS_MIN_SAMPLES = 24; // Per model, metric and lead-time bucket before any correction is applied
+export const MOS_MIN_REGRESSION_SAMPLES = 72; // Below this only the mean bias is removed
+export const MOS_MIN_HOUR_BIN_SAMPLES = 12;
+export const MOS_HOUR_BIN_HOURS = 3;
+export const MOS_MAX_SITE_DISTANCE_KM = 250;
+
+// Events whose probability is counted across ensemble members. Values are in API units (mm per hour, °C).
+export const ENSEMBLE_EXCEEDANCE_THRESHOLDS: EnsembleExceedanceThreshold[] = [
+    { id: 'precipitation_0.2mm', variable: 'precipitation', direction: 'above', value: 0.2 },
+    { id: 'precipitation_2mm', variable: 'precipitation', direction: 'above', value: 2 },
+    { id: 'freezing', variable: 'temperature_2m', direction: 'below', value: 0 },
+];
+
 export const MODEL_COLORS: { [key:string]: string } = {
   // Canadian
   gem_global: '#3498db',
@@ -134,6 +234,11 @@ export const MODEL_COLORS: { [key:string]: string } = {
   bom_access_g2: '#d35400',
   jma_gsm: '#ff69b4',
   cma_grapes_global: '#e74c3c',
+  // Ensemble
+  gefs: '#f7dc6f',
+  ecmwf_ens: '#5dade2',
+  gem_geps: '#85c1e9',
+  icon_eps: '#82e0aa',
   // Derived
   median_model: '#fafafa', // White
   super_ensemble: '#f39c12',
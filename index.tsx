@@ -2,15 +2,29 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { UnitsProvider } from './components/UnitsContext';
+import { parseUrlState } from './utils/urlState';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Units in a shared link apply to this visit without replacing the saved preference.
+const initialUrlState = parseUrlState(window.location.hash);
+
+// The worker serves the app shell offline; forecasts come from the IndexedDB cache in the services.
+if ('serviceWorker' in navigator) {
+  navigator.serviceWorker.register('/sw.js').catch(error => {
+    console.error('[Offline] Service worker registration failed:', error);
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <UnitsProvider initialPreferences={initialUrlState.units}>
+      <App />
+    </UnitsProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,64 @@
+// Service worker for offline use. It only keeps the app shell and its CDN dependencies; forecast
+// data is cached in IndexedDB by forecastCacheService, so API requests pass straight through.
+
+const CACHE_NAME = 'climatus-shell-v1';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Versioned CDN modules from the import map and the Tailwind runtime.
+const CDN_HOSTS = ['aistudiocdn.com', 'cdn.tailwindcss.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = async (request, response) => {
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Same-origin files change on every deploy and the entry script is cache-busted with ?v=, so the
+// network wins whenever it answers and the query is ignored when falling back.
+const networkFirst = async (request, fallbackUrl) => {
+  try {
+    return await putInCache(request, await fetch(request));
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreSearch: true }) ?? (fallbackUrl && await caches.match(fallbackUrl));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cached = await caches.match(request);
+  const refresh = fetch(request).then(response => putInCache(request, response));
+  if (cached) {
+    refresh.catch(() => undefined);
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/index.html'));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  } else if (CDN_HOSTS.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`))) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
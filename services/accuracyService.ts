@@ -1,7 +1,11 @@
-import { initDB, getDuePendingForecasts, addPendingForecasts, addActualWeather, getLatestActualWeatherTime, clearOldData, getActualsForLocationAndTimeRange, applyAccuracyUpdatesAndDelete, getLease, setLease, areAccuracyStoresEmpty, getState, setState } from './dbService';
-import { fetchPastWeather, fetchRawModelRunsForAccuracy } from './openMeteoService';
-import { ACCURACY_LOCATIONS, LAST_ACCURACY_CHECK_KEY, MODELS, TRACKABLE_METRICS, ACCURACY_FIRST_RUN_KEY, ACCURACY_MAX_FORECAST_HOURS, ACCURACY_STALE_FORECAST_HOURS } from '../constants';
-import { PendingForecast, AccuracyInterval, ActualWeatherRecord, HistoricalForecastRecord, OpenMeteoModelResponse } from '../types';
+import { initDB, getDuePendingForecasts, getHistoricalForecastsForLocation, upsertPendingForecasts, addActualWeather, getLatestActualWeatherTime, clearOldData, getActualsForLocationAndTimeRange, applyAccuracyUpdatesAndDelete, getLease, setLease, areAccuracyStoresEmpty, getState, setState, replaceCategoricalScores, getAccuracySites, getMosCorrections, replaceMosCorrections } from './dbService';
+import { fetchRawModelRunsForAccuracy, getModelsForLocation } from './openMeteoService';
+import { fetchObservationsForSite } from './observationService';
+import { resolveModelRuns, calculateLeadTimeHours } from './modelRunService';
+import { LAST_ACCURACY_CHECK_KEY, MODELS, TRACKABLE_METRICS, ACCURACY_FIRST_RUN_KEY, ACCURACY_MAX_FORECAST_HOURS, ACCURACY_STALE_FORECAST_HOURS, ACCURACY_INGESTED_RUNS_KEY, ACCURACY_INTERVAL_LEAD_HOURS, LEAD_TIME_BIN_HOURS, CATEGORICAL_THRESHOLDS } from '../constants';
+import { PendingForecast, AccuracySite, AccuracyInterval, AccuracyScoreData, AccuracyScoreUpdate, ActualWeatherRecord, CategoricalScore, ContingencyTable, ErrorAccumulator, HistoricalForecastRecord, LeadTimeErrorCurve, MosCorrection, OpenMeteoModelResponse } from '../types';
+import { addContingencyOutcome, addErrorSample, createContingencyTable, createErrorAccumulator, getAccuracyIntervalForLeadTime, mergeErrorAccumulators, sampleFromHistoricalRecord, summarizeContingencyTable, summarizeErrorAccumulator } from '../utils/accuracyStats';
+import { correctForecastValue, fitMosCorrections } from '../utils/mos';
 
 // Do not score forecasts with lead time < 1h to avoid initialization bias.
 // Warm-up period MUST remain 1h; changing this affects all accuracy metrics.
@@ -14,9 +18,9 @@ let leaseInterval: number | null = null;
 let isLeader = false;
 
 
-const syncActualWeather = async () => {
-    console.log(`[Accuracy] Syncing actual weather for ${ACCURACY_LOCATIONS.length} locations...`);
-    for (const location of ACCURACY_LOCATIONS) {
+const syncActualWeather = async (sites: AccuracySite[]) => {
+    console.log(`[Accuracy] Syncing actual weather for ${sites.length} locations...`);
+    for (const location of sites) {
         try {
             const latestTimeStr = await getLatestActualWeatherTime(location.id);
             const now = new Date();
@@ -39,27 +43,10 @@ const syncActualWeather = async () => {
                 continue;
             }
             
-            const daysToFetch = Math.ceil((endTime.getTime() - startTime.getTime()) / (24 * 3600 * 1000));
-            if (daysToFetch <= 0) continue;
-
-            const records = await fetchPastWeather(location.latitude, location.longitude, daysToFetch);
-            
-            const recordsToAdd = records.filter(r => r.time && new Date(r.time).getTime() >= startTime.getTime());
+            const recordsToAdd = await fetchObservationsForSite(location, startTime, endTime);
 
             for (const record of recordsToAdd) {
-                // FIX: The `record` from fetchPastWeather is Partial<...>, but `addActualWeather` expects a full object.
-                // We construct the object manually, providing `null` defaults for any missing metrics to satisfy the type.
-                await addActualWeather({
-                    locationId: location.id,
-                    time: record.time!,
-                    temperature_2m: record.temperature_2m ?? null,
-                    rain: record.rain ?? null,
-                    snowfall: record.snowfall ?? null,
-                    wind_speed_10m: record.wind_speed_10m ?? null,
-                    wind_gusts_10m: record.wind_gusts_10m ?? null,
-                    cloud_cover: record.cloud_cover ?? null,
-                    visibility: record.visibility ?? null,
-                });
+                await addActualWeather({ ...record, locationId: location.id });
             }
             console.log(`[Accuracy] Synced ${recordsToAdd.length} new actual weather records for ${location.name}.`);
 
@@ -70,17 +57,50 @@ const syncActualWeather = async () => {
 };
 
 
-const storeFutureForecasts = async () => {
+const loadIngestedRuns = async (): Promise<Record<string, string>> => {
+    const raw = await getState(ACCURACY_INGESTED_RUNS_KEY);
+    if (!raw) return {};
+    try {
+        return JSON.parse(raw);
+    } catch {
+        console.warn('[Accuracy] Ignoring unreadable ingested-run state.');
+        return {};
+    }
+};
+
+const storeFutureForecasts = async (sites: AccuracySite[]) => {
     console.log('[Accuracy] Storing future forecasts for all locations...');
-    for (const location of ACCURACY_LOCATIONS) {
+    const ingestedRuns = await loadIngestedRuns();
+    // Corrections are applied at ingestion, before the outcome is known, so verifying them later is out-of-sample.
+    const mosCorrections = await getMosCorrections();
+
+    for (const location of sites) {
         try {
-            const { successes } = await fetchRawModelRunsForAccuracy(location.latitude, location.longitude);
+            const candidateKeys = getModelsForLocation(location.latitude, location.longitude, 'tracking').map(m => m.key);
+            const modelRuns = await resolveModelRuns(candidateKeys);
+
+            // Only fetch models that have published a run we have not ingested yet for this location.
+            const changedKeys = candidateKeys.filter(key => {
+                const run = modelRuns.get(key);
+                return run && ingestedRuns[`${location.id}:${key}`] !== run.runInitTime;
+            });
+            const unchangedCount = candidateKeys.length - changedKeys.length;
+            if (unchangedCount > 0) {
+                console.log(`[Accuracy] Skipping ${unchangedCount} models with unchanged runs for ${location.name}.`);
+            }
+            if (changedKeys.length === 0) continue;
+
+            const { successes } = await fetchRawModelRunsForAccuracy(location.latitude, location.longitude, changedKeys);
             const forecastsToAdd: Omit<PendingForecast, 'id'>[] = [];
+            const ingestedThisPoll: string[] = [];
 
             for (const result of successes) {
-                const generationTime = new Date(result.generationtime_ms);
                 const modelKey = result.model;
-                if (!result.hourly?.time) continue;
+                const run = modelRuns.get(modelKey);
+                if (!result.hourly?.time || !run) continue;
+                console.log(`[Accuracy] ${modelKey} run initialized at ${run.runInitTime} (from ${run.source}).`);
+                ingestedThisPoll.push(modelKey);
+                const mosCorrection = mosCorrections.find(c => c.locationId === location.id && c.modelKey === modelKey);
                 
                 for (let i = 0; i < result.hourly.time.length; i++) {
                     const targetTime = new Date(result.hourly.time[i] + 'Z');
@@ -89,7 +109,7 @@ const storeFutureForecasts = async () => {
                         continue; 
                     }
 
-                    const forecastLeadTimeHours = Math.round((targetTime.getTime() - generationTime.getTime()) / 3600000);
+                    const forecastLeadTimeHours = calculateLeadTimeHours(run.runInitTime, targetTime.toISOString());
                     
                     if (forecastLeadTimeHours < ACCURACY_FORECAST_START_HOUR) {
                         continue;
@@ -107,6 +127,8 @@ const storeFutureForecasts = async () => {
                                     targetTime: targetTime.toISOString(),
                                     forecastedValue: value,
                                     forecastLeadTimeHours,
+                                    runInitTime: run.runInitTime,
+                                    correctedValue: correctForecastValue(mosCorrection, metric.key, value, targetTime, forecastLeadTimeHours),
                                 });
                             }
                         }
@@ -114,16 +136,27 @@ const storeFutureForecasts = async () => {
                 }
             }
             if (forecastsToAdd.length > 0) {
-                await addPendingForecasts(forecastsToAdd);
-                console.log(`[Accuracy] Stored ${forecastsToAdd.length} new pending forecast points for ${location.name}.`);
+                const { inserted, updated } = await upsertPendingForecasts(forecastsToAdd);
+                console.log(`[Accuracy] Stored ${inserted} new and refreshed ${updated} pending forecast points for ${location.name}.`);
+            }
+            for (const modelKey of ingestedThisPoll) {
+                ingestedRuns[`${location.id}:${modelKey}`] = modelRuns.get(modelKey)!.runInitTime;
             }
+            await setState(ACCURACY_INGESTED_RUNS_KEY, JSON.stringify(ingestedRuns));
         } catch (err) {
             console.error(`[Accuracy] Failed to store future forecasts for ${location.name}:`, err);
         }
     }
 };
 
-const processPastForecasts = async () => {
+const median = (values: number[]): number | null => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const processPastForecasts = async (sites: AccuracySite[]) => {
     console.log('[Accuracy] Processing past due forecasts...');
     const now = new Date();
     const cutoff = new Date(now.getTime() - 3600 * 1000);
@@ -135,7 +168,7 @@ const processPastForecasts = async () => {
     }
 
     console.log(`[Accuracy] Found ${dueForecasts.length} forecasts to process.`);
-    const updates = [];
+    const updates: AccuracyScoreUpdate[] = [];
     const historicalRecordsToAdd: Omit<HistoricalForecastRecord, 'id'>[] = [];
     const idsToDelete = dueForecasts.map(f => f.id!);
 
@@ -146,40 +179,60 @@ const processPastForecasts = async () => {
 
     for (const locationIdStr in forecastsByLocation) {
         const locationId = parseInt(locationIdStr, 10);
-        const locationForecasts = forecastsByLocation[locationId];
-        const location = ACCURACY_LOCATIONS.find(l => l.id === locationId);
-        if (!location) continue;
-
-        const minTime = locationForecasts.reduce((min, f) => f.targetTime < min ? f.targetTime : min, locationForecasts[0].targetTime);
+        // Rows without a run time predate run tracking; their lead times cannot be trusted.
+        const locationForecasts = forecastsByLocation[locationId]
+            .filter(f => f.runInitTime && f.forecastLeadTimeHours >= ACCURACY_FORECAST_START_HOUR);
+        // Forecasts for a site removed without purging its data are left to expire.
+        const location = sites.find(l => l.id === locationId);
+        if (!location || locationForecasts.length === 0) continue;
+
+        // Persistence needs the observation at each run's initialization, so reach back to the oldest run.
+        const minTime = locationForecasts.reduce((min, f) => f.runInitTime < min ? f.runInitTime : min, locationForecasts[0].runInitTime);
         const maxTime = locationForecasts.reduce((max, f) => f.targetTime > max ? f.targetTime : max, locationForecasts[0].targetTime);
         
         const actuals = await getActualsForLocationAndTimeRange(locationId, minTime, maxTime);
         const actualsMap = new Map(actuals.map(a => [a.time, a]));
-
+        const actualValueAt = (time: string, metricKey: string): number | null => {
+            const value = actualsMap.get(time)?.[metricKey as keyof ActualWeatherRecord];
+            return typeof value === 'number' && isFinite(value) ? value : null;
+        };
+
+        // The median reference is taken across every deterministic model's forecast for the same hour
+        // and bucket, matching the displayed Median of Models. Each model contributes only its latest
+        // run, so hourly-updating models do not outvote the rest.
+        const medianGroups = new Map<string, Map<string, PendingForecast>>();
+        const medianGroupKey = (f: PendingForecast) => `${f.metricKey}|${f.targetTime}|${getAccuracyIntervalForLeadTime(f.forecastLeadTimeHours)}`;
         for (const forecast of locationForecasts) {
-            if (forecast.forecastLeadTimeHours < ACCURACY_FORECAST_START_HOUR) {
-                continue;
-            }
-
-            const actual = actualsMap.get(forecast.targetTime);
-            if (!actual) continue;
+            if (MODELS.find(m => m.key === forecast.modelKey)?.category === 'Ensemble') continue;
+            const group = medianGroups.get(medianGroupKey(forecast)) ?? new Map<string, PendingForecast>();
+            const latest = group.get(forecast.modelKey);
+            if (!latest || forecast.runInitTime > latest.runInitTime) group.set(forecast.modelKey, forecast);
+            medianGroups.set(medianGroupKey(forecast), group);
+        }
+        const medianFor = (f: PendingForecast) =>
+            median([...(medianGroups.get(medianGroupKey(f))?.values() ?? [])].map(g => g.forecastedValue));
 
-            const actualValue = actual[forecast.metricKey as keyof ActualWeatherRecord];
-            if (typeof actualValue !== 'number' || !isFinite(actualValue)) continue;
+        for (const forecast of locationForecasts) {
+            const actualValue = actualValueAt(forecast.targetTime, forecast.metricKey);
+            if (actualValue === null) continue;
             
-            const error = Math.abs(forecast.forecastedValue - actualValue);
-            let interval: AccuracyInterval;
-            if (forecast.forecastLeadTimeHours <= 24) interval = '24h';
-            else if (forecast.forecastLeadTimeHours <= 48) interval = '48h';
-            else interval = '5d';
+            const signedError = forecast.forecastedValue - actualValue;
+            const error = Math.abs(signedError);
+            const interval = getAccuracyIntervalForLeadTime(forecast.forecastLeadTimeHours);
+            const persistenceValue = actualValueAt(forecast.runInitTime, forecast.metricKey);
+            const medianValue = medianFor(forecast);
 
             updates.push({
                 locationId,
                 locationName: location.name,
                 modelKey: forecast.modelKey,
                 metricKey: forecast.metricKey,
-                error,
                 interval,
+                sample: {
+                    signedError,
+                    persistenceError: persistenceValue !== null ? persistenceValue - actualValue : null,
+                    medianError: medianValue !== null ? medianValue - actualValue : null,
+                },
             });
             
             historicalRecordsToAdd.push({
@@ -188,9 +241,14 @@ const processPastForecasts = async () => {
                 metricKey: forecast.metricKey,
                 targetTime: forecast.targetTime,
                 forecastLeadTimeHours: forecast.forecastLeadTimeHours,
+                runInitTime: forecast.runInitTime,
                 forecastedValue: forecast.forecastedValue,
+                correctedValue: forecast.correctedValue ?? null,
                 actualValue,
                 error,
+                signedError,
+                persistenceValue,
+                medianValue,
             });
         }
     }
@@ -201,6 +259,149 @@ const processPastForecasts = async () => {
     }
 };
 
+/**
+ * Aggregates verified forecasts into error-vs-lead-time curves, one per model. Bins are
+ * (start, end] in hours so that bucket boundaries at 24h and 48h fall on bin edges.
+ */
+export const computeLeadTimeErrorCurves = async (
+    locationId: number,
+    metricKey: string,
+    binHours: number = LEAD_TIME_BIN_HOURS,
+    maxLeadHours: number = ACCURACY_MAX_FORECAST_HOURS
+): Promise<LeadTimeErrorCurve[]> => {
+    const records = await getHistoricalForecastsForLocation(locationId);
+    const binCount = Math.ceil(maxLeadHours / binHours);
+    const binsByModel = new Map<string, ErrorAccumulator[]>();
+
+    for (const record of records) {
+        if (record.metricKey !== metricKey || record.legacyLeadTime) continue;
+        const lead = record.forecastLeadTimeHours;
+        if (lead < ACCURACY_FORECAST_START_HOUR || lead > maxLeadHours) continue;
+
+        let bins = binsByModel.get(record.modelKey);
+        if (!bins) {
+            bins = Array.from({ length: binCount }, createErrorAccumulator);
+            binsByModel.set(record.modelKey, bins);
+        }
+        addErrorSample(bins[Math.ceil(lead / binHours) - 1], sampleFromHistoricalRecord(record));
+    }
+
+    return Array.from(binsByModel.entries()).map(([modelKey, bins]) => ({
+        locationId,
+        modelKey,
+        metricKey,
+        bins: bins.map((totals, i) => {
+            const summary = summarizeErrorAccumulator(totals);
+            return {
+                leadStartHours: i * binHours,
+                leadEndHours: Math.min((i + 1) * binHours, maxLeadHours),
+                meanAbsoluteError: summary.meanAbsoluteError,
+                meanBias: summary.meanBias,
+                count: totals.count,
+                totals,
+            };
+        }),
+    }));
+};
+
+// Collapses a lead-time curve into the leaderboard's 24h/48h/5d buckets.
+export const deriveIntervalScores = (curve: LeadTimeErrorCurve): Record<AccuracyInterval, AccuracyScoreData> => {
+    const intervals = Object.keys(ACCURACY_INTERVAL_LEAD_HOURS) as AccuracyInterval[];
+    const result = {} as Record<AccuracyInterval, AccuracyScoreData>;
+    for (const interval of intervals) {
+        const { min, max } = ACCURACY_INTERVAL_LEAD_HOURS[interval];
+        const totals = createErrorAccumulator();
+        curve.bins
+            .filter(b => b.leadEndHours >= min && b.leadEndHours <= max)
+            .forEach(b => mergeErrorAccumulators(totals, b.totals));
+        result[interval] = summarizeErrorAccumulator(totals);
+    }
+    return result;
+};
+
+/**
+ * Scores yes/no event forecasts for each configured threshold. Hourly values are summed over
+ * windows aligned to 00Z that end on the hour (e.g. 01Z-06Z for a 6h window ending 06Z); a window
+ * is only scored when every hour in it came from the same run, and is bucketed by its final lead time.
+ */
+export const computeCategoricalScores = async (locationId: number, locationName: string): Promise<CategoricalScore[]> => {
+    const records = await getHistoricalForecastsForLocation(locationId);
+    const intervals = Object.keys(ACCURACY_INTERVAL_LEAD_HOURS) as AccuracyInterval[];
+    const tablesByModel = new Map<string, Record<string, Record<AccuracyInterval, ContingencyTable>>>();
+
+    for (const threshold of CATEGORICAL_THRESHOLDS) {
+        const windowMs = threshold.windowHours * 3600 * 1000;
+        const windows = new Map<string, { modelKey: string; hours: number; forecastSum: number; actualSum: number; maxLead: number }>();
+
+        for (const record of records) {
+            if (record.metricKey !== threshold.metricKey || record.legacyLeadTime || !record.runInitTime) continue;
+            const windowEnd = Math.ceil(new Date(record.targetTime).getTime() / windowMs) * windowMs;
+            const key = `${record.modelKey}|${record.runInitTime}|${windowEnd}`;
+            const window = windows.get(key) ?? { modelKey: record.modelKey, hours: 0, forecastSum: 0, actualSum: 0, maxLead: 0 };
+            window.hours++;
+            window.forecastSum += record.forecastedValue;
+            window.actualSum += record.actualValue;
+            window.maxLead = Math.max(window.maxLead, record.forecastLeadTimeHours);
+            windows.set(key, window);
+        }
+
+        windows.forEach(window => {
+            if (window.hours !== threshold.windowHours) return;
+            let tables = tablesByModel.get(window.modelKey);
+            if (!tables) {
+                tables = {};
+                tablesByModel.set(window.modelKey, tables);
+            }
+            if (!tables[threshold.key]) {
+                tables[threshold.key] = Object.fromEntries(intervals.map(i => [i, createContingencyTable()])) as Record<AccuracyInterval, ContingencyTable>;
+            }
+            addContingencyOutcome(
+                tables[threshold.key][getAccuracyIntervalForLeadTime(window.maxLead)],
+                window.forecastSum >= threshold.threshold,
+                window.actualSum >= threshold.threshold
+            );
+        });
+    }
+
+    return Array.from(tablesByModel.entries()).map(([modelKey, tables]) => ({
+        locationId,
+        locationName,
+        modelKey,
+        modelName: MODELS.find(m => m.key === modelKey)?.name ?? modelKey,
+        scores: Object.fromEntries(Object.entries(tables).map(([thresholdKey, byInterval]) => [
+            thresholdKey,
+            Object.fromEntries(intervals.map(i => [i, summarizeContingencyTable(byInterval[i])])),
+        ])) as CategoricalScore['scores'],
+    }));
+};
+
+const refreshCategoricalScores = async (sites: AccuracySite[]) => {
+    const allScores: CategoricalScore[] = [];
+    for (const location of sites) {
+        try {
+            allScores.push(...await computeCategoricalScores(location.id, location.name));
+        } catch (err) {
+            console.error(`[Accuracy] Failed to compute categorical scores for ${location.name}:`, err);
+        }
+    }
+    await replaceCategoricalScores(allScores);
+    console.log(`[Accuracy] Refreshed categorical scores for ${allScores.length} location/model pairs.`);
+};
+
+const refreshMosCorrections = async (sites: AccuracySite[]) => {
+    const allCorrections: MosCorrection[] = [];
+    for (const location of sites) {
+        try {
+            const records = await getHistoricalForecastsForLocation(location.id);
+            allCorrections.push(...fitMosCorrections(location.id, records));
+        } catch (err) {
+            console.error(`[MOS] Failed to fit corrections for ${location.name}:`, err);
+        }
+    }
+    await replaceMosCorrections(allCorrections);
+    console.log(`[MOS] Refreshed corrections for ${allCorrections.length} location/model pairs.`);
+};
+
 const acquireLease = async (): Promise<boolean> => {
     try {
         const lease = await getLease(LEASE_ID);
@@ -235,11 +436,14 @@ const fullUpdateCycle = async () => {
     console.log('[Accuracy] Starting full update cycle...');
     const startTime = Date.now();
     try {
-        await syncActualWeather();
-        await storeFutureForecasts();
-        await processPastForecasts();
+        const sites = await getAccuracySites();
+        await syncActualWeather(sites);
+        await storeFutureForecasts(sites);
+        await processPastForecasts(sites);
         const staleCutoff = new Date(Date.now() - ACCURACY_STALE_FORECAST_HOURS * 3600 * 1000);
         await clearOldData(staleCutoff);
+        await refreshCategoricalScores(sites);
+        await refreshMosCorrections(sites);
     } catch (err) {
         console.error('[Accuracy] Full update cycle failed:', err);
     } finally {
@@ -1,14 +1,21 @@
-import { AccuracyInterval, AccuracyScore, PendingForecast, ActualWeatherRecord, HistoricalForecastRecord } from '../types';
-import { MODELS } from '../constants';
+import { AccuracyScore, AccuracyScoreData, AccuracyScoreUpdate, AccuracySite, CachedForecastResponse, CategoricalScore, FavoriteLocation, MosCorrection, PendingForecast, ActualWeatherRecord, HistoricalForecastRecord } from '../types';
+import { MODELS, DEFAULT_ACCURACY_SITES, ACCURACY_INGESTED_RUNS_KEY } from '../constants';
+import { addErrorSample, createErrorAccumulator, summarizeErrorAccumulator } from '../utils/accuracyStats';
 
 const DB_NAME = 'ForecastAccuracyDB';
-const DB_VERSION = 17;
+const DB_VERSION = 27;
 const PENDING_FORECASTS_STORE = 'pending_forecasts';
 const ACCURACY_SCORES_STORE = 'accuracy_scores';
+const CATEGORICAL_SCORES_STORE = 'categorical_scores';
+const MOS_CORRECTIONS_STORE = 'mos_corrections';
 const ACTUAL_WEATHER_STORE = 'actual_weather';
 const HISTORICAL_FORECASTS_STORE = 'historical_forecasts';
 const LEADER_LEASE_STORE = 'leader_lease';
 const APP_STATE_STORE = 'app_state';
+const ACCURACY_SITES_STORE = 'accuracy_sites';
+const FAVORITE_LOCATIONS_STORE = 'favorite_locations';
+const FORECAST_CACHE_STORE = 'forecast_cache';
+const PENDING_RUN_INDEX = 'locationModelMetricTargetRunIndex';
 
 let db: IDBDatabase | null = null;
 let dbInitializationPromise: Promise<boolean> | null = null;
@@ -27,6 +34,143 @@ const createDbError = (rawError: DOMException | null, context: string): Error =>
     return error;
 };
 
+// Before v18, lead times were computed from the API's `generationtime_ms` (a processing duration,
+// not a timestamp), so every stored lead time and 24h/48h/5d bucket was wrong. Pending rows and
+// running scores cannot be recomputed without the model run time and are discarded; historical
+// rows are kept for the charts but flagged so they are never mixed with run-based scores.
+const migrateLegacyLeadTimes = (transaction: IDBTransaction) => {
+    console.log('[DB] Migrating legacy lead times: clearing pending forecasts and scores, flagging historical records.');
+    transaction.objectStore(PENDING_FORECASTS_STORE).clear();
+    transaction.objectStore(ACCURACY_SCORES_STORE).clear();
+
+    let flagged = 0;
+    const cursorRequest = transaction.objectStore(HISTORICAL_FORECASTS_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+            console.log(`[DB] Flagged ${flagged} historical records with legacy lead times.`);
+            return;
+        }
+        const record = cursor.value as HistoricalForecastRecord;
+        if (!record.runInitTime) {
+            cursor.update({ ...record, runInitTime: null, legacyLeadTime: true });
+            flagged++;
+        }
+        cursor.continue();
+    };
+};
+
+const forEachRecord = (transaction: IDBTransaction, storeName: string, visit: (cursor: IDBCursorWithValue) => void) => {
+    const cursorRequest = transaction.objectStore(storeName).openCursor();
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        visit(cursor);
+        cursor.continue();
+    };
+};
+
+// Until forecasts were converted from the units the API reports, visibility forecasts were stored
+// in metres against observations in miles, and archive snowfall at a tenth of its value. Rows from
+// before and after that change share a database version and cannot be told apart, so the affected
+// history and corrections are dropped and rebuilt from new data. Their scores are dropped by
+// migrateAccuracyScores.
+const UNIT_CHANGED_METRICS = ['visibility', 'snowfall'];
+
+const purgeMixedUnitHistory = (transaction: IDBTransaction) => {
+    console.log(`[DB] Dropping ${UNIT_CHANGED_METRICS.join(' and ')} history stored in mixed units.`);
+    [PENDING_FORECASTS_STORE, HISTORICAL_FORECASTS_STORE].forEach(storeName => forEachRecord(transaction, storeName, cursor => {
+        if (UNIT_CHANGED_METRICS.includes(cursor.value.metricKey)) cursor.delete();
+    }));
+    forEachRecord(transaction, ACTUAL_WEATHER_STORE, cursor => {
+        const record = cursor.value as ActualWeatherRecord;
+        if (record.snowfall !== null) cursor.update({ ...record, snowfall: null });
+    });
+    forEachRecord(transaction, MOS_CORRECTIONS_STORE, cursor => {
+        const correction = cursor.value as MosCorrection;
+        const corrections = { ...correction.corrections };
+        const verification = { ...correction.verification };
+        UNIT_CHANGED_METRICS.forEach(metricKey => {
+            delete corrections[metricKey];
+            delete verification[metricKey];
+        });
+        cursor.update({ ...correction, corrections, verification });
+    });
+};
+
+// Scores from before running totals were kept have only an MAE and an hour count. The totals are
+// rebuilt from those so the score keeps its weight in the Super Ensemble; the hours are marked as
+// unsigned, so bias, RMSE and spread stay unknown until new samples are scored.
+const seedLegacyScoreTotals = (data: AccuracyScoreData): AccuracyScoreData => {
+    if (data.totals) return data;
+    const totals = createErrorAccumulator();
+    totals.count = data.hoursTracked;
+    totals.unsignedCount = data.hoursTracked;
+    totals.sumAbsError = data.meanAbsoluteError * data.hoursTracked;
+    return summarizeErrorAccumulator(totals);
+};
+
+// Every score change is made in one pass, since two cursors updating the same records in one
+// upgrade would each write back a copy without the other's change.
+const migrateAccuracyScores = (transaction: IDBTransaction, oldVersion: number) => {
+    console.log('[DB] Migrating accuracy scores.');
+    forEachRecord(transaction, ACCURACY_SCORES_STORE, cursor => {
+        const score = cursor.value as AccuracyScore;
+        const scores = { ...score.scores };
+        if (oldVersion < 26) UNIT_CHANGED_METRICS.forEach(metricKey => delete scores[metricKey]);
+        for (const [metricKey, intervals] of Object.entries(scores)) {
+            scores[metricKey] = {
+                '24h': seedLegacyScoreTotals(intervals['24h']),
+                '48h': seedLegacyScoreTotals(intervals['48h']),
+                '5d': seedLegacyScoreTotals(intervals['5d']),
+            };
+        }
+        cursor.update({ ...score, scores });
+    });
+};
+
+// The unique run index cannot be created while duplicates exist, so older databases (where
+// every hourly poll appended the same run again) are de-duplicated first.
+const createPendingRunIndex = (pendingStore: IDBObjectStore) => {
+    const seen = new Set<string>();
+    let removed = 0;
+    const cursorRequest = pendingStore.openCursor();
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+            const forecast = cursor.value as PendingForecast;
+            const key = `${forecast.locationId}|${forecast.modelKey}|${forecast.metricKey}|${forecast.targetTime}|${forecast.runInitTime}`;
+            if (seen.has(key)) {
+                cursor.delete();
+                removed++;
+            } else {
+                seen.add(key);
+            }
+            cursor.continue();
+            return;
+        }
+        if (removed > 0) {
+            console.log(`[DB] Removed ${removed} duplicate pending forecasts before creating run index.`);
+        }
+        console.log(`[DB] Creating index "${PENDING_RUN_INDEX}" on store "${PENDING_FORECASTS_STORE}".`);
+        pendingStore.createIndex(PENDING_RUN_INDEX, ['locationId', 'modelKey', 'metricKey', 'targetTime', 'runInitTime'], { unique: true });
+    };
+};
+
+// Sites seeded before stations were tracked get their ICAO codes, unless the user has since moved them.
+const backfillDefaultSiteStations = (sitesStore: IDBObjectStore) => {
+    DEFAULT_ACCURACY_SITES.filter(site => site.icao).forEach(defaultSite => {
+        const request = sitesStore.get(defaultSite.id);
+        request.onsuccess = () => {
+            const site = request.result as AccuracySite | undefined;
+            if (site && !site.icao && site.latitude === defaultSite.latitude && site.longitude === defaultSite.longitude) {
+                sitesStore.put({ ...site, icao: defaultSite.icao });
+                console.log(`[DB] Linked accuracy site "${site.name}" to station ${defaultSite.icao}.`);
+            }
+        };
+    });
+};
+
 export const initDB = (): Promise<boolean> => {
   if (db) {
     return Promise.resolve(true);
@@ -89,6 +233,18 @@ export const initDB = (): Promise<boolean> => {
           dbInstance.createObjectStore(ACCURACY_SCORES_STORE, { keyPath: ['locationId', 'modelKey'] });
       }
       
+      // CATEGORICAL_SCORES_STORE
+      if (!dbInstance.objectStoreNames.contains(CATEGORICAL_SCORES_STORE)) {
+          console.log(`[DB] Creating object store: ${CATEGORICAL_SCORES_STORE}`);
+          dbInstance.createObjectStore(CATEGORICAL_SCORES_STORE, { keyPath: ['locationId', 'modelKey'] });
+      }
+
+      // MOS_CORRECTIONS_STORE
+      if (!dbInstance.objectStoreNames.contains(MOS_CORRECTIONS_STORE)) {
+          console.log(`[DB] Creating object store: ${MOS_CORRECTIONS_STORE}`);
+          dbInstance.createObjectStore(MOS_CORRECTIONS_STORE, { keyPath: ['locationId', 'modelKey'] });
+      }
+
       // ACTUAL_WEATHER_STORE
       if (!dbInstance.objectStoreNames.contains(ACTUAL_WEATHER_STORE)) {
           console.log(`[DB] Creating object store: ${ACTUAL_WEATHER_STORE}`);
@@ -109,6 +265,28 @@ export const initDB = (): Promise<boolean> => {
           dbInstance.createObjectStore(APP_STATE_STORE, { keyPath: 'key' });
       }
 
+      // ACCURACY_SITES_STORE, seeded with the sites that used to be hard-coded
+      if (!dbInstance.objectStoreNames.contains(ACCURACY_SITES_STORE)) {
+          console.log(`[DB] Creating object store: ${ACCURACY_SITES_STORE}`);
+          const sitesStore = dbInstance.createObjectStore(ACCURACY_SITES_STORE, { keyPath: 'id', autoIncrement: true });
+          const addedAt = new Date().toISOString();
+          DEFAULT_ACCURACY_SITES.forEach(site => sitesStore.put({ ...site, addedAt }));
+      } else if (event.oldVersion < 22) {
+          backfillDefaultSiteStations(transaction.objectStore(ACCURACY_SITES_STORE));
+      }
+
+      // FAVORITE_LOCATIONS_STORE
+      if (!dbInstance.objectStoreNames.contains(FAVORITE_LOCATIONS_STORE)) {
+          console.log(`[DB] Creating object store: ${FAVORITE_LOCATIONS_STORE}`);
+          dbInstance.createObjectStore(FAVORITE_LOCATIONS_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+
+      // FORECAST_CACHE_STORE
+      if (!dbInstance.objectStoreNames.contains(FORECAST_CACHE_STORE)) {
+          console.log(`[DB] Creating object store: ${FORECAST_CACHE_STORE}`);
+          dbInstance.createObjectStore(FORECAST_CACHE_STORE, { keyPath: 'key' });
+      }
+
       // HISTORICAL_FORECASTS_STORE and its new index
       let historicalStore: IDBObjectStore;
       if (!dbInstance.objectStoreNames.contains(HISTORICAL_FORECASTS_STORE)) {
@@ -123,6 +301,21 @@ export const initDB = (): Promise<boolean> => {
           console.log(`[DB] Creating index "targetTimeIndex" on store "${HISTORICAL_FORECASTS_STORE}".`);
           historicalStore.createIndex('targetTimeIndex', 'targetTime', { unique: false });
       }
+
+      if (event.oldVersion > 0 && event.oldVersion < 18) {
+          migrateLegacyLeadTimes(transaction);
+      }
+      if (event.oldVersion > 0 && event.oldVersion < 26) {
+          purgeMixedUnitHistory(transaction);
+      }
+      if (event.oldVersion > 0 && event.oldVersion < 27) {
+          migrateAccuracyScores(transaction, event.oldVersion);
+      }
+
+      const pendingStore = transaction.objectStore(PENDING_FORECASTS_STORE);
+      if (!pendingStore.indexNames.contains(PENDING_RUN_INDEX)) {
+          createPendingRunIndex(pendingStore);
+      }
     };
   });
 };
@@ -149,15 +342,33 @@ export const areAccuracyStoresEmpty = async (): Promise<boolean> => {
     });
 };
 
-export const addPendingForecasts = async (forecasts: Omit<PendingForecast, 'id'>[]): Promise<void> => {
+// Inserts forecasts, replacing any existing row for the same location, model, metric, target
+// time and run so that re-polling an unchanged run never produces a second verification.
+export const upsertPendingForecasts = async (forecasts: Omit<PendingForecast, 'id'>[]): Promise<{ inserted: number; updated: number }> => {
   await initDB();
   return new Promise((resolve, reject) => {
-    if (!db) return reject(new Error("DB connection failed in addPendingForecasts"));
+    if (!db) return reject(new Error("DB connection failed in upsertPendingForecasts"));
     const transaction = db.transaction([PENDING_FORECASTS_STORE], 'readwrite');
     const store = transaction.objectStore(PENDING_FORECASTS_STORE);
-    forecasts.forEach(forecast => store.add(forecast));
-    transaction.oncomplete = () => resolve();
-    transaction.onerror = () => reject(createDbError(transaction.error, 'addPendingForecasts transaction'));
+    const index = store.index(PENDING_RUN_INDEX);
+    let inserted = 0;
+    let updated = 0;
+
+    forecasts.forEach(forecast => {
+      const keyRequest = index.getKey([forecast.locationId, forecast.modelKey, forecast.metricKey, forecast.targetTime, forecast.runInitTime]);
+      keyRequest.onsuccess = () => {
+        if (keyRequest.result === undefined) {
+          store.add(forecast);
+          inserted++;
+        } else {
+          store.put({ ...forecast, id: keyRequest.result });
+          updated++;
+        }
+      };
+    });
+
+    transaction.oncomplete = () => resolve({ inserted, updated });
+    transaction.onerror = () => reject(createDbError(transaction.error, 'upsertPendingForecasts transaction'));
   });
 };
 
@@ -250,6 +461,9 @@ export const getHistoricalForecasts = async (locationId: number, minTime: string
   });
 };
 
+export const getHistoricalForecastsForLocation = async (locationId: number): Promise<HistoricalForecastRecord[]> =>
+  getHistoricalForecasts(locationId, '', '\uffff');
+
 export const getAccuracyScores = async (): Promise<AccuracyScore[]> => {
   await initDB();
   return new Promise((resolve, reject) => {
@@ -262,8 +476,59 @@ export const getAccuracyScores = async (): Promise<AccuracyScore[]> => {
   });
 };
 
+export const getCategoricalScores = async (): Promise<CategoricalScore[]> => {
+  await initDB();
+  return new Promise((resolve, reject) => {
+    if (!db) return reject(new Error("DB connection failed in getCategoricalScores"));
+    const transaction = db.transaction([CATEGORICAL_SCORES_STORE], 'readonly');
+    const store = transaction.objectStore(CATEGORICAL_SCORES_STORE);
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(createDbError(request.error, 'getCategoricalScores request'));
+  });
+};
+
+// Categorical scores are always recomputed in full, so the store is swapped out in one transaction.
+export const replaceCategoricalScores = async (scores: CategoricalScore[]): Promise<void> => {
+  await initDB();
+  return new Promise((resolve, reject) => {
+    if (!db) return reject(new Error("DB connection failed in replaceCategoricalScores"));
+    const tx = db.transaction([CATEGORICAL_SCORES_STORE], 'readwrite');
+    const store = tx.objectStore(CATEGORICAL_SCORES_STORE);
+    store.clear();
+    scores.forEach(score => store.put(score));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(createDbError(tx.error, 'replaceCategoricalScores transaction'));
+  });
+};
+
+export const getMosCorrections = async (): Promise<MosCorrection[]> => {
+  await initDB();
+  return new Promise((resolve, reject) => {
+    if (!db) return reject(new Error("DB connection failed in getMosCorrections"));
+    const transaction = db.transaction([MOS_CORRECTIONS_STORE], 'readonly');
+    const request = transaction.objectStore(MOS_CORRECTIONS_STORE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(createDbError(request.error, 'getMosCorrections request'));
+  });
+};
+
+// Corrections are refit from the full history each cycle, so the store is swapped out in one transaction.
+export const replaceMosCorrections = async (corrections: MosCorrection[]): Promise<void> => {
+  await initDB();
+  return new Promise((resolve, reject) => {
+    if (!db) return reject(new Error("DB connection failed in replaceMosCorrections"));
+    const tx = db.transaction([MOS_CORRECTIONS_STORE], 'readwrite');
+    const store = tx.objectStore(MOS_CORRECTIONS_STORE);
+    store.clear();
+    corrections.forEach(correction => store.put(correction));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(createDbError(tx.error, 'replaceMosCorrections transaction'));
+  });
+};
+
 export const applyAccuracyUpdatesAndDelete = async (
-  updates: Array<{ locationId: number; locationName: string; modelKey: string; metricKey: string; error: number; interval: AccuracyInterval }>,
+  updates: AccuracyScoreUpdate[],
   idsToDelete: number[],
   historicalRecordsToAdd: Omit<HistoricalForecastRecord, 'id'>[]
 ): Promise<void> => {
@@ -310,17 +575,15 @@ export const applyAccuracyUpdatesAndDelete = async (
             }
             if (!score.scores[update.metricKey]) {
                 score.scores[update.metricKey] = {
-                    '24h': { meanAbsoluteError: 0, hoursTracked: 0 },
-                    '48h': { meanAbsoluteError: 0, hoursTracked: 0 },
-                    '5d': { meanAbsoluteError: 0, hoursTracked: 0 },
+                    '24h': summarizeErrorAccumulator(createErrorAccumulator()),
+                    '48h': summarizeErrorAccumulator(createErrorAccumulator()),
+                    '5d': summarizeErrorAccumulator(createErrorAccumulator()),
                 };
             }
 
-            const currentData = score.scores[update.metricKey][update.interval];
-            const newTotalError = currentData.meanAbsoluteError * currentData.hoursTracked + update.error;
-            const newHoursTracked = currentData.hoursTracked + 1;
-            currentData.meanAbsoluteError = newTotalError / newHoursTracked;
-            currentData.hoursTracked = newHoursTracked;
+            const totals = score.scores[update.metricKey][update.interval].totals;
+            addErrorSample(totals, update.sample);
+            score.scores[update.metricKey][update.interval] = summarizeErrorAccumulator(totals);
             
             scoreMap.set(key, score);
         });
@@ -365,8 +628,10 @@ export const clearAccuracyData = async (): Promise<void> => {
     await initDB();
     return new Promise((resolve, reject) => {
         if (!db) return reject(new Error("DB connection failed in clearAccuracyData"));
-        const tx = db.transaction([ACCURACY_SCORES_STORE, PENDING_FORECASTS_STORE, ACTUAL_WEATHER_STORE, HISTORICAL_FORECASTS_STORE, APP_STATE_STORE], 'readwrite');
+        const tx = db.transaction([ACCURACY_SCORES_STORE, CATEGORICAL_SCORES_STORE, MOS_CORRECTIONS_STORE, PENDING_FORECASTS_STORE, ACTUAL_WEATHER_STORE, HISTORICAL_FORECASTS_STORE, APP_STATE_STORE], 'readwrite');
         tx.objectStore(ACCURACY_SCORES_STORE).clear();
+        tx.objectStore(CATEGORICAL_SCORES_STORE).clear();
+        tx.objectStore(MOS_CORRECTIONS_STORE).clear();
         tx.objectStore(PENDING_FORECASTS_STORE).clear();
         tx.objectStore(ACTUAL_WEATHER_STORE).clear();
         tx.objectStore(HISTORICAL_FORECASTS_STORE).clear();
@@ -376,6 +641,175 @@ export const clearAccuracyData = async (): Promise<void> => {
     });
 };
 
+export const getAccuracySites = async (): Promise<AccuracySite[]> => {
+    await initDB();
+    return new Promise((resolve, reject) => {
+        if (!db) return reject(new Error("DB connection failed in getAccuracySites"));
+        const transaction = db.transaction(ACCURACY_SITES_STORE, 'readonly');
+        const request = transaction.objectStore(ACCURACY_SITES_STORE).getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(createDbError(request.error, 'getAccuracySites request'));
+    });
+};
+
+export const addAccuracySite = async (site: Omit<AccuracySite, 'id' | 'addedAt'>): Promise<AccuracySite> => {
+    await initDB();
+    return new Promise((resolve, reject) => {
+        if (!db) return reject(new Error("DB connection failed in addAccuracySite"));
+        const tx = db.transaction(ACCURACY_SITES_STORE, 'readwrite');
+        const record = { ...site, addedAt: new Date().toISOString() };
+        const request = tx.objectStore(ACCURACY_SITES_STORE).add(record);
+        tx.oncomplete = () => resolve({ ...record, id: request.result as number });
+        tx.onerror = () => reject(createDbError(tx.error, 'addAccuracySite transaction'));
+    });
+};
+
+export const updateAccuracySite = async (site: AccuracySite): Promise<void> => {
+    await initDB();
+    return new Promise((resolve, reject) => {
+        if (!db) return reject(new Error("DB connection failed in updateAccuracySite"));
+        const tx = db.transaction(ACCURACY_SITES_STORE, 'readwrite');
+        tx.objectStore(ACCURACY_SITES_STORE).put(site);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(createDbError(tx.error, 'updateAccuracySite transaction'));
+    });
+};
+
+export const deleteAccuracySite = async (id: number): Promise<void> => {
+    await initDB();
+    return new Promise((resolve, reject) => {
+        if (!db) return reject(new Error("DB connection failed in deleteAccuracySite"));
+        const tx = db.transaction(ACCURACY_SITES_STORE, 'readwrite');
+        tx.objectStore(ACCURACY_SITES_STORE).delete(id);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(createDbError(tx.error, 'deleteAccuracySite transaction'));
+    });
+};
+
+/** Favourites in the order the user arranged them. */
+export const getFavoriteLocations = async (): Promise<FavoriteLocation[]> => {
+    await initDB();
+    return new Promise((resolve, reject) => {
+        if (!db) return reject(new Error("DB connection failed in getFavoriteLocations"));
+        const transaction = db.transaction(FAVORITE_LOCATIONS_STORE, 'readonly');
+        const request = transaction.objectStore(FAVORITE_LOCATIONS_STORE).getAll();
+        request.onsuccess = () => resolve((request.result as FavoriteLocation[]).sort((a, b) => a.order - b.order));
+        request.onerror = () => reject(createDbError(request.error, 'getFavoriteLocations request'));
+    });
+};
+
+export const addFavoriteLocation = async (favorite: Omit<FavoriteLocation, 'id' | 'addedAt'>): Promise<FavoriteLocation> => {
+    await initDB();
+    return new Promise((resolve, reject) => {
+        if (!db) return reject(new Error("DB connection failed in addFavoriteLocation"));
+        const tx = db.transaction(FAVORITE_LOCATIONS_STORE, 'readwrite');
+        const record = { ...favorite, addedAt: new Date().toISOString() };
+        const request = tx.objectStore(FAVORITE_LOCATIONS_STORE).add(record);
+        tx.oncomplete = () => resolve({ ...record, id: request.result as number });
+        tx.onerror = () => reject(createDbError(tx.error, 'addFavoriteLocation transaction'));
+    });
+};
+
+/** Writes one or more favourites in a single transaction, e.g. a rename or a whole reordered list. */
+export const updateFavoriteLocations = async (favorites: FavoriteLocation[]): Promise<void> => {
+    await initDB();
+    return new Promise((resolve, reject) => {
+        if (!db) return reject(new Error("DB connection failed in updateFavoriteLocations"));
+        const tx = db.transaction(FAVORITE_LOCATIONS_STORE, 'readwrite');
+        const store = tx.objectStore(FAVORITE_LOCATIONS_STORE);
+        favorites.forEach(favorite => store.put(favorite));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(createDbError(tx.error, 'updateFavoriteLocations transaction'));
+    });
+};
+
+export const deleteFavoriteLocation = async (id: number): Promise<void> => {
+    await initDB();
+    return new Promise((resolve, reject) => {
+        if (!db) return reject(new Error("DB connection failed in deleteFavoriteLocation"));
+        const tx = db.transaction(FAVORITE_LOCATIONS_STORE, 'readwrite');
+        tx.objectStore(FAVORITE_LOCATIONS_STORE).delete(id);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(createDbError(tx.error, 'deleteFavoriteLocation transaction'));
+    });
+};
+
+export const getCachedForecastResponses = async (keys: string[]): Promise<CachedForecastResponse[]> => {
+    await initDB();
+    return new Promise((resolve, reject) => {
+        if (!db) return reject(new Error("DB connection failed in getCachedForecastResponses"));
+        const tx = db.transaction(FORECAST_CACHE_STORE, 'readonly');
+        const store = tx.objectStore(FORECAST_CACHE_STORE);
+        const results: CachedForecastResponse[] = [];
+        keys.forEach(key => {
+            const request = store.get(key);
+            request.onsuccess = () => { if (request.result) results.push(request.result); };
+        });
+        tx.oncomplete = () => resolve(results);
+        tx.onerror = () => reject(createDbError(tx.error, 'getCachedForecastResponses transaction'));
+    });
+};
+
+export const putCachedForecastResponses = async (records: CachedForecastResponse[]): Promise<void> => {
+    await initDB();
+    return new Promise((resolve, reject) => {
+        if (!db) return reject(new Error("DB connection failed in putCachedForecastResponses"));
+        const tx = db.transaction(FORECAST_CACHE_STORE, 'readwrite');
+        const store = tx.objectStore(FORECAST_CACHE_STORE);
+        records.forEach(record => store.put(record));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(createDbError(tx.error, 'putCachedForecastResponses transaction'));
+    });
+};
+
+// Removes every pending, observed, historical and score row collected for one site.
+export const deleteAccuracySiteData = async (locationId: number): Promise<void> => {
+    await initDB();
+    return new Promise((resolve, reject) => {
+        if (!db) return reject(new Error("DB connection failed in deleteAccuracySiteData"));
+        const tx = db.transaction([PENDING_FORECASTS_STORE, ACTUAL_WEATHER_STORE, HISTORICAL_FORECASTS_STORE, ACCURACY_SCORES_STORE, CATEGORICAL_SCORES_STORE, MOS_CORRECTIONS_STORE, APP_STATE_STORE], 'readwrite');
+        const range = IDBKeyRange.bound([locationId, ''], [locationId, '\uffff']);
+        const indexes = [
+            tx.objectStore(PENDING_FORECASTS_STORE).index('locationTargetTimeIndex'),
+            tx.objectStore(ACTUAL_WEATHER_STORE).index('locationTimeIndex'),
+            tx.objectStore(HISTORICAL_FORECASTS_STORE).index('locationTimeIndex'),
+        ];
+
+        indexes.forEach(index => {
+            index.openKeyCursor(range).onsuccess = (event) => {
+                const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+                if (cursor) {
+                    index.objectStore.delete(cursor.primaryKey);
+                    cursor.continue();
+                }
+            };
+        });
+        // Score stores are keyed by [locationId, modelKey], so the same range covers them directly.
+        tx.objectStore(ACCURACY_SCORES_STORE).delete(range);
+        tx.objectStore(CATEGORICAL_SCORES_STORE).delete(range);
+        tx.objectStore(MOS_CORRECTIONS_STORE).delete(range);
+
+        // The last ingested run per model is keyed "locationId:modelKey". Left behind, it would make a
+        // default site restored under the same id skip runs whose forecasts were just deleted.
+        const stateStore = tx.objectStore(APP_STATE_STORE);
+        const ingestedRequest = stateStore.get(ACCURACY_INGESTED_RUNS_KEY);
+        ingestedRequest.onsuccess = () => {
+            const raw = ingestedRequest.result?.value;
+            if (!raw) return;
+            try {
+                const ingestedRuns: Record<string, string> = JSON.parse(raw);
+                const kept = Object.fromEntries(Object.entries(ingestedRuns).filter(([key]) => !key.startsWith(`${locationId}:`)));
+                stateStore.put({ key: ACCURACY_INGESTED_RUNS_KEY, value: JSON.stringify(kept) });
+            } catch {
+                console.warn('[DB] Leaving unreadable ingested-run state in place.');
+            }
+        };
+
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(createDbError(tx.error, 'deleteAccuracySiteData transaction'));
+    });
+};
+
 export const getLease = async (id: string): Promise<any> => {
     await initDB();
     return new Promise((resolve, reject) => {
@@ -0,0 +1,48 @@
+import { CachedForecastResponse, ForecastView, OpenMeteoModelResponse } from '../types';
+import { getCachedForecastResponses, putCachedForecastResponses } from './dbService';
+
+// The last good response per place, model and view, served by fetchForecasts when the network is gone.
+
+const COORDINATE_DECIMALS = 4;
+
+const cacheKey = (latitude: number, longitude: number, modelKey: string, view: ForecastView): string =>
+    `${latitude.toFixed(COORDINATE_DECIMALS)},${longitude.toFixed(COORDINATE_DECIMALS)}|${modelKey}|${view}`;
+
+/** True for failures that mean "no connection" rather than a bad request, e.g. a rejected or timed-out fetch. */
+export const isConnectivityError = (error: unknown): boolean =>
+    !navigator.onLine || error instanceof TypeError || (error instanceof DOMException && error.name === 'TimeoutError');
+
+/** Saves fresh responses. A failed write only costs offline coverage, so it is logged, not thrown. */
+export const cacheForecastResponses = async (
+    latitude: number,
+    longitude: number,
+    view: ForecastView,
+    responses: (OpenMeteoModelResponse & { model: string })[]
+): Promise<void> => {
+    const fetchedAt = new Date().toISOString();
+    try {
+        await putCachedForecastResponses(responses.map(response => ({
+            key: cacheKey(latitude, longitude, response.model, view),
+            modelKey: response.model,
+            view,
+            fetchedAt,
+            response,
+        })));
+    } catch (error) {
+        console.error('[Cache] Failed to save forecasts for offline use:', error);
+    }
+};
+
+export const loadCachedForecastResponses = async (
+    latitude: number,
+    longitude: number,
+    view: ForecastView,
+    modelKeys: string[]
+): Promise<CachedForecastResponse[]> => {
+    try {
+        return await getCachedForecastResponses(modelKeys.map(key => cacheKey(latitude, longitude, key, view)));
+    } catch (error) {
+        console.error('[Cache] Failed to read cached forecasts:', error);
+        return [];
+    }
+};
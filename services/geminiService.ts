@@ -1,5 +1,6 @@
 import { GoogleGenAI } from "@google/genai";
-import { ProcessedForecasts, ForecastView, Location, ProcessedHourlyData } from '../types';
+import { ProcessedForecasts, ForecastView, Location, ProcessedHourlyData, UnitFormatter } from '../types';
+import { overallAgreement } from '../utils/modelSpread';
 
 const API_KEY = process.env.API_KEY;
 
@@ -16,9 +17,26 @@ const getFeelsLikeTemp = (tempC: number, wind_speed_10m_kn: number): number => {
     return tempC;
 };
 
+// Quantities in a summary are written as tags in the prompt's units, e.g. {{temperature:-3}}, and
+// formatted in the user's units when shown, so changing units never needs a new summary.
+const QUANTITY_TAG = /\{\{(temperature|precipitation|snowfall|windSpeed|visibility):(-?\d+(?:\.\d+)?)\}\}/g;
+
+const QUANTITY_TAG_RULE = `- Write every temperature, rain or snow amount, wind speed and visibility as a tag {{quantity:value}}, where quantity is one of temperature, precipitation, snowfall, windSpeed or visibility and value is a plain number in the table's units (e.g. "a high near {{temperature:4}}", "gusts to {{windSpeed:35}}"). Never write a unit yourself. Describe changes in words or by their start and end values, never as a tagged difference.`;
+
+/** Replaces the quantity tags in a summary with values in the user's units. */
+export const formatSummaryQuantities = (summary: string, units: UnitFormatter): string =>
+    summary.replace(QUANTITY_TAG, (_, quantity: string, value: string) => units.format(quantity, parseFloat(value)));
+
+// Model spread for one row: the IQR of a key field and the weakest agreement across the story fields.
+const formatSpreadColumns = (p: ProcessedHourlyData, iqrField: string, agreementFields: string[]): string => {
+    const iqr = p.spread?.[iqrField]?.iqr.toFixed(1) ?? 'N/A';
+    const agreement = overallAgreement(p, agreementFields) ?? 'N/A';
+    return `${iqr}, ${agreement}`;
+};
+
 function formatHourlyDataForPrompt(hourlyData: ProcessedHourlyData[]): string {
     let prompt = `Here is the hourly forecast data (median from multiple models) for timezone ${USER_TIMEZONE}:\n`;
-    prompt += "Time, Temp (°C), FeelsLike (°C), Rain (mm), Snow (cm), Wind (kn), Gusts (kn), CloudCover (%), Visibility (mi), NotableEvent\n";
+    prompt += "Time, Temp (°C), FeelsLike (°C), Rain (mm), Snow (cm), Wind (kn), Gusts (kn), CloudCover (%), Visibility (mi), TempSpread (IQR °C), ModelAgreement, NotableEvent\n";
     
     const now = new Date();
     const startIndex = hourlyData.findIndex(point => new Date(point.time + 'Z') >= now);
@@ -66,14 +84,16 @@ function formatHourlyDataForPrompt(hourlyData: ProcessedHourlyData[]): string {
         const vis = p.visibility?.toFixed(1) ?? 'N/A';
         const event = notableEvents[i]?.trim() || 'none';
 
-        prompt += `${time}, ${temp?.toFixed(1) ?? 'N/A'}, ${feelsLike}, ${rain}, ${snow}, ${wind}, ${gusts}, ${cloud}, ${vis}, ${event}\n`;
+        const spread = formatSpreadColumns(p, 'temperature_2m', ['temperature_2m', 'precipitation', 'wind_gusts_10m']);
+
+        prompt += `${time}, ${temp?.toFixed(1) ?? 'N/A'}, ${feelsLike}, ${rain}, ${snow}, ${wind}, ${gusts}, ${cloud}, ${vis}, ${spread}, ${event}\n`;
     });
     return prompt;
 }
 
 function formatDailyDataForPrompt(dailyData: ProcessedHourlyData[]): string {
     let prompt = `Here is the daily forecast data (median from multiple models) for timezone ${USER_TIMEZONE}:\n`;
-    prompt += "Day, High (°C), Low (°C), Total Rain (mm), Total Snow (cm), Peak Wind (kn), NotableEvent\n";
+    prompt += "Day, High (°C), Low (°C), Total Rain (mm), Total Snow (cm), Peak Wind (kn), HighSpread (IQR °C), ModelAgreement, NotableEvent\n";
     
     const dataToShow = dailyData.slice(0, 7);
     if (dataToShow.length === 0) return prompt;
@@ -116,7 +136,9 @@ function formatDailyDataForPrompt(dailyData: ProcessedHourlyData[]): string {
         const wind = `${p.wind_speed_10m?.toFixed(0) ?? 'N/A'} ${p.wind_direction_10m ?? ''}`.trim();
         const event = notableEvents[i]?.trim() || 'none';
 
-        prompt += `${day}, ${high}, ${low}, ${rain}, ${snow}, ${wind}, ${event}\n`;
+        const spread = formatSpreadColumns(p, 'temperature_2m_max', ['temperature_2m_max', 'temperature_2m_min', 'precipitation']);
+
+        prompt += `${day}, ${high}, ${low}, ${rain}, ${snow}, ${wind}, ${spread}, ${event}\n`;
     });
     return prompt;
 }
@@ -124,7 +146,8 @@ function formatDailyDataForPrompt(dailyData: ProcessedHourlyData[]): string {
 export const generateForecastSummary = async (
     forecasts: ProcessedForecasts,
     view: ForecastView,
-    location: Location
+    location: Location,
+    signal?: AbortSignal
 ): Promise<string> => {
     // Short-circuit if the API key is not configured. This prevents errors in the UI.
     if (!ai) {
@@ -146,20 +169,22 @@ export const generateForecastSummary = async (
 You are a concise, expert meteorologist writing for an intelligent Canadian homeowner.
 
 TASK:
-Using only the data provided for ${location.name}, write a short Markdown summary for the next 36 hours. Pay close attention to the 'NotableEvent' column to identify the main story beats for your summary.
+Using only the data provided for ${location.name}, write a short Markdown summary for the next 36 hours. Pay close attention to the 'NotableEvent' column to identify the main story beats for your summary. The 'ModelAgreement' column (high/moderate/low) says how closely the forecast models agree; use it to judge confidence.
 
 OUTPUT FORMAT (strict):
 1. A one-sentence headline on its own line summarizing the overall story.
 2. A bulleted list with exactly 3 bullet points:
-   - First bullet: temperature story. Describe the trend (e.g., "falling then rising"). Explicitly mention if temperatures cross the 0°C freezing mark in either direction. State the warmest and coldest periods.
-   - Second bullet: precipitation story (any rain/snow, when it starts/ends, confidence, "stays dry" if none).
+   - First bullet: temperature story. Describe the trend (e.g., "falling then rising"). Explicitly mention if temperatures cross the {{temperature:0}} freezing mark in either direction. State the warmest and coldest periods.
+   - Second bullet: precipitation story (any rain/snow, when it starts/ends, confidence based on ModelAgreement, "stays dry" if none).
    - Third bullet: wind/visibility story. Describe the trend (e.g., "strong initially, easing later"). Mention strongest gusts, directions, and any visibility issues. Do not just state a single condition for the whole period.
 
 STYLE RULES:
 - Use varied, natural language; avoid repeating phrases like "expect dry conditions".
 - Prefer short sentences (under 20 words).
-- Mention units (°C, kn, mm) only when helpful; don't spam numbers.
+- Mention quantities only when helpful; don't spam numbers.
+${QUANTITY_TAG_RULE}
 - Never restate the raw table.
+- Only mention model agreement when it is low or changes notably; never quote IQR numbers.
 - Do NOT add sections, titles, or text outside the headline and 3 bullets.
 `;
     } else if (view === 'daily') {
@@ -168,7 +193,7 @@ STYLE RULES:
 You are a concise, expert meteorologist.
 
 TASK:
-Using only the data provided for ${location.name}, create an engaging 7-day outlook in Markdown. Pay attention to the 'NotableEvent' column to identify the main story beats for your summary.
+Using only the data provided for ${location.name}, create an engaging 7-day outlook in Markdown. Pay attention to the 'NotableEvent' column to identify the main story beats for your summary. The 'ModelAgreement' column (high/moderate/low) says how closely the forecast models agree on that day.
 
 OUTPUT FORMAT (strict):
 1. A one-sentence overview paragraph summarizing the whole week (trend in temperature + wet/dry signal).
@@ -180,15 +205,17 @@ OUTPUT FORMAT (strict):
 (continue through all 7 days)
 
 CONTENT RULES FOR EACH DAY:
-- Include high and low temperatures in °C (rounded) only if they matter to the story.
+- Include high and low temperatures (rounded) only if they matter to the story.
 - Mention precipitation type only if non-zero rain/snow is present (e.g., "light snow in the evening").
 - When the day is similar to neighbours, say so explicitly (e.g., "similar to Sunday, still dry and cool") instead of repeating generic text.
 - Highlight extremes: warmest day, coldest night, windiest day, first day with any precip.
+- Where ModelAgreement is low, say the forecast for that day is uncertain rather than stating it as fact.
 
 STYLE RULES:
 - One sentence per day, maximum 25 words.
 - Vary phrasing across days; don't start every sentence with "Expect".
 - No extra headings, tables, or commentary outside the overview paragraph and the 7 list items.
+${QUANTITY_TAG_RULE}
 `;
     } else {
         throw new Error("Unsupported view for AI summary.");
@@ -208,12 +235,15 @@ Follow the OUTPUT FORMAT and STYLE RULES from the system message exactly.
             config: {
               systemInstruction: systemInstruction,
               temperature: 0.3,
+              abortSignal: signal,
             },
         });
         
         console.log(`[Gemini] Successfully received response.`);
         return response.text;
     } catch (error) {
+        // Cancelled because the forecast it describes was replaced; the caller drops it quietly.
+        if (signal?.aborted) throw signal.reason;
         console.error("[Gemini] API call failed:", error);
         throw new Error("The AI summary could not be generated at this time.");
     }
@@ -0,0 +1,25 @@
+import { queuedFetch } from './requestQueue';
+
+const METAR_API_URL = 'https://aviationweather.gov/api/data/metar';
+// The aviation weather API only keeps recent reports, so older hours are left to the archive.
+export const METAR_MAX_LOOKBACK_HOURS = 168;
+
+/**
+ * Fetches raw METAR/SPECI reports for a station, newest first, one report per element.
+ */
+export const fetchRawMetars = async (icao: string, hours: number): Promise<string[]> => {
+    const params = new URLSearchParams({
+        ids: icao,
+        format: 'raw',
+        hours: Math.min(Math.max(1, Math.ceil(hours)), METAR_MAX_LOOKBACK_HOURS).toString(),
+    });
+    const url = `${METAR_API_URL}?${params.toString()}`;
+    console.log(`[METAR] Fetching reports: ${url}`);
+
+    const response = await queuedFetch(url, { priority: 'background' });
+    if (!response.ok) {
+        throw new Error(`METAR request for ${icao} failed with status ${response.status}.`);
+    }
+    const text = await response.text();
+    return text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+};
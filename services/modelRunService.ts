@@ -0,0 +1,62 @@
+import { MODELS, DEFAULT_RUN_INTERVAL_HOURS } from '../constants';
+import { Model, ModelRunInfo } from '../types';
+import { fetchModelRunMetadata } from './openMeteoService';
+
+const HOUR_MS = 3600 * 1000;
+const METADATA_CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
+// A metadata run time older than this is treated as stale and ignored in favour of the schedule.
+const MAX_METADATA_RUN_AGE_HOURS = 48;
+
+const metadataCache = new Map<string, { fetchedAt: number; runInitTime: string }>();
+
+/**
+ * Infers the latest available run from the model's cycle cadence, e.g. a 6-hourly model
+ * with a 4-hour delay is on its 12Z run from 16Z until 22Z.
+ */
+export const getScheduledRunInitTime = (model: Model, now: number = Date.now()): string => {
+    const intervalMs = (model.runIntervalHours ?? DEFAULT_RUN_INTERVAL_HOURS) * HOUR_MS;
+    const delayMs = (model.runAvailabilityDelayHours ?? 0) * HOUR_MS;
+    // Cycles are anchored at 00Z, which the Unix epoch also is.
+    const cycleStart = Math.floor((now - delayMs) / intervalMs) * intervalMs;
+    return new Date(cycleStart).toISOString();
+};
+
+export const resolveModelRun = async (model: Model): Promise<ModelRunInfo> => {
+    const now = Date.now();
+
+    if (model.metadataName) {
+        const cached = metadataCache.get(model.metadataName);
+        if (cached && now - cached.fetchedAt < METADATA_CACHE_DURATION) {
+            return { modelKey: model.key, runInitTime: cached.runInitTime, source: 'metadata' };
+        }
+
+        try {
+            const { lastRunInitTime } = await fetchModelRunMetadata(model.metadataName);
+            const ageHours = (now - lastRunInitTime.getTime()) / HOUR_MS;
+            if (ageHours >= 0 && ageHours <= MAX_METADATA_RUN_AGE_HOURS) {
+                const runInitTime = lastRunInitTime.toISOString();
+                metadataCache.set(model.metadataName, { fetchedAt: now, runInitTime });
+                return { modelKey: model.key, runInitTime, source: 'metadata' };
+            }
+            console.warn(`[Model Runs] Ignoring implausible metadata run time for ${model.name}: ${lastRunInitTime.toISOString()}`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(`[Model Runs] Metadata lookup failed for ${model.name}, falling back to schedule. Reason: ${message}`);
+        }
+    }
+
+    return { modelKey: model.key, runInitTime: getScheduledRunInitTime(model, now), source: 'schedule' };
+};
+
+export const resolveModelRuns = async (modelKeys: string[]): Promise<Map<string, ModelRunInfo>> => {
+    const runs = new Map<string, ModelRunInfo>();
+    for (const key of modelKeys) {
+        const model = MODELS.find(m => m.key === key);
+        if (!model) continue;
+        runs.set(key, await resolveModelRun(model));
+    }
+    return runs;
+};
+
+export const calculateLeadTimeHours = (runInitTime: string, targetTime: string): number =>
+    Math.round((new Date(targetTime).getTime() - new Date(runInitTime).getTime()) / HOUR_MS);
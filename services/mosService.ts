@@ -0,0 +1,32 @@
+import { MOS_MAX_SITE_DISTANCE_KM } from '../constants';
+import { MosSummary } from '../types';
+import { getAccuracySites, getMosCorrections } from './dbService';
+import { distanceKm } from '../utils/superEnsemble';
+
+/**
+ * Loads the MOS corrections fitted at the nearest verification site. Returns null when no site is
+ * close enough or none has been corrected yet, since a bias learned elsewhere would mislead.
+ */
+export const loadMosSummary = async (latitude: number, longitude: number): Promise<MosSummary | null> => {
+    const sites = await getAccuracySites();
+    const nearest = sites
+        .map(site => ({ site, distance: distanceKm(latitude, longitude, site.latitude, site.longitude) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+
+    if (!nearest || nearest.distance > MOS_MAX_SITE_DISTANCE_KM) {
+        console.log(`[MOS] No accuracy site within ${MOS_MAX_SITE_DISTANCE_KM} km; showing raw output only.`);
+        return null;
+    }
+
+    const corrections = (await getMosCorrections()).filter(c => c.locationId === nearest.site.id);
+    if (corrections.length === 0) {
+        console.log(`[MOS] ${nearest.site.name} has no fitted corrections yet.`);
+        return null;
+    }
+
+    console.log(`[MOS] Using corrections for ${corrections.length} models from ${nearest.site.name} (${nearest.distance.toFixed(0)} km away).`);
+    return {
+        site: { id: nearest.site.id, name: nearest.site.name, distanceKm: nearest.distance },
+        corrections,
+    };
+};
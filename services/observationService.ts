@@ -0,0 +1,117 @@
+import { AccuracySite, ObservationProvider, ObservationRecord } from '../types';
+import { fetchPastWeather } from './openMeteoService';
+import { fetchRawMetars } from './metarService';
+import { isMockProviderEnabled } from './providers';
+import { parseMetar, metarToObservation, ParsedMetar } from '../utils/metarParser';
+
+const HOUR_MS = 3600 * 1000;
+const OBSERVATION_FIELDS = ['temperature_2m', 'rain', 'snowfall', 'wind_speed_10m', 'wind_gusts_10m', 'cloud_cover', 'visibility'] as const;
+
+// Picks one report per hour: reports within 30 minutes count towards the nearest hour, routine
+// reports win over SPECIs, and the report closest to the hour wins after that.
+const selectHourlyReports = (reports: ParsedMetar[]): Map<number, ParsedMetar> => {
+    const byHour = new Map<number, ParsedMetar>();
+    const distance = (report: ParsedMetar, hour: number) => Math.abs(report.observedAt.getTime() - hour);
+    for (const report of reports) {
+        const hour = Math.round(report.observedAt.getTime() / HOUR_MS) * HOUR_MS;
+        const current = byHour.get(hour);
+        if (!current
+            || (current.isSpeci && !report.isSpeci)
+            || (current.isSpeci === report.isSpeci && distance(report, hour) < distance(current, hour))) {
+            byHour.set(hour, report);
+        }
+    }
+    return byHour;
+};
+
+const metarProvider: ObservationProvider = {
+    key: 'metar',
+    name: 'METAR station reports',
+    supportsSite: (site) => !!site.icao && !isMockProviderEnabled(),
+    fetchObservations: async (site, start, end) => {
+        const hours = (Date.now() - start.getTime()) / HOUR_MS + 1;
+        const rawReports = await fetchRawMetars(site.icao!, hours);
+        const now = new Date();
+
+        const reports: ParsedMetar[] = [];
+        for (const raw of rawReports) {
+            try {
+                reports.push(parseMetar(raw, now));
+            } catch (error) {
+                console.warn(`[Observations] Skipping unreadable METAR for ${site.icao}:`, error);
+            }
+        }
+
+        const records: ObservationRecord[] = [];
+        selectHourlyReports(reports).forEach((report, hour) => {
+            if (hour < start.getTime() || hour > end.getTime()) return;
+            records.push({ time: new Date(hour).toISOString(), ...metarToObservation(report) });
+        });
+        console.log(`[Observations] Decoded ${records.length} hourly METAR observations for ${site.icao}.`);
+        return records;
+    },
+};
+
+// Open-Meteo's archive is model reanalysis rather than an observation, so it is only used
+// for sites without a station and for fields the station does not report.
+const archiveProvider: ObservationProvider = {
+    key: 'archive',
+    name: 'Open-Meteo archive (reanalysis)',
+    supportsSite: () => true,
+    fetchObservations: async (site, start, end) => {
+        const days = Math.ceil((Date.now() - start.getTime()) / (24 * HOUR_MS));
+        const records = await fetchPastWeather(site.latitude, site.longitude, days, 'background');
+        return records
+            .filter(r => r.time && new Date(r.time).getTime() >= start.getTime() && new Date(r.time).getTime() <= end.getTime())
+            .map(r => ({
+                time: r.time!,
+                temperature_2m: r.temperature_2m ?? null,
+                rain: r.rain ?? null,
+                snowfall: r.snowfall ?? null,
+                wind_speed_10m: r.wind_speed_10m ?? null,
+                wind_gusts_10m: r.wind_gusts_10m ?? null,
+                cloud_cover: r.cloud_cover ?? null,
+                visibility: r.visibility ?? null,
+            }));
+    },
+};
+
+// Highest priority first.
+const OBSERVATION_PROVIDERS: ObservationProvider[] = [metarProvider, archiveProvider];
+
+/**
+ * Collects observations for every hour in [start, end] from all providers that support the site
+ * and merges them field by field, taking each value from the highest-priority provider that has it.
+ * A failing provider is logged and skipped so the remaining ones can still fill the hours.
+ */
+export const fetchObservationsForSite = async (site: AccuracySite, start: Date, end: Date): Promise<(ObservationRecord & { observationSource: string })[]> => {
+    const merged = new Map<string, ObservationRecord & { observationSource: string }>();
+
+    for (const provider of OBSERVATION_PROVIDERS.filter(p => p.supportsSite(site))) {
+        let records: ObservationRecord[];
+        try {
+            records = await provider.fetchObservations(site, start, end);
+        } catch (error) {
+            console.warn(`[Observations] ${provider.name} failed for ${site.name}, falling back to the next provider:`, error);
+            continue;
+        }
+
+        for (const record of records) {
+            const existing = merged.get(record.time);
+            if (!existing) {
+                merged.set(record.time, { ...record, observationSource: provider.key });
+                continue;
+            }
+            let contributed = false;
+            for (const field of OBSERVATION_FIELDS) {
+                if (existing[field] === null && record[field] !== null) {
+                    existing[field] = record[field];
+                    contributed = true;
+                }
+            }
+            if (contributed) existing.observationSource += `+${provider.key}`;
+        }
+    }
+
+    return Array.from(merged.values()).sort((a, b) => a.time.localeCompare(b.time));
+};
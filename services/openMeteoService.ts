@@ -1,172 +1,76 @@
 
 
 import { MODELS, isUSMainland } from '../constants';
-import { OpenMeteoModelResponse, ProcessedForecasts, ProcessedHourlyData, Model, ForecastView, GeocodingResponse, Location, ModelError, CurrentWeather, ActualWeatherRecord, HourlyData, DailyData } from '../types';
-
-const API_ENDPOINTS = {
-  forecast: 'https://api.open-meteo.com/v1/forecast',
-  gem: 'https://api.open-meteo.com/v1/gem',
-  ecmwf: 'https://api.open-meteo.com/v1/ecmwf',
-  gfs: 'https://api.open-meteo.com/v1/gfs',
-  archive: 'https://archive-api.open-meteo.com/v1/archive',
-  bom: 'https://api.open-meteo.com/v1/bom',
-  meteofrance: 'https://api.open-meteo.com/v1/meteofrance',
+import { OpenMeteoModelResponse, ProcessedForecasts, ProcessedHourlyData, EnsembleHourlySummary, EnsemblePointSummary, Metric, Model, ModelSpread, MosSummary, SuperEnsembleWeights, ForecastView, ForecastRequest, ForecastDataKey, ForecastProvider, ModelBatch, RequestPriority, GeocodingResponse, Location, ModelError, CurrentWeatherResult, ActualWeatherRecord } from '../types';
+import { queuedFetch, isAbortError } from './requestQueue';
+import { getProviderForModel, getDefaultForecastProvider, isMockProviderEnabled } from './providers';
+import { mockSearchLocations, mockPastWeather } from './providers/mockProvider';
+import { getOpenMeteoSettings, appendApiKey, redactApiKey, loadModelPreferences } from './settingsService';
+import { loadSuperEnsembleWeights } from './superEnsembleService';
+import { loadMosSummary } from './mosService';
+import { cacheForecastResponses, isConnectivityError, loadCachedForecastResponses } from './forecastCacheService';
+import { ResponseClaim, claimCompanionResponse, lookupResponse, recordNetworkCall, responseCacheKey } from './responseCache';
+import { getAccuracyIntervalForLeadTime } from '../utils/accuracyStats';
+import { blendModelValues } from '../utils/superEnsemble';
+import { alignModelsToTimeAxis } from '../utils/timeAxis';
+import { normalizeBlockUnits, normalizePercentileUnits, spreadCoarseAccumulations, SNOW_CM_TO_WATER_MM } from '../utils/units';
+import { summarizeSpread } from '../utils/modelSpread';
+import { correctForecastValue } from '../utils/mos';
+
+// Paths relative to the configured hosts; forecast endpoints live in the Open-Meteo forecast provider.
+const API_PATHS = {
+  archive: '/v1/archive',
+  geocoding: '/v1/search',
+  metadata: '/data', // Served by the forecast host
 };
 
-// --- Request Queue for Rate Limiting ---
-const requestQueue: Array<() => Promise<any>> = [];
-let isProcessingQueue = false;
-const MIN_REQUEST_INTERVAL = 100; // ms between requests
-
-async function queuedFetch(url: string, options?: RequestInit): Promise<Response> {
-  return new Promise((resolve, reject) => {
-    requestQueue.push(async () => {
-      try {
-        const response = await fetch(url, { ...options, cache: 'no-store' });
-        resolve(response);
-      } catch (error) {
-        reject(error);
-      }
-    });
-    
-    if (!isProcessingQueue) {
-      processQueue();
-    }
-  });
-}
-
-async function processQueue() {
-  if (isProcessingQueue) {
-    return;
-  }
-  isProcessingQueue = true;
-
-  while (requestQueue.length > 0) {
-    const nextRequest = requestQueue.shift();
-    if (nextRequest) {
-      await nextRequest();
-      await new Promise(resolve => setTimeout(resolve, MIN_REQUEST_INTERVAL));
-    }
-  }
-
-  isProcessingQueue = false;
-}
-
 // Per user patch request
 const ALLOWED: Record<string, Set<string>> = {
   gfs: new Set(['gfs_global','gfs_graphcast','nam','nam_conus','hrrr','hrrr_subhourly']),
   forecast: new Set(['ukmo_global','ukmo_ukv','icon_global','arpege_global','access_g','gem_global']),
 };
 
-// FIX: Made the endpoint routing comprehensive to handle all model types.
-function getEndpointAndParam(model: Model) {
-  switch (model.endpoint) {
-    case 'gfs':
-      return { base: API_ENDPOINTS.gfs, paramName: 'models', paramValue: model.apiName };
-    case 'gem':
-      return { base: API_ENDPOINTS.gem, paramName: 'domain', paramValue: model.apiName };
-    case 'bom':
-      return { base: API_ENDPOINTS.bom, paramName: 'domain', paramValue: model.apiName };
-    case 'meteofrance':
-      return { base: API_ENDPOINTS.meteofrance, paramName: 'domain', paramValue: model.apiName };
-    case 'ecmwf':
-      return { base: API_ENDPOINTS.ecmwf, paramName: undefined, paramValue: undefined };
-    case 'forecast':
-    default:
-      return { base: API_ENDPOINTS.forecast, paramName: 'models', paramValue: model.apiName };
-  }
-}
-
-const normalizeHourlyDataKeys = (hourly: HourlyData): HourlyData => {
-  const map: Record<string,string> = {
-    windspeed_10m: 'wind_speed_10m',
-    winddirection_10m: 'wind_direction_10m',
-    windgusts_10m: 'wind_gusts_10m',
-    cloudcover: 'cloud_cover',
-  };
-  const suffixes = ['', '_mean', '_dominant', '_percentile_25', '_percentile_50', '_percentile_75'];
-  const out: any = { ...hourly };
-  for (const [bad, good] of Object.entries(map)) {
-    for (const s of suffixes) {
-      const from = `${bad}${s}`, to = `${good}${s}`;
-      if (from in out) { out[to] = out[from]; delete out[from]; }
-    }
-  }
-  out.time = hourly.time;
-  return out as HourlyData;
-};
-
+export const fetchCurrentWeather = async (latitude: number, longitude: number, signal?: AbortSignal): Promise<CurrentWeatherResult> =>
+    getDefaultForecastProvider().fetchCurrent(latitude, longitude, signal);
 
-export const fetchCurrentWeather = async (latitude: number, longitude: number): Promise<{ current: CurrentWeather | null; timezoneAbbreviation?: string; error?: string }> => {
-    try {
-        const currentParams = 'temperature_2m,wind_speed_10m,wind_direction_10m,weather_code,is_day,wind_gusts_10m,cloud_cover,visibility,rain,snowfall,dew_point_2m,pressure_msl';
-        // Request low/mid/high cloud cover; names must match Open-Meteo docs (cloud_cover_low/mid/high).
-        const hourlyCloudParams = 'temperature_2m,cloud_cover_low,cloud_cover_mid,cloud_cover_high';
-        
-        const params = new URLSearchParams({
-            latitude: latitude.toString(),
-            longitude: longitude.toString(),
-            current: currentParams,
-            hourly: hourlyCloudParams,
-            forecast_days: '1', // We only need a few hours to find the closest one
-            wind_speed_unit: 'kn',
-            temperature_unit: 'celsius',
-            precipitation_unit: 'mm',
-        });
-        const url = `${API_ENDPOINTS.forecast}?${params.toString()}`;
-        console.log(`[API] Fetching current weather from: ${url}`);
-        const response = await queuedFetch(url);
-        
-        if (response.ok) {
-            const data = await response.json();
-            console.log(`[API] Successfully fetched current weather.`);
-            
-            // Augment current weather with cloud layer data from the closest hourly forecast point
-            if (data.current && data.hourly && data.hourly.time?.length > 0) {
-                const currentTime = new Date(data.current.time).getTime();
-                let closestHourIndex = 0;
-                let minDiff = Infinity;
-                
-                data.hourly.time.forEach((t: string, i: number) => {
-                    const diff = Math.abs(new Date(t).getTime() - currentTime);
-                    if (diff < minDiff) {
-                        minDiff = diff;
-                        closestHourIndex = i;
-                    }
-                });
-
-                data.current.cloud_cover_low = data.hourly.cloud_cover_low?.[closestHourIndex] ?? data.current.cloud_cover ?? 0;
-                data.current.cloud_cover_mid = data.hourly.cloud_cover_mid?.[closestHourIndex] ?? 0;
-                data.current.cloud_cover_high = data.hourly.cloud_cover_high?.[closestHourIndex] ?? 0;
-            }
-
-            return {
-                current: data.current || null,
-                timezoneAbbreviation: data.timezone_abbreviation,
-            };
-        } else {
-            const errorData = await response.json();
-            console.error(`[API] Error fetching current weather (${response.status}):`, errorData);
-            return { current: null, error: errorData.reason || 'Failed to fetch current weather.' };
-        }
-    } catch (error) {
-        console.error('[API] Network error fetching current weather:', error);
-        return { current: null, error: 'A network error occurred while fetching current weather.' };
+// Open-Meteo publishes per-model metadata including the initialization time of the latest run.
+export const fetchModelRunMetadata = async (metadataName: string): Promise<{ lastRunInitTime: Date; updateIntervalSeconds: number | null }> => {
+    if (isMockProviderEnabled()) {
+        throw new Error('Model metadata is unavailable while using the mock provider.');
+    }
+    const settings = await getOpenMeteoSettings();
+    const query = appendApiKey(new URLSearchParams(), settings).toString();
+    const url = `${settings.forecastBaseUrl}${API_PATHS.metadata}/${metadataName}/static/meta.json${query ? `?${query}` : ''}`;
+    console.log(`[API] Fetching model run metadata from: ${redactApiKey(url)}`);
+    const response = await queuedFetch(url);
+    if (!response.ok) {
+        throw new Error(`Metadata request for '${metadataName}' failed with status ${response.status}.`);
     }
+    const data = await response.json();
+    const initSeconds = data?.last_run_initialisation_time;
+    if (typeof initSeconds !== 'number' || !isFinite(initSeconds)) {
+        throw new Error(`Metadata for '${metadataName}' did not include a run initialization time.`);
+    }
+    return {
+        lastRunInitTime: new Date(initSeconds * 1000),
+        updateIntervalSeconds: typeof data.update_interval_seconds === 'number' ? data.update_interval_seconds : null,
+    };
 };
 
 export const searchLocations = async (query: string): Promise<Location[]> => {
     if (query.length < 3) return [];
+    if (isMockProviderEnabled()) return mockSearchLocations(query);
     try {
-        const params = new URLSearchParams({
+        const settings = await getOpenMeteoSettings();
+        const params = appendApiKey(new URLSearchParams({
             name: query,
             count: '10',
             language: 'en',
             format: 'json',
-        });
-        const url = `${GEOCODING_API_BASE_URL}?${params.toString()}`;
-        console.log(`[API] Searching locations with URL: ${url}`);
-        const response = await queuedFetch(url);
+        }), settings);
+        const url = `${settings.geocodingBaseUrl}${API_PATHS.geocoding}?${params.toString()}`;
+        console.log(`[API] Searching locations with URL: ${redactApiKey(url)}`);
+        const response = await queuedFetch(url, { priority: 'interactive' });
         if (!response.ok) {
             throw new Error('Failed to fetch locations from geocoding API.');
         }
@@ -179,8 +83,6 @@ export const searchLocations = async (query: string): Promise<Location[]> => {
     }
 };
 
-const GEOCODING_API_BASE_URL = 'https://geocoding-api.open-meteo.com/v1/search';
-
 const windDirectionMap = [
     "N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE",
     "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW"
@@ -192,11 +94,30 @@ export const degreesToCardinal = (degrees: number | null): string => {
     return windDirectionMap[index];
 };
 
-const calculateDerivedModels = (forecasts: ProcessedForecasts, view: ForecastView) => {
-    console.log(`[Processing] Calculating derived models (median) for ${view} view...`);
+// Daily fields are verified under the hourly metric they aggregate.
+const DAILY_FIELD_METRICS: { [field: string]: string } = {
+    temperature_2m_max: 'temperature_2m',
+    temperature_2m_min: 'temperature_2m',
+    wind_speed_10m_max: 'wind_speed_10m',
+    wind_gusts_10m_max: 'wind_gusts_10m',
+};
+
+const precipitationTypeFor = (point: any, view: ForecastView): number | null => {
+    if (view !== 'hourly') return null;
+    const rain = point.rain ?? 0;
+    const snow = point.snowfall ?? 0;
+    let precipitation_type = 0;
+    if (rain > 0.05) precipitation_type = 1; // rain
+    if (snow > 0.05) precipitation_type = (precipitation_type === 1) ? 2 : 3; // mix or snow
+    return precipitation_type;
+};
+
+const calculateDerivedModels = (forecasts: ProcessedForecasts, view: ForecastView, superEnsembleWeights: SuperEnsembleWeights | null, utcOffsetSeconds: number) => {
+    console.log(`[Processing] Calculating derived models (median, super ensemble) for ${view} view...`);
+    // Ensembles are already a consensus of their members, so they would outweigh single runs here.
     const modelKeys = Object.keys(forecasts).filter(key => {
         const model = MODELS.find(m => m.key === key);
-        return model && model.category !== 'Derived';
+        return model && model.category !== 'Derived' && model.category !== 'Ensemble';
     });
 
     if (modelKeys.length === 0) {
@@ -204,24 +125,25 @@ const calculateDerivedModels = (forecasts: ProcessedForecasts, view: ForecastVie
         return;
     }
 
-    const referenceTimes = forecasts[modelKeys[0]].hourly.map(h => h.time);
+    const { axis, values } = alignModelsToTimeAxis(modelKeys.map(key => ({ modelKey: key, points: forecasts[key].hourly })), view);
     const medianHourly: ProcessedHourlyData[] = [];
+    const superEnsembleHourly: ProcessedHourlyData[] = [];
+    const now = Date.now();
 
-    for (const time of referenceTimes) {
-        const valuesAtTime: { [key: string]: number[] } = {};
+    for (const time of axis) {
+        const valuesAtTime: { [key: string]: { modelKey: string; value: number }[] } = {};
+        let modelCount = 0;
 
         for (const key of modelKeys) {
-            const hourData = forecasts[key].hourly.find(h => h.time === time);
-            if (!hourData) continue;
-            
-            for (const metric of Object.keys(hourData)) {
-                const value = (hourData as any)[metric];
-                if (typeof value === 'number' && isFinite(value)) {
-                    if (!valuesAtTime[metric]) {
-                        valuesAtTime[metric] = [];
-                    }
-                    valuesAtTime[metric].push(value);
+            const aligned = values.get(key)?.get(time);
+            if (!aligned || Object.keys(aligned).length === 0) continue;
+            modelCount++;
+
+            for (const [metric, value] of Object.entries(aligned)) {
+                if (!valuesAtTime[metric]) {
+                    valuesAtTime[metric] = [];
                 }
+                valuesAtTime[metric].push({ modelKey: key, value });
             }
         }
 
@@ -229,31 +151,85 @@ const calculateDerivedModels = (forecasts: ProcessedForecasts, view: ForecastVie
           continue;
         }
 
-        const medianPoint: any = { time };
+        // Lead time is measured from now; times are local, and daily points use local noon of their day.
+        const targetMs = Date.parse(time.includes('T') ? time + 'Z' : time + 'T12:00:00Z') - utcOffsetSeconds * 1000;
+        const interval = getAccuracyIntervalForLeadTime(Math.max(0, (targetMs - now) / 3600000));
+
+        const spread: { [field: string]: ModelSpread } = {};
+        const medianPoint: any = { time, modelCount, spread };
+        const superPoint: any = { time, modelCount, spread };
         for (const metric of Object.keys(valuesAtTime)) {
-            const sorted = valuesAtTime[metric].sort((a, b) => a - b);
+            const sorted = valuesAtTime[metric].map(v => v.value).sort((a, b) => a - b);
+            spread[metric] = summarizeSpread(sorted);
             const mid = Math.floor(sorted.length / 2);
             medianPoint[metric] = sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
-        }
 
-        if (view === 'hourly') {
-            const rain = medianPoint.rain ?? 0;
-            const snow = medianPoint.snowfall ?? 0;
-            let precipitation_type = 0;
-            if (rain > 0.05) precipitation_type = 1; // rain
-            if (snow > 0.05) precipitation_type = (precipitation_type === 1) ? 2 : 3; // mix or snow
-            medianPoint.precipitation_type = precipitation_type;
-        } else {
-            medianPoint.precipitation_type = null;
+            const weightSet = superEnsembleWeights?.byMetric[DAILY_FIELD_METRICS[metric] ?? metric]?.[interval];
+            superPoint[metric] = blendModelValues(valuesAtTime[metric], weightSet);
         }
 
+        medianPoint.precipitation_type = precipitationTypeFor(medianPoint, view);
+        superPoint.precipitation_type = precipitationTypeFor(superPoint, view);
+
         medianHourly.push(medianPoint);
+        superEnsembleHourly.push(superPoint);
     }
 
     forecasts['median_model'] = { hourly: medianHourly };
+    forecasts['super_ensemble'] = { hourly: superEnsembleHourly };
     console.log('[Processing] Finished calculating derived models.');
 };
 
+/**
+ * Returns a copy of the hourly forecasts with MOS corrections applied to each model that has them.
+ * Lead time is measured from now, as for the Super Ensemble, because processed points no longer
+ * carry their run. Models without corrections are copied through raw.
+ */
+const applyMosCorrections = (forecasts: ProcessedForecasts, utcOffsets: Map<string, number>, summary: MosSummary): ProcessedForecasts => {
+    const corrected: ProcessedForecasts = {};
+    const now = Date.now();
+    for (const [modelKey, data] of Object.entries(forecasts)) {
+        const correction = summary.corrections.find(c => c.modelKey === modelKey);
+        if (!correction) {
+            corrected[modelKey] = data;
+            continue;
+        }
+        const offsetMs = (utcOffsets.get(modelKey) ?? 0) * 1000;
+        corrected[modelKey] = {
+            hourly: data.hourly.map(point => {
+                const targetTime = new Date(Date.parse(point.time + 'Z') - offsetMs);
+                const leadTimeHours = Math.max(0, (targetTime.getTime() - now) / 3600000);
+                const correctedPoint: any = { ...point };
+                for (const metricKey of Object.keys(correction.corrections)) {
+                    const value = (point as any)[metricKey];
+                    if (typeof value !== 'number' || !isFinite(value)) continue;
+                    correctedPoint[metricKey] = correctForecastValue(correction, metricKey, value, targetTime, leadTimeHours) ?? value;
+                }
+                return correctedPoint as ProcessedHourlyData;
+            }),
+        };
+    }
+    return corrected;
+};
+
+const ensemblePointAt = (summary: EnsembleHourlySummary, i: number): EnsemblePointSummary => {
+    const percentiles: EnsemblePointSummary['percentiles'] = {};
+    for (const [variable, bands] of Object.entries(summary.percentiles)) {
+        percentiles[variable as Metric['key']] = {
+            p10: bands.p10[i],
+            p25: bands.p25[i],
+            p50: bands.p50[i],
+            p75: bands.p75[i],
+            p90: bands.p90[i],
+        };
+    }
+    const exceedance: EnsemblePointSummary['exceedance'] = {};
+    for (const [thresholdId, probabilities] of Object.entries(summary.exceedance)) {
+        exceedance[thresholdId] = probabilities[i] ?? null;
+    }
+    return { memberCount: summary.memberCount, percentiles, exceedance };
+};
+
 const processIndividualForecasts = (apiResponses: (OpenMeteoModelResponse & { model: string })[], view: ForecastView): ProcessedForecasts => {
     const processed: ProcessedForecasts = {};
 
@@ -271,7 +247,7 @@ const processIndividualForecasts = (apiResponses: (OpenMeteoModelResponse & { mo
                 temperature_2m_min: dailyData.temperature_2m_min?.[i] ?? null,
                 precipitation: dailyData.precipitation_sum?.[i] ?? null,
                 rain: dailyData.rain_sum?.[i] ?? null,
-                snowfall: dailyData.snowfall_sum?.[i] ?? null, // API provides this in cm
+                snowfall: dailyData.snowfall_sum?.[i] ?? null,
                 wind_speed_10m: null,
                 wind_speed_10m_max: dailyData.wind_speed_10m_max?.[i] ?? null,
                 wind_direction_10m: degreesToCardinal(dailyData.wind_direction_10m_dominant?.[i] ?? null),
@@ -293,27 +269,26 @@ const processIndividualForecasts = (apiResponses: (OpenMeteoModelResponse & { mo
                 let precipitation = hourlyData.precipitation?.[i];
                 
                 if (precipitation === undefined && (rain !== undefined || snow !== undefined)) {
-                    precipitation = (rain ?? 0) + (snow ?? 0);
+                    precipitation = (rain ?? 0) + (snow ?? 0) * SNOW_CM_TO_WATER_MM;
                 }
 
                 let precipitation_type = 0; // 0=none, 1=rain, 2=mix, 3=snow
                 if (rain && rain > 0) precipitation_type = 1;
                 if (snow && snow > 0) precipitation_type = (precipitation_type === 1) ? 2 : 3;
-                
-                const visibility_val = hourlyData.visibility?.[i] ?? null;
 
                 return {
                     time: t,
                     temperature_2m: hourlyData.temperature_2m?.[i] ?? null,
                     precipitation: precipitation ?? null,
                     rain: rain ?? null,
-                    snowfall: (snow ?? null) !== null ? (snow as number) / 10 : null, // mm to cm
+                    snowfall: snow ?? null,
                     wind_speed_10m: hourlyData.wind_speed_10m?.[i] ?? null,
                     wind_direction_10m: degreesToCardinal(hourlyData.wind_direction_10m?.[i] ?? null),
                     wind_gusts_10m: hourlyData.wind_gusts_10m?.[i] ?? null,
                     cloud_cover: hourlyData.cloud_cover?.[i] ?? null,
-                    visibility: visibility_val !== null ? visibility_val / 1609.34 : null, // meters to statute miles
+                    visibility: hourlyData.visibility?.[i] ?? null,
                     precipitation_type,
+                    ...(hourlyData.ensemble ? { ensemble: ensemblePointAt(hourlyData.ensemble, i) } : {}),
                 };
             });
             processed[modelKey] = { hourly: processedHourly };
@@ -322,36 +297,11 @@ const processIndividualForecasts = (apiResponses: (OpenMeteoModelResponse & { mo
     return processed;
 };
 
-type EndpointName = 'forecast' | 'gfs' | 'gem' | 'ecmwf' | 'bom' | 'meteofrance';
-
-function extractModelData(payload: any, model: Model, endpointName: EndpointName, view: ForecastView) {
-  const dataKey = view === 'daily' ? 'daily' : 'hourly';
-  const unitsKey = view === 'daily' ? 'daily_units' : 'hourly_units';
-  
-  if (payload?.[dataKey] && payload?.[unitsKey]) {
-    return { ...payload, model: model.key };
-  }
-  const block = payload?.models?.[model.apiName] || payload?.[model.apiName];
-  if (block?.[dataKey] && block?.[unitsKey]) {
-    const { models, [model.apiName]: _removed, ...baseData } = payload;
-    return { ...baseData, ...block, model: model.key };
-  }
-  throw new Error(`Model data for '${model.apiName}' not found in response from '${endpointName}' endpoint for ${dataKey} view.`);
-}
-
-const DAILY_PARAMS = [
-    'temperature_2m_max', 'temperature_2m_min', 'precipitation_sum', 'rain_sum', 'snowfall_sum', 
-    'wind_speed_10m_max', 'wind_gusts_10m_max', 'wind_direction_10m_dominant'
-];
-
-const fetchAndProcessModels = async (
-  latitude: number,
-  longitude: number,
-  isAccuracyRun: boolean,
-  view: ForecastView
-): Promise<{ successes: (OpenMeteoModelResponse & { model: string })[], failures: ModelError[] }> => {
-  
-  let allModels = MODELS.filter(m => m.category !== 'Derived' && m.enabled !== false);
+// Enabled, non-derived models the user has selected for this purpose and whose domain covers the given point.
+export const getModelsForLocation = (latitude: number, longitude: number, purpose: 'display' | 'tracking' = 'display'): Model[] => {
+  const preferences = loadModelPreferences();
+  const deselected = purpose === 'tracking' ? preferences.untracked : preferences.hidden;
+  let allModels = MODELS.filter(m => m.category !== 'Derived' && m.enabled !== false && !deselected.includes(m.key));
   
   const inUS = isUSMainland(latitude, longitude);
   const gatedModels = allModels.filter(m => {
@@ -364,91 +314,328 @@ const fetchAndProcessModels = async (
       const skippedNames = allModels.filter(m => !gatedModels.includes(m)).map(m => m.name).join(', ');
       console.log(`[Domain Gating] Skipping models for non-US location: ${skippedNames}`);
   }
-  const modelsToFetch = gatedModels;
-  
-  const logPrefix = isAccuracyRun ? '[Accuracy API]' : '[API]';
-  console.log(`${logPrefix} Starting forecast fetch for ${modelsToFetch.length} enabled models for ${view} view.`);
+  return gatedModels;
+};
 
-  const successes: (OpenMeteoModelResponse & { model: string })[] = [];
-  const failures: ModelError[] = [];
+/**
+ * Converts a provider response to canonical units using the units it reports, and spreads coarse
+ * accumulations over the hours they cover. Throws on units it does not understand, which fails the
+ * model into the error log rather than charting it at the wrong scale.
+ */
+const normalizeModelResponse = (response: OpenMeteoModelResponse & { model: string }, modelName: string): OpenMeteoModelResponse & { model: string } => {
+  const normalized = { ...response };
+  if (response.hourly) {
+    let hourly = normalizeBlockUnits(response.hourly, response.hourly_units, `${modelName} (hourly)`);
+    if (hourly.ensemble) {
+      hourly = { ...hourly, ensemble: { ...hourly.ensemble, percentiles: normalizePercentileUnits(hourly.ensemble.percentiles, response.hourly_units!, `${modelName} (ensemble)`) } };
+    }
+    const { block, stepsByVariable } = spreadCoarseAccumulations(hourly);
+    for (const [variable, steps] of Object.entries(stepsByVariable)) {
+      console.log(`[Processing] ${modelName} reports ${steps.join('/')}-hourly ${variable} accumulations; spreading them over each hour.`);
+    }
+    normalized.hourly = block;
+  }
+  if (response.daily) {
+    normalized.daily = normalizeBlockUnits(response.daily, response.daily_units, `${modelName} (daily)`);
+  }
+  return normalized;
+};
+
+/** Converts a local timestamp without a suffix to a UTC one in the same format. */
+const localTimeToUtc = (time: string, utcOffsetSeconds: number): string =>
+  new Date(Date.parse(time + 'Z') - utcOffsetSeconds * 1000).toISOString().slice(0, 16);
 
-  const fetchPromises = modelsToFetch.map(async (model) => {
+/** Rewrites an hourly response's local timestamps as UTC. Open-Meteo applies one offset to the whole series. */
+const shiftResponseToUtc = (response: OpenMeteoModelResponse & { model: string }): OpenMeteoModelResponse & { model: string } => {
+  if (!response.hourly || response.utc_offset_seconds === 0) return response;
+  const time = response.hourly.time.map(t => localTimeToUtc(t, response.utc_offset_seconds));
+  return { ...response, hourly: { ...response.hourly, time }, utc_offset_seconds: 0, timezone: 'GMT', timezone_abbreviation: 'GMT' };
+};
+
+/**
+ * Fetches the claimed responses. The provider's planner groups models that can share a request,
+ * which may also bring back the other view so a later switch needs no download. A grouped call
+ * that fails for any reason but the connection is retried one model at a time. Every claim is
+ * settled on return; the fresh responses come back by data key for the offline cache.
+ */
+const fetchClaimedResponses = async (
+  claimed: { model: Model; claim: ResponseClaim }[],
+  request: ForecastRequest,
+  dataKey: ForecastDataKey,
+  logPrefix: string
+): Promise<Record<ForecastDataKey, (OpenMeteoModelResponse & { model: string })[]>> => {
+  const { latitude, longitude } = request;
+  const companionKey: ForecastDataKey = dataKey === 'daily' ? 'hourly' : 'daily';
+  const fresh: Record<ForecastDataKey, (OpenMeteoModelResponse & { model: string })[]> = { hourly: [], daily: [] };
+  const claims = new Map(claimed.map(({ model, claim }) => [model.key, claim]));
+  const companionClaims: ResponseClaim[] = [];
+
+  const settle = (model: Model, claim: ResponseClaim, key: ForecastDataKey, payload: OpenMeteoModelResponse & { model: string }) => {
     try {
-      const { base: baseUrl, paramName, paramValue } = getEndpointAndParam(model);
-      const endpoint = (model.endpoint || 'forecast') as EndpointName;
+      const response = normalizeModelResponse(payload, model.name);
+      claim.resolve(response);
+      fresh[key].push(response);
+    } catch (error) {
+      claim.reject(error);
+    }
+  };
 
-      const params = new URLSearchParams({
-        latitude: latitude.toString(),
-        longitude: longitude.toString(),
-        wind_speed_unit: 'kn',
-        temperature_unit: 'celsius',
-        precipitation_unit: 'mm',
-        timezone: isAccuracyRun ? 'UTC' : 'auto',
-      });
-
-      if (view === 'daily') {
-        params.append('daily', DAILY_PARAMS.join(','));
-        params.append('forecast_days', '8');
-      } else { // hourly for 'hourly' or 'accuracy'
-        params.append('hourly', model.params.join(','));
-        if (model.forecastDays) {
-          params.append('forecast_days', model.forecastDays.toString());
+  const fetchSingle = async (provider: ForecastProvider, model: Model, claim: ResponseClaim, key: ForecastDataKey) => {
+    try {
+      recordNetworkCall();
+      console.log(`${logPrefix} Requesting ${key} data for ${model.name} from ${provider.name}.`);
+      const payload = key === 'daily'
+        ? await provider.fetchDaily(model, request)
+        : await provider.fetchHourly(model, request);
+      settle(model, claim, key, payload);
+    } catch (error) {
+      claim.reject(error);
+    }
+  };
+
+  const fetchBatch = async (provider: ForecastProvider, batch: ModelBatch) => {
+    // The other view is only requested while some model in the batch still needs it.
+    const companions = new Map<string, ResponseClaim>();
+    if (batch.dataKeys.includes(companionKey)) {
+      for (const model of batch.models) {
+        const companion = claimCompanionResponse(model, responseCacheKey(latitude, longitude, model.key, companionKey), claims.get(model.key)!.runInitTime);
+        if (companion) {
+          companions.set(model.key, companion);
+          companionClaims.push(companion);
         }
       }
+    }
+    const dataKeys = companions.size > 0 ? batch.dataKeys : [dataKey];
+    let remaining = batch.models;
 
-      if (paramName && paramValue) {
-        params.append(paramName, paramValue);
-      }
-      
-      const url = `${baseUrl}?${params.toString()}`;
-      console.log(`${logPrefix} Fetching for ${model.name} from: ${url}`);
-      const response = await queuedFetch(url);
-      const data = await response.json();
-
-      if (data.error && data.reason) throw new Error(data.reason);
-      
-      const modelData = extractModelData(data, model, endpoint, view);
-      const normalizedPayload = { ...modelData };
-      if (view !== 'daily' && normalizedPayload.hourly) {
-          normalizedPayload.hourly = normalizeHourlyDataKeys(modelData.hourly);
+    if (provider.fetchBatch && (batch.models.length > 1 || dataKeys.length > 1)) {
+      const names = batch.models.map(m => m.name).join(', ');
+      try {
+        recordNetworkCall();
+        console.log(`${logPrefix} Requesting ${dataKeys.join(' + ')} data for ${names} from ${provider.name} in one call.`);
+        const results = await provider.fetchBatch({ models: batch.models, dataKeys }, request);
+        remaining = batch.models.filter(model => !results[model.key]?.[dataKey]);
+        for (const model of batch.models) {
+          const primary = results[model.key]?.[dataKey];
+          if (primary) settle(model, claims.get(model.key)!, dataKey, primary);
+          const companion = results[model.key]?.[companionKey];
+          if (companion && companions.has(model.key)) {
+            settle(model, companions.get(model.key)!, companionKey, companion);
+            companions.delete(model.key);
+          }
+        }
+      } catch (error) {
+        if (isConnectivityError(error) || isAbortError(error)) {
+          // Separate calls would fail the same way.
+          batch.models.forEach(model => claims.get(model.key)!.reject(error));
+          companions.forEach(companion => companion.reject(error));
+          return;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`${logPrefix} Combined request for ${names} failed; requesting each model separately. Reason: ${errorMessage}`);
       }
-      successes.push(normalizedPayload);
+    }
 
+    // Requests may already be waiting on other-view responses, so ones that did not come back are fetched too.
+    await Promise.all([
+      ...remaining.map(model => fetchSingle(provider, model, claims.get(model.key)!, dataKey)),
+      ...batch.models.filter(model => companions.has(model.key)).map(model => fetchSingle(provider, model, companions.get(model.key)!, companionKey)),
+    ]);
+  };
+
+  const byProvider = new Map<ForecastProvider, Model[]>();
+  for (const { model, claim } of claimed) {
+    try {
+      const provider = getProviderForModel(model);
+      byProvider.set(provider, [...(byProvider.get(provider) ?? []), model]);
     } catch (error) {
+      claim.reject(error);
+    }
+  }
+
+  try {
+    await Promise.all(Array.from(byProvider, ([provider, models]) => {
+      const batches = provider.planBatches
+        ? provider.planBatches(models, dataKey)
+        : models.map(model => ({ models: [model], dataKeys: [dataKey] }));
+      return Promise.all(batches.map(batch => fetchBatch(provider, batch)));
+    }));
+  } finally {
+    // Settled claims ignore this; it only guards against a waiter hanging on a missed path.
+    const unsettled = new Error('The request was not completed.');
+    claims.forEach(claim => claim.reject(unsettled));
+    companionClaims.forEach(claim => claim.reject(unsettled));
+  }
+  return fresh;
+};
+
+type ModelOutcome = { model: Model; result?: OpenMeteoModelResponse & { model: string }; error?: unknown };
+
+const fetchAndProcessModels = async (
+  latitude: number,
+  longitude: number,
+  isAccuracyRun: boolean,
+  view: ForecastView,
+  modelKeys?: string[],
+  signal?: AbortSignal
+): Promise<{ successes: (OpenMeteoModelResponse & { model: string })[], failures: ModelError[], cachedAt: string | null }> => {
+  
+  const gatedModels = getModelsForLocation(latitude, longitude, isAccuracyRun ? 'tracking' : 'display');
+  const modelsToFetch = modelKeys ? gatedModels.filter(m => modelKeys.includes(m.key)) : gatedModels;
+  
+  const logPrefix = isAccuracyRun ? '[Accuracy API]' : '[API]';
+  console.log(`${logPrefix} Starting forecast fetch for ${modelsToFetch.length} enabled models for ${view} view.`);
+
+  const successes: (OpenMeteoModelResponse & { model: string })[] = [];
+  const failures: ModelError[] = [];
+  const unreachable: Model[] = [];
+
+  // The 'accuracy' view uses hourly data as well. Accuracy runs request local time like the views
+  // and are shifted to UTC afterwards, so both share one cached response per model.
+  const dataKey: ForecastDataKey = view === 'daily' ? 'daily' : 'hourly';
+  const request: ForecastRequest = { latitude, longitude, timezone: 'auto', priority: isAccuracyRun ? 'background' : 'view', signal };
+  const fresh: Record<ForecastDataKey, (OpenMeteoModelResponse & { model: string })[]> = { hourly: [], daily: [] };
+
+  const loadResponses = async (models: Model[]) => {
+    const lookups = await Promise.all(models.map(async model => ({
+      model,
+      ...(await lookupResponse(model, responseCacheKey(latitude, longitude, model.key, dataKey))),
+    })));
+    const claimed = lookups.flatMap(({ model, claim }) => (claim ? [{ model, claim }] : []));
+    const fetched = await fetchClaimedResponses(claimed, request, dataKey, logPrefix);
+    fresh.hourly.push(...fetched.hourly);
+    fresh.daily.push(...fetched.daily);
+    return Promise.all(lookups.map(({ model, response }) => response.then(
+      (result): ModelOutcome => ({ model, result }),
+      (error: unknown): ModelOutcome => ({ model, error }),
+    )));
+  };
+
+  let outcomes = await loadResponses(modelsToFetch);
+  // A lookup that joined another caller's request fails when that caller cancels, so those models are asked for once more.
+  const cancelledElsewhere = signal?.aborted ? [] : outcomes.filter(o => !o.result && isAbortError(o.error)).map(o => o.model);
+  if (cancelledElsewhere.length > 0) {
+    const retried = await loadResponses(cancelledElsewhere);
+    outcomes = [...outcomes.filter(o => !cancelledElsewhere.includes(o.model)), ...retried];
+  }
+
+  // Fresh responses are saved for offline use whichever path fetched them, since they are shared.
+  // Other-view responses that came along are saved under the view that will read them.
+  if (fresh[dataKey].length > 0) {
+    cacheForecastResponses(latitude, longitude, view, fresh[dataKey]);
+  }
+  const companionKey: ForecastDataKey = dataKey === 'daily' ? 'hourly' : 'daily';
+  if (fresh[companionKey].length > 0) {
+    cacheForecastResponses(latitude, longitude, companionKey, fresh[companionKey]);
+  }
+  signal?.throwIfAborted();
+
+  for (const { model, result, error } of outcomes) {
+    if (result) {
+      successes.push(isAccuracyRun ? shiftResponseToUtc(result) : result);
+    } else {
       const errorMessage = error instanceof Error ? error.message : 'Unknown network error';
       console.error(`${logPrefix} Fetch failed for ${model.name}. Reason: ${errorMessage}`);
-      failures.push({ modelName: model.name, reason: errorMessage });
+      if (!isAccuracyRun && isConnectivityError(error)) {
+        unreachable.push(model);
+      } else {
+        failures.push({ modelName: model.name, reason: errorMessage });
+      }
     }
-  });
+  }
 
-  await Promise.all(fetchPromises);
+  // Accuracy runs must only score what the model actually published, so only the views fall back.
+  let cachedAt: string | null = null;
+  if (!isAccuracyRun && unreachable.length > 0) {
+    const cached = await loadCachedForecastResponses(latitude, longitude, view, unreachable.map(m => m.key));
+    for (const model of unreachable) {
+      const entry = cached.find(c => c.modelKey === model.key);
+      if (!entry) {
+        failures.push({ modelName: model.name, reason: 'Offline, and no cached forecast is available.' });
+        continue;
+      }
+      successes.push(entry.response);
+      if (!cachedAt || entry.fetchedAt < cachedAt) cachedAt = entry.fetchedAt;
+    }
+    console.log(`[Cache] Served ${cached.length} of ${unreachable.length} unreachable models from the offline cache.`);
+  }
   
   console.log(`${logPrefix} Fetch complete. Success: ${successes.length}, Failures: ${failures.length}.`);
-  return { successes, failures };
+  return { successes, failures, cachedAt };
 };
 
 export const fetchForecasts = async (
   view: ForecastView,
   latitude: number,
-  longitude: number
-): Promise<{ forecasts: ProcessedForecasts, errors: ModelError[] }> => {
-  const { successes, failures } = await fetchAndProcessModels(latitude, longitude, false, view);
+  longitude: number,
+  signal?: AbortSignal
+): Promise<{ forecasts: ProcessedForecasts, errors: ModelError[], superEnsembleWeights: SuperEnsembleWeights | null, correctedForecasts: ProcessedForecasts | null, mosSummary: MosSummary | null, cachedAt: string | null, utcOffsetSeconds: number }> => {
+  const { successes, failures, cachedAt } = await fetchAndProcessModels(latitude, longitude, false, view, undefined, signal);
+  // Every model is requested in the location's time zone, so one offset covers the processed times.
+  const utcOffsetSeconds = successes[0]?.utc_offset_seconds ?? 0;
     
   console.log('[Processing] Starting to process individual forecast responses...');
   const processed = processIndividualForecasts(successes, view);
-  calculateDerivedModels(processed, view);
 
-  return { forecasts: processed, errors: failures };
+  const blendedKeys = Object.keys(processed).filter(key => MODELS.find(m => m.key === key)?.category !== 'Ensemble');
+  let superEnsembleWeights: SuperEnsembleWeights | null = null;
+  try {
+    superEnsembleWeights = await loadSuperEnsembleWeights(latitude, longitude, blendedKeys);
+  } catch (err) {
+    console.error('[Super Ensemble] Failed to load accuracy weights; blending with equal weights.', err);
+  }
+  calculateDerivedModels(processed, view, superEnsembleWeights, utcOffsetSeconds);
+
+  // MOS corrections are learned from hourly verification, so the daily view stays raw.
+  let correctedForecasts: ProcessedForecasts | null = null;
+  let mosSummary: MosSummary | null = null;
+  if (view === 'hourly') {
+    try {
+      mosSummary = await loadMosSummary(latitude, longitude);
+    } catch (err) {
+      console.error('[MOS] Failed to load corrections; showing raw output only.', err);
+    }
+    if (mosSummary) {
+      const utcOffsets = new Map(successes.map(s => [s.model, s.utc_offset_seconds]));
+      const rawModels = Object.fromEntries(Object.entries(processed).filter(([key]) => MODELS.find(m => m.key === key)?.category !== 'Derived'));
+      correctedForecasts = applyMosCorrections(rawModels, utcOffsets, mosSummary);
+      calculateDerivedModels(correctedForecasts, view, superEnsembleWeights, utcOffsetSeconds);
+    }
+  }
+
+  return { forecasts: processed, errors: failures, superEnsembleWeights, correctedForecasts, mosSummary, cachedAt, utcOffsetSeconds };
+};
+
+/**
+ * The median-model hourly forecast for one place, as shown in the compare view. Times are shifted
+ * to UTC so that places in different time zones line up on one axis.
+ */
+export const fetchMedianHourlyForecast = async (location: Location): Promise<ProcessedHourlyData[]> => {
+  const { forecasts, utcOffsetSeconds } = await fetchForecasts('hourly', location.latitude, location.longitude);
+  const median = forecasts.median_model?.hourly;
+  if (!median || median.length === 0) {
+    throw new Error(`No models returned data for ${location.name}.`);
+  }
+  return median.map(point => ({ ...point, time: localTimeToUtc(point.time, utcOffsetSeconds) }));
 };
 
 export const fetchRawModelRunsForAccuracy = async (
   latitude: number,
-  longitude: number
+  longitude: number,
+  modelKeys?: string[]
 ): Promise<{ successes: (OpenMeteoModelResponse & { model: string })[], failures: ModelError[] }> => {
-  return fetchAndProcessModels(latitude, longitude, true, 'hourly');
+  return fetchAndProcessModels(latitude, longitude, true, 'hourly', modelKeys);
 };
 
-export const fetchPastWeather = async (latitude: number, longitude: number, days: number): Promise<Partial<ActualWeatherRecord>[]> => {
+export const fetchPastWeather = async (
+    latitude: number,
+    longitude: number,
+    days: number,
+    priority: RequestPriority = 'view',
+    signal?: AbortSignal
+): Promise<Partial<ActualWeatherRecord>[]> => {
+    if (isMockProviderEnabled()) return mockPastWeather(latitude, longitude, days);
+
     const nowMs = Date.now();
     const oneDayMs = 24 * 60 * 60 * 1000;
     const endDate = new Date(nowMs).toISOString().split('T')[0];
@@ -456,7 +643,8 @@ export const fetchPastWeather = async (latitude: number, longitude: number, days
     
     const hourlyParams = 'temperature_2m,rain,snowfall,wind_speed_10m,wind_gusts_10m,cloud_cover,visibility';
 
-    const params = new URLSearchParams({
+    const settings = await getOpenMeteoSettings();
+    const params = appendApiKey(new URLSearchParams({
         latitude: latitude.toString(),
         longitude: longitude.toString(),
         start_date: startDate,
@@ -466,13 +654,13 @@ export const fetchPastWeather = async (latitude: number, longitude: number, days
         temperature_unit: 'celsius',
         precipitation_unit: 'mm',
         timezone: 'UTC',
-    });
+    }), settings);
     
-    const url = `${API_ENDPOINTS.archive}?${params.toString()}`;
-    console.log(`[API] Fetching past weather from archive: ${url}`);
+    const url = `${settings.archiveBaseUrl}${API_PATHS.archive}?${params.toString()}`;
+    console.log(`[API] Fetching past weather from archive: ${redactApiKey(url)}`);
     
     try {
-        const response = await queuedFetch(url);
+        const response = await queuedFetch(url, { priority, signal });
         if (!response.ok) {
             const errorData = await response.json();
             throw new Error(errorData.reason || 'Failed to fetch past weather data.');
@@ -484,19 +672,17 @@ export const fetchPastWeather = async (latitude: number, longitude: number, days
             return [];
         }
         
-        const records: Partial<ActualWeatherRecord>[] = data.hourly.time.map((t: string, i: number) => {
-            const visibilityMeters = data.hourly.visibility?.[i] ?? null;
-            return {
-                time: new Date(t + 'Z').toISOString(),
-                temperature_2m: data.hourly.temperature_2m?.[i] ?? null,
-                rain: data.hourly.rain?.[i] ?? null,
-                snowfall: (data.hourly.snowfall?.[i] ?? null) !== null ? data.hourly.snowfall[i] / 10 : null, // mm to cm
-                wind_speed_10m: data.hourly.wind_speed_10m?.[i] ?? null,
-                wind_gusts_10m: data.hourly.wind_gusts_10m?.[i] ?? null,
-                cloud_cover: data.hourly.cloud_cover?.[i] ?? null,
-                visibility: visibilityMeters !== null ? visibilityMeters / 1609.34 : null, // m to mi
-            };
-        });
+        const hourly = normalizeBlockUnits(data.hourly, data.hourly_units, 'Archive');
+        const records: Partial<ActualWeatherRecord>[] = hourly.time.map((t: string, i: number) => ({
+            time: new Date(t + 'Z').toISOString(),
+            temperature_2m: hourly.temperature_2m?.[i] ?? null,
+            rain: hourly.rain?.[i] ?? null,
+            snowfall: hourly.snowfall?.[i] ?? null,
+            wind_speed_10m: hourly.wind_speed_10m?.[i] ?? null,
+            wind_gusts_10m: hourly.wind_gusts_10m?.[i] ?? null,
+            cloud_cover: hourly.cloud_cover?.[i] ?? null,
+            visibility: hourly.visibility?.[i] ?? null,
+        }));
         
         console.log(`[API] Successfully fetched and processed ${records.length} past weather records.`);
         return records;
@@ -0,0 +1,34 @@
+import { ForecastProvider, Model } from '../../types';
+import { OPEN_METEO_PROVIDER_ID } from '../../constants';
+import { createOpenMeteoProvider } from './openMeteoProvider';
+import { mockProvider } from './mockProvider';
+
+const providers = new Map<string, ForecastProvider>();
+
+export const registerForecastProvider = (provider: ForecastProvider): void => {
+    providers.set(provider.id, provider);
+};
+
+registerForecastProvider(createOpenMeteoProvider());
+registerForecastProvider(mockProvider);
+
+// Set USE_MOCK_PROVIDER=true in .env.local to serve every model from synthetic data and run offline.
+export const isMockProviderEnabled = (): boolean => process.env.USE_MOCK_PROVIDER === 'true';
+
+export const getForecastProvider = (providerId: string): ForecastProvider => {
+    const provider = providers.get(providerId);
+    if (!provider) {
+        throw new Error(`No forecast provider is registered with id '${providerId}'.`);
+    }
+    return provider;
+};
+
+export const getProviderForModel = (model: Model): ForecastProvider =>
+    isMockProviderEnabled() ? mockProvider : getForecastProvider(model.provider?.providerId ?? OPEN_METEO_PROVIDER_ID);
+
+// Used for data that is not tied to a model, such as current conditions.
+export const getDefaultForecastProvider = (): ForecastProvider =>
+    isMockProviderEnabled() ? mockProvider : getForecastProvider(OPEN_METEO_PROVIDER_ID);
+
+export const modelSupportsMetric = (model: Model, metricKey: string): boolean =>
+    getProviderForModel(model).supportsMetric(model, metricKey);
@@ -0,0 +1,211 @@
+import { ForecastProvider, ForecastRequest, Model, OpenMeteoModelResponse, HourlyData, HourlyUnit, DailyData, DailyUnit, CurrentWeather, Location, ActualWeatherRecord } from '../../types';
+import { ENSEMBLE_EXCEEDANCE_THRESHOLDS } from '../../constants';
+import { collapseEnsembleMembers } from '../../utils/ensembleStats';
+
+export const MOCK_PROVIDER_ID = 'mock';
+
+const HOUR_MS = 3600 * 1000;
+const DEFAULT_FORECAST_DAYS = 7;
+const MOCK_ENSEMBLE_MEMBERS = 20;
+
+// Deterministic per-model noise so repeated loads (and accuracy runs) see stable values.
+const hashString = (value: string): number => {
+    let hash = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+};
+
+const noise = (seed: number, step: number): number => {
+    const x = Math.sin(seed * 0.0001 + step * 12.9898) * 43758.5453;
+    return (x - Math.floor(x)) * 2 - 1; // -1..1
+};
+
+interface SyntheticHour {
+    temperature_2m: number;
+    rain: number;
+    snowfall: number; // mm, as declared in MOCK_HOURLY_UNITS
+    wind_speed_10m: number;
+    wind_direction_10m: number;
+    wind_gusts_10m: number;
+    cloud_cover: number;
+    visibility: number; // metres
+}
+
+// A smooth "true" weather signal for the location, perturbed per source so models disagree a little.
+const syntheticHour = (latitude: number, longitude: number, timeMs: number, source: string): SyntheticHour => {
+    const seed = hashString(`${latitude.toFixed(2)},${longitude.toFixed(2)}`);
+    const sourceSeed = hashString(source);
+    const hourIndex = Math.floor(timeMs / HOUR_MS);
+    const localHour = ((timeMs / HOUR_MS) + longitude / 15) % 24;
+    const spread = source === 'truth' ? 0 : 1;
+
+    const base = 12 - Math.abs(latitude) / 5 + 4 * Math.sin(hourIndex / 53 + seed);
+    const temperature = base + 6 * Math.sin((2 * Math.PI * (localHour - 9)) / 24) + spread * 1.5 * noise(sourceSeed, hourIndex / 6);
+    const wetness = Math.sin(hourIndex / 17 + seed) + spread * 0.3 * noise(sourceSeed, hourIndex);
+    const precipitation = wetness > 0.6 ? (wetness - 0.6) * 4 : 0;
+    const wind = Math.max(0, 10 + 6 * Math.sin(hourIndex / 11 + seed) + spread * 3 * noise(sourceSeed + 1, hourIndex));
+    const cloud = Math.min(100, Math.max(0, 50 + 60 * wetness + spread * 10 * noise(sourceSeed + 2, hourIndex)));
+
+    return {
+        temperature_2m: Math.round(temperature * 10) / 10,
+        rain: temperature > 0 ? Math.round(precipitation * 10) / 10 : 0,
+        snowfall: temperature <= 0 ? Math.round(precipitation * 10) : 0,
+        wind_speed_10m: Math.round(wind),
+        wind_direction_10m: Math.round((270 + 90 * Math.sin(hourIndex / 29 + seed) + 360) % 360),
+        wind_gusts_10m: Math.round(wind * 1.5),
+        cloud_cover: Math.round(cloud),
+        visibility: precipitation > 0 ? 5000 : 24000,
+    };
+};
+
+// Declared like a real response so the synthetic values go through the same unit normalization.
+const MOCK_HOURLY_UNITS: HourlyUnit = {
+    time: 'iso8601', temperature_2m: '°C', precipitation: 'mm', rain: 'mm', snowfall: 'mm',
+    wind_speed_10m: 'kn', wind_direction_10m: '°', wind_gusts_10m: 'kn', cloud_cover: '%', visibility: 'm',
+};
+
+const MOCK_DAILY_UNITS: DailyUnit = {
+    time: 'iso8601', temperature_2m_max: '°C', temperature_2m_min: '°C', precipitation_sum: 'mm', rain_sum: 'mm',
+    snowfall_sum: 'cm', wind_speed_10m_max: 'kn', wind_gusts_10m_max: 'kn', wind_direction_10m_dominant: '°',
+};
+
+// Open-Meteo formats times without seconds or a zone designator.
+const formatTime = (timeMs: number) => new Date(timeMs).toISOString().slice(0, 16);
+
+const startOfUtcDay = (timeMs: number) => Math.floor(timeMs / (24 * HOUR_MS)) * 24 * HOUR_MS;
+
+const baseResponse = (request: ForecastRequest): Omit<OpenMeteoModelResponse, 'model'> => ({
+    latitude: request.latitude,
+    longitude: request.longitude,
+    generationtime_ms: 0,
+    utc_offset_seconds: 0,
+    timezone: 'UTC',
+    timezone_abbreviation: 'UTC',
+    elevation: 0,
+});
+
+// Some models list the legacy concatenated names (e.g. 'windspeed_10m').
+const canonicalParam = (param: string) =>
+    param.replace('windspeed', 'wind_speed').replace('winddirection', 'wind_direction').replace('windgusts', 'wind_gusts').replace('cloudcover', 'cloud_cover');
+
+const buildHourly = (model: Model, request: ForecastRequest, days: number): HourlyData => {
+    const start = startOfUtcDay(Date.now());
+    const hourly: any = { time: [] as string[] };
+    const requested = new Set(model.params.map(canonicalParam));
+    for (let h = 0; h < days * 24; h++) {
+        const timeMs = start + h * HOUR_MS;
+        const values = syntheticHour(request.latitude, request.longitude, timeMs, model.key);
+        hourly.time.push(formatTime(timeMs));
+        for (const [key, value] of Object.entries(values)) {
+            if (!requested.has(key)) continue;
+            (hourly[key] = hourly[key] || []).push(value);
+        }
+        if (requested.has('precipitation')) {
+            (hourly.precipitation = hourly.precipitation || []).push(values.rain + values.snowfall / 10);
+        }
+    }
+    return hourly as HourlyData;
+};
+
+// Each member is its own perturbed source, collapsed exactly like a real ensemble response.
+const buildEnsembleHourly = (model: Model, request: ForecastRequest, days: number): HourlyData => {
+    const control = buildHourly(model, request, days);
+    const block: { time: string[]; [key: string]: any } = { ...control };
+    for (let m = 1; m < MOCK_ENSEMBLE_MEMBERS; m++) {
+        const member = buildHourly({ ...model, key: `${model.key}_member${m}` }, request, days);
+        for (const [key, values] of Object.entries(member)) {
+            if (key !== 'time') block[`${key}_member${String(m).padStart(2, '0')}`] = values;
+        }
+    }
+    const { data, summary } = collapseEnsembleMembers(block, ENSEMBLE_EXCEEDANCE_THRESHOLDS);
+    return { ...data, ensemble: summary } as HourlyData;
+};
+
+export const mockProvider: ForecastProvider = {
+    id: MOCK_PROVIDER_ID,
+    name: 'Offline mock data',
+    fetchHourly: async (model, request) => ({
+        ...baseResponse(request),
+        hourly_units: MOCK_HOURLY_UNITS,
+        hourly: model.category === 'Ensemble'
+            ? buildEnsembleHourly(model, request, model.forecastDays ?? DEFAULT_FORECAST_DAYS)
+            : buildHourly(model, request, model.forecastDays ?? DEFAULT_FORECAST_DAYS),
+        model: model.key,
+    }),
+    fetchDaily: async (model, request) => {
+        const hourly = buildHourly({ ...model, params: ['temperature_2m', 'rain', 'snowfall', 'wind_speed_10m', 'wind_direction_10m', 'wind_gusts_10m'] }, request, 8);
+        const daily: DailyData = {
+            time: [], temperature_2m_max: [], temperature_2m_min: [], precipitation_sum: [], rain_sum: [],
+            snowfall_sum: [], wind_speed_10m_max: [], wind_gusts_10m_max: [], wind_direction_10m_dominant: [],
+        };
+        for (let d = 0; d < 8; d++) {
+            const slice = (values?: (number | null)[]) => (values ?? []).slice(d * 24, (d + 1) * 24).map(v => v ?? 0);
+            const rain = slice(hourly.rain).reduce((a, b) => a + b, 0);
+            const snow = slice(hourly.snowfall).reduce((a, b) => a + b, 0) / 10; // daily sums are already in cm
+            daily.time.push(hourly.time[d * 24].slice(0, 10));
+            daily.temperature_2m_max!.push(Math.max(...slice(hourly.temperature_2m)));
+            daily.temperature_2m_min!.push(Math.min(...slice(hourly.temperature_2m)));
+            daily.precipitation_sum!.push(Math.round((rain + snow * 10) * 10) / 10);
+            daily.rain_sum!.push(Math.round(rain * 10) / 10);
+            daily.snowfall_sum!.push(Math.round(snow * 10) / 10);
+            daily.wind_speed_10m_max!.push(Math.max(...slice(hourly.wind_speed_10m)));
+            daily.wind_gusts_10m_max!.push(Math.max(...slice(hourly.wind_gusts_10m)));
+            daily.wind_direction_10m_dominant!.push(slice(hourly.wind_direction_10m)[12]);
+        }
+        return { ...baseResponse(request), daily_units: MOCK_DAILY_UNITS, daily, model: model.key };
+    },
+    fetchCurrent: async (latitude, longitude) => {
+        const now = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+        const values = syntheticHour(latitude, longitude, now, 'truth');
+        const localHour = ((now / HOUR_MS) + longitude / 15 + 24) % 24;
+        const current: CurrentWeather = {
+            ...values,
+            snowfall: values.snowfall / 10,
+            time: formatTime(now),
+            weather_code: values.snowfall > 0 ? 73 : values.rain > 0 ? 63 : values.cloud_cover > 60 ? 3 : 1,
+            is_day: localHour >= 7 && localHour < 19 ? 1 : 0,
+            dew_point_2m: values.temperature_2m - 4,
+            pressure_msl: 1013,
+            cloud_cover_low: Math.round(values.cloud_cover * 0.6),
+            cloud_cover_mid: Math.round(values.cloud_cover * 0.3),
+            cloud_cover_high: Math.round(values.cloud_cover * 0.2),
+        };
+        return { current, timezoneAbbreviation: 'UTC' };
+    },
+    supportsMetric: (model, metricKey) => model.params.some(p => canonicalParam(p) === metricKey),
+};
+
+export const mockSearchLocations = (query: string): Location[] => {
+    const seed = hashString(query.toLowerCase());
+    return [0, 1, 2].map(i => ({
+        id: seed + i,
+        name: `${query} ${i === 0 ? '' : `(${i + 1})`}`.trim(),
+        latitude: Math.round((40 + noise(seed, i) * 15) * 100) / 100,
+        longitude: Math.round((-100 + noise(seed + 1, i) * 20) * 100) / 100,
+        country: 'Offline',
+        admin1: 'Mock Data',
+    }));
+};
+
+// Observations are the same smooth signal the mock models scatter around, so accuracy scores are meaningful.
+export const mockPastWeather = (latitude: number, longitude: number, days: number): Partial<ActualWeatherRecord>[] => {
+    const end = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+    const records: Partial<ActualWeatherRecord>[] = [];
+    for (let timeMs = startOfUtcDay(end - days * 24 * HOUR_MS); timeMs <= end; timeMs += HOUR_MS) {
+        const values = syntheticHour(latitude, longitude, timeMs, 'truth');
+        records.push({
+            time: new Date(timeMs).toISOString(),
+            temperature_2m: values.temperature_2m,
+            rain: values.rain,
+            snowfall: values.snowfall / 10,
+            wind_speed_10m: values.wind_speed_10m,
+            wind_gusts_10m: values.wind_gusts_10m,
+            cloud_cover: values.cloud_cover,
+            visibility: values.visibility / 1609.34,
+        });
+    }
+    return records;
+};
@@ -0,0 +1,305 @@
+import { ForecastProvider, ForecastRequest, ForecastDataKey, Model, ModelBatch, ModelBatchResult, OpenMeteoEndpoint, HourlyData, CurrentWeatherResult } from '../../types';
+import { OPEN_METEO_PROVIDER_ID, ENSEMBLE_EXCEEDANCE_THRESHOLDS } from '../../constants';
+import { collapseEnsembleMembers } from '../../utils/ensembleStats';
+import { queuedFetch, isAbortError } from '../requestQueue';
+import { getOpenMeteoSettings, getForecastBaseUrl, appendApiKey, redactApiKey } from '../settingsService';
+
+const ENDPOINT_PATHS: Record<OpenMeteoEndpoint, string> = {
+  forecast: '/v1/forecast',
+  gem: '/v1/gem',
+  ecmwf: '/v1/ecmwf',
+  gfs: '/v1/gfs',
+  bom: '/v1/bom',
+  meteofrance: '/v1/meteofrance',
+  ensemble: '/v1/ensemble',
+};
+
+const DAILY_PARAMS = [
+    'temperature_2m_max', 'temperature_2m_min', 'precipitation_sum', 'rain_sum', 'snowfall_sum', 
+    'wind_speed_10m_max', 'wind_gusts_10m_max', 'wind_direction_10m_dominant'
+];
+
+// FIX: Made the endpoint routing comprehensive to handle all model types.
+function getEndpointAndParam(model: Model) {
+  switch ((model.provider?.endpoint ?? 'forecast') as OpenMeteoEndpoint) {
+    case 'gfs':
+      return { endpoint: 'gfs' as const, paramName: 'models', paramValue: model.apiName };
+    case 'gem':
+      return { endpoint: 'gem' as const, paramName: 'domain', paramValue: model.apiName };
+    case 'bom':
+      return { endpoint: 'bom' as const, paramName: 'domain', paramValue: model.apiName };
+    case 'meteofrance':
+      return { endpoint: 'meteofrance' as const, paramName: 'domain', paramValue: model.apiName };
+    case 'ecmwf':
+      return { endpoint: 'ecmwf' as const, paramName: undefined, paramValue: undefined };
+    case 'ensemble':
+      return { endpoint: 'ensemble' as const, paramName: 'models', paramValue: model.apiName };
+    case 'forecast':
+    default:
+      return { endpoint: 'forecast' as const, paramName: 'models', paramValue: model.apiName };
+  }
+}
+
+const HOURLY_KEY_ALIASES: Record<string, string> = {
+  windspeed_10m: 'wind_speed_10m',
+  winddirection_10m: 'wind_direction_10m',
+  windgusts_10m: 'wind_gusts_10m',
+  cloudcover: 'cloud_cover',
+};
+
+const normalizeHourlyDataKeys = (hourly: HourlyData): HourlyData => {
+  const suffixes = ['', '_mean', '_dominant', '_percentile_25', '_percentile_50', '_percentile_75'];
+  const out: any = { ...hourly };
+  for (const [bad, good] of Object.entries(HOURLY_KEY_ALIASES)) {
+    for (const s of suffixes) {
+      const from = `${bad}${s}`, to = `${good}${s}`;
+      if (from in out) { out[to] = out[from]; delete out[from]; }
+    }
+  }
+  out.time = hourly.time;
+  return out as HourlyData;
+};
+
+function extractModelData(payload: any, model: Model, endpointName: OpenMeteoEndpoint, dataKey: ForecastDataKey) {
+  const unitsKey = dataKey === 'daily' ? 'daily_units' : 'hourly_units';
+  
+  if (payload?.[dataKey] && payload?.[unitsKey]) {
+    return { ...payload, model: model.key };
+  }
+  const block = payload?.models?.[model.apiName] || payload?.[model.apiName];
+  if (block?.[dataKey] && block?.[unitsKey]) {
+    const { models, [model.apiName]: _removed, ...baseData } = payload;
+    return { ...baseData, ...block, model: model.key };
+  }
+  throw new Error(`Model data for '${model.apiName}' not found in response from '${endpointName}' endpoint for ${dataKey} view.`);
+}
+
+// Responses for several models carry every variable once per model, suffixed with its API name
+// (e.g. temperature_2m_icon_global). Picks out this model's own variables under their plain names.
+function splitModelData(payload: any, model: Model, endpointName: OpenMeteoEndpoint, dataKey: ForecastDataKey) {
+  const unitsKey = dataKey === 'daily' ? 'daily_units' : 'hourly_units';
+  const params = dataKey === 'daily' ? DAILY_PARAMS : model.params;
+  const suffix = `_${model.apiName}`;
+  const data = payload?.[dataKey];
+  const units = payload?.[unitsKey];
+
+  if (data?.time && units && params.some(p => `${p}${suffix}` in data)) {
+    const pick = (block: any) => {
+      const out: any = { time: block.time };
+      for (const p of params) {
+        if (`${p}${suffix}` in block) out[p] = block[`${p}${suffix}`];
+      }
+      return out;
+    };
+    const { hourly, hourly_units, daily, daily_units, ...baseData } = payload;
+    return { ...baseData, [dataKey]: pick(data), [unitsKey]: pick(units), model: model.key };
+  }
+  throw new Error(`Model data for '${model.apiName}' not found in combined response from '${endpointName}' endpoint for ${dataKey} view.`);
+}
+
+// Endpoints that take a comma-separated `models` list. The others serve one domain per request, and
+// the ensemble endpoint's per-member variables are already large enough on their own.
+const MULTI_MODEL_ENDPOINTS: OpenMeteoEndpoint[] = ['forecast', 'gfs'];
+
+const otherDataKey = (dataKey: ForecastDataKey): ForecastDataKey => (dataKey === 'daily' ? 'hourly' : 'daily');
+
+/**
+ * Groups models that can share one request: models on the same multi-model endpoint and hourly
+ * horizon are requested together. One forecast_days applies to the whole request, so hourly and
+ * daily data only come back in the same call for models on the default horizon, which then get
+ * the eight days the daily view needs.
+ */
+const planBatches = (models: Model[], dataKey: ForecastDataKey): ModelBatch[] => {
+  const batches = new Map<string, ModelBatch>();
+  for (const model of models) {
+    const { endpoint } = getEndpointAndParam(model);
+    const combined = !model.forecastDays && endpoint !== 'ensemble';
+    const horizon = dataKey === 'hourly' ? model.forecastDays ?? '' : '';
+    const groupKey = MULTI_MODEL_ENDPOINTS.includes(endpoint)
+      ? `${endpoint}|${combined}|${horizon}`
+      : `${endpoint}|${model.key}`;
+    const batch = batches.get(groupKey);
+    if (batch) {
+      batch.models.push(model);
+    } else {
+      batches.set(groupKey, { models: [model], dataKeys: combined ? [dataKey, otherDataKey(dataKey)] : [dataKey] });
+    }
+  }
+  return Array.from(batches.values());
+};
+
+/**
+ * Open-Meteo forecast provider. The base URL can point at a self-hosted instance, which serves
+ * the same per-domain endpoints under /v1. Without an explicit base URL, the hosts and API key
+ * come from the saved Open-Meteo settings and are re-read on every request.
+ */
+export const createOpenMeteoProvider = (
+  options: { id?: string; name?: string; apiBaseUrl?: string } = {}
+): ForecastProvider => {
+  const resolveRequestContext = async (endpoint: OpenMeteoEndpoint) => {
+    const settings = await getOpenMeteoSettings();
+    const baseUrl = options.apiBaseUrl ? options.apiBaseUrl.replace(/\/+$/, '') : getForecastBaseUrl(settings, endpoint);
+    return { settings, baseUrl };
+  };
+
+  // Models passed together must come from one batch, i.e. share an endpoint and hourly horizon.
+  const requestModels = async (models: Model[], request: ForecastRequest, dataKeys: ForecastDataKey[]) => {
+    const { endpoint, paramName } = getEndpointAndParam(models[0]);
+    const { settings, baseUrl } = await resolveRequestContext(endpoint);
+
+    const params = new URLSearchParams({
+      latitude: request.latitude.toString(),
+      longitude: request.longitude.toString(),
+      wind_speed_unit: 'kn',
+      temperature_unit: 'celsius',
+      precipitation_unit: 'mm',
+      timezone: request.timezone,
+    });
+
+    if (dataKeys.includes('daily')) {
+      params.append('daily', DAILY_PARAMS.join(','));
+      params.append('forecast_days', '8');
+    }
+    if (dataKeys.includes('hourly')) {
+      params.append('hourly', Array.from(new Set(models.flatMap(m => m.params))).join(','));
+      if (!dataKeys.includes('daily') && models[0].forecastDays) {
+        params.append('forecast_days', models[0].forecastDays.toString());
+      }
+    }
+
+    const paramValues = models.map(m => getEndpointAndParam(m).paramValue).filter(Boolean);
+    if (paramName && paramValues.length > 0) {
+      params.append(paramName, paramValues.join(','));
+    }
+    appendApiKey(params, settings);
+    
+    const url = `${baseUrl}${ENDPOINT_PATHS[endpoint]}?${params.toString()}`;
+    console.log(`[API] Fetching ${dataKeys.join(' + ')} for ${models.map(m => m.name).join(', ')} from: ${redactApiKey(url)}`);
+    const response = await queuedFetch(url, { priority: request.priority, signal: request.signal });
+    const data = await response.json();
+
+    if (data.error && data.reason) throw new Error(data.reason);
+    return { data, endpoint };
+  };
+
+  const finishModelData = (modelData: any, model: Model, endpoint: OpenMeteoEndpoint, dataKey: ForecastDataKey) => {
+    // A combined response also holds the other view, which is handed out separately.
+    const other = otherDataKey(dataKey);
+    delete modelData[other];
+    delete modelData[`${other}_units`];
+
+    if (endpoint === 'ensemble' && modelData[dataKey]) {
+      const { data: collapsed, summary } = collapseEnsembleMembers(modelData[dataKey], ENSEMBLE_EXCEEDANCE_THRESHOLDS);
+      console.log(`[API] Collapsed ${summary.memberCount} ensemble members for ${model.name}.`);
+      modelData[dataKey] = dataKey === 'hourly' ? { ...collapsed, ensemble: summary } : collapsed;
+    }
+    if (dataKey === 'hourly' && modelData.hourly) {
+      modelData.hourly = normalizeHourlyDataKeys(modelData.hourly);
+      // Units are keyed like the data, so legacy names must be renamed in both.
+      modelData.hourly_units = normalizeHourlyDataKeys(modelData.hourly_units);
+    }
+    return modelData;
+  };
+
+  const fetchModel = async (model: Model, request: ForecastRequest, dataKey: ForecastDataKey) => {
+    const { data, endpoint } = await requestModels([model], request, [dataKey]);
+    return finishModelData(extractModelData(data, model, endpoint, dataKey), model, endpoint, dataKey);
+  };
+
+  // A model missing from the combined response is left out of the result rather than failing the
+  // others; the caller requests it on its own.
+  const fetchBatch = async (batch: ModelBatch, request: ForecastRequest): Promise<ModelBatchResult> => {
+    const { data, endpoint } = await requestModels(batch.models, request, batch.dataKeys);
+    const result: ModelBatchResult = {};
+    for (const model of batch.models) {
+      const payloads: ModelBatchResult[string] = {};
+      for (const dataKey of batch.dataKeys) {
+        try {
+          const modelData = batch.models.length > 1
+            ? splitModelData(data, model, endpoint, dataKey)
+            : extractModelData(data, model, endpoint, dataKey);
+          payloads[dataKey] = finishModelData(modelData, model, endpoint, dataKey);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn(`[API] ${message}`);
+        }
+      }
+      result[model.key] = payloads;
+    }
+    return result;
+  };
+
+  const fetchCurrent = async (latitude: number, longitude: number, signal?: AbortSignal): Promise<CurrentWeatherResult> => {
+    try {
+        const { settings, baseUrl } = await resolveRequestContext('forecast');
+        const currentParams = 'temperature_2m,wind_speed_10m,wind_direction_10m,weather_code,is_day,wind_gusts_10m,cloud_cover,visibility,rain,snowfall,dew_point_2m,pressure_msl';
+        // Request low/mid/high cloud cover; names must match Open-Meteo docs (cloud_cover_low/mid/high).
+        const hourlyCloudParams = 'temperature_2m,cloud_cover_low,cloud_cover_mid,cloud_cover_high';
+        
+        const params = new URLSearchParams({
+            latitude: latitude.toString(),
+            longitude: longitude.toString(),
+            current: currentParams,
+            hourly: hourlyCloudParams,
+            forecast_days: '1', // We only need a few hours to find the closest one
+            wind_speed_unit: 'kn',
+            temperature_unit: 'celsius',
+            precipitation_unit: 'mm',
+        });
+        appendApiKey(params, settings);
+        const url = `${baseUrl}${ENDPOINT_PATHS.forecast}?${params.toString()}`;
+        console.log(`[API] Fetching current weather from: ${redactApiKey(url)}`);
+        const response = await queuedFetch(url, { priority: 'interactive', signal });
+        
+        if (response.ok) {
+            const data = await response.json();
+            console.log(`[API] Successfully fetched current weather.`);
+            
+            // Augment current weather with cloud layer data from the closest hourly forecast point
+            if (data.current && data.hourly && data.hourly.time?.length > 0) {
+                const currentTime = new Date(data.current.time).getTime();
+                let closestHourIndex = 0;
+                let minDiff = Infinity;
+                
+                data.hourly.time.forEach((t: string, i: number) => {
+                    const diff = Math.abs(new Date(t).getTime() - currentTime);
+                    if (diff < minDiff) {
+                        minDiff = diff;
+                        closestHourIndex = i;
+                    }
+                });
+
+                data.current.cloud_cover_low = data.hourly.cloud_cover_low?.[closestHourIndex] ?? data.current.cloud_cover ?? 0;
+                data.current.cloud_cover_mid = data.hourly.cloud_cover_mid?.[closestHourIndex] ?? 0;
+                data.current.cloud_cover_high = data.hourly.cloud_cover_high?.[closestHourIndex] ?? 0;
+            }
+
+            return {
+                current: data.current || null,
+                timezoneAbbreviation: data.timezone_abbreviation,
+            };
+        } else {
+            const errorData = await response.json();
+            console.error(`[API] Error fetching current weather (${response.status}):`, errorData);
+            return { current: null, error: errorData.reason || 'Failed to fetch current weather.' };
+        }
+    } catch (error) {
+        // A cancelled request has no error to show; the caller has moved on.
+        if (isAbortError(error)) throw error;
+        console.error('[API] Network error fetching current weather:', error);
+        return { current: null, error: 'A network error occurred while fetching current weather.' };
+    }
+  };
+
+  return {
+    id: options.id ?? OPEN_METEO_PROVIDER_ID,
+    name: options.name ?? 'Open-Meteo',
+    fetchHourly: (model, request) => fetchModel(model, request, 'hourly'),
+    fetchDaily: (model, request) => fetchModel(model, request, 'daily'),
+    fetchCurrent,
+    planBatches,
+    fetchBatch,
+    // GEM and ECMWF request the legacy concatenated names, which are normalized on the way in.
+    supportsMetric: (model, metricKey) => model.params.some(p => (HOURLY_KEY_ALIASES[p] ?? p) === metricKey),
+  };
+};
@@ -0,0 +1,191 @@
+import { RequestPriority } from '../types';
+
+// Request scheduler shared by every service that calls Open-Meteo or the METAR feed. Waiting
+// requests start in priority order, each host gets a few concurrent connections with a short gap
+// between starts, slow requests time out, and rate-limited (429) or failing (5xx) requests are
+// retried with exponential backoff that honours Retry-After. Aborting a request's signal drops it
+// from the queue, or cancels it if it has already started.
+
+export interface QueuedFetchOptions extends Omit<RequestInit, 'priority'> {
+  priority?: RequestPriority; // Queue order, in place of fetch's own priority hint
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { interactive: 0, view: 1, background: 2 };
+const MAX_CONCURRENT_PER_HOST = 3;
+const MIN_REQUEST_INTERVAL = 100; // ms between request starts on one host
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+interface ScheduledRequest {
+  url: string;
+  host: string;
+  init: RequestInit;
+  priority: RequestPriority;
+  timeoutMs: number;
+  maxRetries: number;
+  sequence: number;
+  attempt: number;
+  notBefore: number;
+  controller: AbortController | null; // Set while the request is on the wire
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+interface HostState {
+  active: number;
+  lastStartedAt: number;
+  blockedUntil: number; // Set by a 429, which applies to every request to the host
+}
+
+const queue: ScheduledRequest[] = [];
+const hosts = new Map<string, HostState>();
+let nextSequence = 0;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+let wakeAt = Infinity;
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const hostState = (host: string): HostState => {
+  let state = hosts.get(host);
+  if (!state) {
+    state = { active: 0, lastStartedAt: 0, blockedUntil: 0 };
+    hosts.set(host, state);
+  }
+  return state;
+};
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Jitter keeps requests that failed together from retrying in lockstep.
+const backoffDelay = (attempt: number, retryAfter: string | null): number => {
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt * (0.5 + Math.random() / 2);
+  return Math.min(MAX_BACKOFF_MS, parseRetryAfter(retryAfter) ?? exponential);
+};
+
+const scheduleWake = (at: number) => {
+  if (at === Infinity || (wakeTimer && at >= wakeAt)) return;
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeAt = at;
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null;
+    wakeAt = Infinity;
+    pump();
+  }, Math.max(0, at - Date.now()));
+};
+
+function pump() {
+  const now = Date.now();
+  queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.sequence - b.sequence);
+
+  let nextWake = Infinity;
+  for (const request of [...queue]) {
+    const host = hostState(request.host);
+    // A finished request pumps again, so a full host needs no timer.
+    if (host.active >= MAX_CONCURRENT_PER_HOST) continue;
+    const readyAt = Math.max(request.notBefore, host.blockedUntil, host.lastStartedAt + MIN_REQUEST_INTERVAL);
+    if (readyAt > now) {
+      nextWake = Math.min(nextWake, readyAt);
+      continue;
+    }
+    queue.splice(queue.indexOf(request), 1);
+    host.active++;
+    host.lastStartedAt = now;
+    send(request);
+  }
+  scheduleWake(nextWake);
+}
+
+async function send(request: ScheduledRequest) {
+  const host = hostState(request.host);
+  const controller = new AbortController();
+  request.controller = controller;
+  const timer = setTimeout(
+    () => controller.abort(new DOMException(`No response from ${request.host} within ${request.timeoutMs / 1000}s.`, 'TimeoutError')),
+    request.timeoutMs
+  );
+
+  let retryDelay: number | null = null;
+  try {
+    const response = await fetch(request.url, { ...request.init, signal: controller.signal, cache: 'no-store' });
+    if (RETRYABLE_STATUSES.has(response.status) && request.attempt < request.maxRetries) {
+      retryDelay = backoffDelay(request.attempt, response.headers.get('Retry-After'));
+      if (response.status === 429) host.blockedUntil = Math.max(host.blockedUntil, Date.now() + retryDelay);
+      console.warn(`[API] ${request.host} returned ${response.status}; retrying in ${(retryDelay / 1000).toFixed(1)}s (retry ${request.attempt + 1} of ${request.maxRetries}).`);
+      response.body?.cancel().catch(() => undefined);
+    } else {
+      request.resolve(response);
+    }
+  } catch (error) {
+    // The abort reason is the caller's cancellation or the timeout above, not fetch's generic error.
+    request.reject(controller.signal.aborted ? controller.signal.reason : error);
+  } finally {
+    clearTimeout(timer);
+    request.controller = null;
+    host.active--;
+  }
+
+  if (retryDelay !== null) {
+    if (request.init.signal?.aborted) {
+      request.reject(request.init.signal.reason);
+    } else {
+      request.attempt++;
+      request.notBefore = Date.now() + retryDelay;
+      queue.push(request);
+    }
+  }
+  pump();
+}
+
+export async function queuedFetch(url: string, options: QueuedFetchOptions = {}): Promise<Response> {
+  const { priority = 'view', timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES, ...init } = options;
+  const signal = init.signal;
+  signal?.throwIfAborted();
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      const index = queue.indexOf(request);
+      if (index >= 0) {
+        queue.splice(index, 1);
+        request.reject(signal!.reason);
+      } else {
+        request.controller?.abort(signal!.reason);
+      }
+    };
+    const request: ScheduledRequest = {
+      url,
+      host: new URL(url).host,
+      init,
+      priority,
+      timeoutMs,
+      maxRetries,
+      sequence: nextSequence++,
+      attempt: 0,
+      notBefore: 0,
+      controller: null,
+      resolve: (response) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(response);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    };
+    signal?.addEventListener('abort', onAbort);
+    queue.push(request);
+    pump();
+  });
+}
@@ -0,0 +1,140 @@
+import { ForecastDataKey, Model, OpenMeteoModelResponse, ResponseCacheModelStats, ResponseCacheStats } from '../types';
+import { resolveModelRun } from './modelRunService';
+
+// In-memory cache of normalized model responses, keyed by place, model and data kind. An entry is
+// reused until the model is expected to have published a newer run, so the 15-minute refresh and
+// the hourly accuracy cycle only download models that have actually updated.
+
+type ModelResponse = OpenMeteoModelResponse & { model: string };
+
+interface CacheEntry {
+    response: ModelResponse;
+    runInitTime: string;
+}
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<ModelResponse>>();
+const statsByModel = new Map<string, ResponseCacheModelStats>();
+let networkCalls = 0;
+
+const statsFor = (modelKey: string): ResponseCacheModelStats => {
+    let stats = statsByModel.get(modelKey);
+    if (!stats) {
+        stats = { hits: 0, misses: 0, coalesced: 0, prefetched: 0, invalidations: 0, runInitTime: null, lastFetchedAt: null };
+        statsByModel.set(modelKey, stats);
+    }
+    return stats;
+};
+
+export const responseCacheKey = (latitude: number, longitude: number, modelKey: string, kind: ForecastDataKey): string =>
+    `${latitude.toFixed(4)},${longitude.toFixed(4)}|${modelKey}|${kind}`;
+
+export interface ResponseClaim {
+    runInitTime: string;
+    resolve: (response: ModelResponse) => void;
+    reject: (error: unknown) => void;
+}
+
+export interface ResponseLookup {
+    response: Promise<ModelResponse>;
+    claim: ResponseClaim | null; // Set when the caller must fetch the response and settle it
+}
+
+// Registers the key as in flight right away, so identical requests join it from the start.
+const openClaim = (model: Model, key: string) => {
+    let resolvePending!: (response: ModelResponse) => void;
+    let rejectPending!: (error: unknown) => void;
+    const response = new Promise<ModelResponse>((resolve, reject) => {
+        resolvePending = resolve;
+        rejectPending = reject;
+    });
+    // Companion claims may have no waiters; anyone awaiting still sees the rejection.
+    response.catch(() => undefined);
+    inFlight.set(key, response);
+
+    const settle = (runInitTime: string): ResponseClaim => ({
+        runInitTime,
+        resolve: (value) => {
+            if (inFlight.get(key) !== response) return;
+            inFlight.delete(key);
+            entries.set(key, { response: value, runInitTime });
+            const stats = statsFor(model.key);
+            stats.runInitTime = runInitTime;
+            stats.lastFetchedAt = new Date().toISOString();
+            resolvePending(value);
+        },
+        reject: (error) => {
+            if (inFlight.get(key) !== response) return;
+            inFlight.delete(key);
+            rejectPending(error);
+        },
+    });
+    // Answers the key from the cache, including anyone who joined while the run was resolved.
+    const reuse = (value: ModelResponse) => {
+        inFlight.delete(key);
+        resolvePending(value);
+    };
+    return { response, settle, reuse };
+};
+
+/**
+ * Returns the cached response while the model's run is unchanged, or joins an identical request
+ * already in flight. Otherwise the key is claimed: the caller fetches the response and settles the
+ * claim, which also answers anyone who joined in the meantime. A claim must always be settled.
+ */
+export const lookupResponse = async (model: Model, key: string): Promise<ResponseLookup> => {
+    const stats = statsFor(model.key);
+    const pending = inFlight.get(key);
+    if (pending) {
+        stats.coalesced++;
+        return { response: pending, claim: null };
+    }
+
+    const { response, settle, reuse } = openClaim(model, key);
+    const { runInitTime } = await resolveModelRun(model);
+    const entry = entries.get(key);
+    if (entry && entry.runInitTime === runInitTime) {
+        stats.hits++;
+        reuse(entry.response);
+        return { response, claim: null };
+    }
+    if (entry) {
+        stats.invalidations++;
+        console.log(`[Cache] ${model.name} has a new run (${runInitTime}); refetching.`);
+    }
+    stats.misses++;
+    return { response, claim: settle(runInitTime) };
+};
+
+/**
+ * Claims a response that another request can bring back at no extra cost, e.g. the daily data in
+ * a combined hourly and daily call. Returns null when it is already cached or in flight.
+ */
+export const claimCompanionResponse = (model: Model, key: string, runInitTime: string): ResponseClaim | null => {
+    if (inFlight.has(key)) return null;
+    const entry = entries.get(key);
+    if (entry && entry.runInitTime === runInitTime) return null;
+    statsFor(model.key).prefetched++;
+    return openClaim(model, key).settle(runInitTime);
+};
+
+export const recordNetworkCall = (): void => {
+    networkCalls++;
+};
+
+export const getResponseCacheStats = (): ResponseCacheStats => ({
+    entries: entries.size,
+    networkCalls,
+    byModel: Object.fromEntries(Array.from(statsByModel, ([modelKey, stats]) => [modelKey, { ...stats }])),
+});
+
+/** Drops every cached response, e.g. after the data source changes. Counters are kept. */
+export const clearResponseCache = (): void => {
+    entries.clear();
+    console.log('[Cache] Cleared cached model responses.');
+};
+
+export const resetResponseCacheStats = (): void => {
+    statsByModel.clear();
+    networkCalls = 0;
+};
@@ -0,0 +1,230 @@
+import { DEFAULT_MODEL_PREFERENCES, DEFAULT_OPEN_METEO_SETTINGS, DEFAULT_UNIT_PREFERENCES, LAST_LOCATION_KEY, MODEL_PREFERENCES_KEY, MODELS, OPEN_METEO_SETTINGS_KEY, UNIT_PREFERENCES_KEY } from '../constants';
+import { OpenMeteoSettings, OpenMeteoEndpoint, EndpointCheckResult, Location, ModelPreferences, UnitPreferences } from '../types';
+import { sanitizeUnitPreferences } from '../utils/unitFormat';
+import { getState, setState } from './dbService';
+
+const CONNECTIVITY_TIMEOUT_MS = 10000;
+
+type OpenMeteoDomain = Exclude<OpenMeteoEndpoint, 'forecast' | 'ensemble'>;
+
+const DOMAIN_PATHS: Record<OpenMeteoDomain, string> = {
+  gem: '/v1/gem',
+  ecmwf: '/v1/ecmwf',
+  gfs: '/v1/gfs',
+  bom: '/v1/bom',
+  meteofrance: '/v1/meteofrance',
+};
+
+export const OPEN_METEO_DOMAINS = Object.keys(DOMAIN_PATHS) as OpenMeteoDomain[];
+
+const trimBaseUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+// Set OPEN_METEO_*_URL / OPEN_METEO_API_KEY in .env.local to pin a deployment to a self-hosted instance.
+export const getEnvOverrides = (): Partial<OpenMeteoSettings> => {
+  const overrides: Partial<OpenMeteoSettings> = {};
+  if (process.env.OPEN_METEO_FORECAST_URL) overrides.forecastBaseUrl = trimBaseUrl(process.env.OPEN_METEO_FORECAST_URL);
+  if (process.env.OPEN_METEO_ENSEMBLE_URL) overrides.ensembleBaseUrl = trimBaseUrl(process.env.OPEN_METEO_ENSEMBLE_URL);
+  if (process.env.OPEN_METEO_ARCHIVE_URL) overrides.archiveBaseUrl = trimBaseUrl(process.env.OPEN_METEO_ARCHIVE_URL);
+  if (process.env.OPEN_METEO_GEOCODING_URL) overrides.geocodingBaseUrl = trimBaseUrl(process.env.OPEN_METEO_GEOCODING_URL);
+  if (process.env.OPEN_METEO_API_KEY) overrides.apiKey = process.env.OPEN_METEO_API_KEY;
+  return overrides;
+};
+
+let settingsPromise: Promise<OpenMeteoSettings> | null = null;
+
+const loadSettings = async (): Promise<OpenMeteoSettings> => {
+  let stored: Partial<OpenMeteoSettings> = {};
+  try {
+    const raw = await getState(OPEN_METEO_SETTINGS_KEY);
+    if (raw) stored = JSON.parse(raw);
+  } catch (error) {
+    console.warn('[Settings] Could not read saved Open-Meteo settings, using defaults:', error);
+  }
+  return {
+    ...DEFAULT_OPEN_METEO_SETTINGS,
+    ...stored,
+    domainBaseUrls: { ...DEFAULT_OPEN_METEO_SETTINGS.domainBaseUrls, ...stored.domainBaseUrls },
+    ...getEnvOverrides(),
+  };
+};
+
+/** The effective settings: saved values layered over the defaults, with environment overrides winning. */
+export const getOpenMeteoSettings = (): Promise<OpenMeteoSettings> => {
+  if (!settingsPromise) {
+    settingsPromise = loadSettings();
+  }
+  return settingsPromise;
+};
+
+const validateBaseUrl = (label: string, url: string) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`${label} is not a valid URL.`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`${label} must use http or https.`);
+  }
+};
+
+export const saveOpenMeteoSettings = async (settings: OpenMeteoSettings): Promise<OpenMeteoSettings> => {
+  const domainBaseUrls: OpenMeteoSettings['domainBaseUrls'] = {};
+  for (const domain of OPEN_METEO_DOMAINS) {
+    const url = settings.domainBaseUrls[domain]?.trim();
+    if (url) domainBaseUrls[domain] = trimBaseUrl(url);
+  }
+  const cleaned: OpenMeteoSettings = {
+    forecastBaseUrl: trimBaseUrl(settings.forecastBaseUrl),
+    domainBaseUrls,
+    ensembleBaseUrl: trimBaseUrl(settings.ensembleBaseUrl),
+    archiveBaseUrl: trimBaseUrl(settings.archiveBaseUrl),
+    geocodingBaseUrl: trimBaseUrl(settings.geocodingBaseUrl),
+    apiKey: settings.apiKey.trim(),
+  };
+
+  validateBaseUrl('Forecast URL', cleaned.forecastBaseUrl);
+  validateBaseUrl('Ensemble URL', cleaned.ensembleBaseUrl);
+  validateBaseUrl('Archive URL', cleaned.archiveBaseUrl);
+  validateBaseUrl('Geocoding URL', cleaned.geocodingBaseUrl);
+  for (const [domain, url] of Object.entries(domainBaseUrls)) {
+    validateBaseUrl(`${domain.toUpperCase()} URL`, url as string);
+  }
+
+  await setState(OPEN_METEO_SETTINGS_KEY, JSON.stringify(cleaned));
+  console.log('[Settings] Saved Open-Meteo settings.');
+  settingsPromise = Promise.resolve({ ...cleaned, ...getEnvOverrides() });
+  return settingsPromise;
+};
+
+export const getForecastBaseUrl = (settings: OpenMeteoSettings, endpoint: OpenMeteoEndpoint): string => {
+  if (endpoint === 'ensemble') return settings.ensembleBaseUrl;
+  return (endpoint !== 'forecast' && settings.domainBaseUrls[endpoint]) || settings.forecastBaseUrl;
+};
+
+// The commercial tier authenticates with an `apikey` query parameter on every request.
+export const appendApiKey = (params: URLSearchParams, settings: OpenMeteoSettings): URLSearchParams => {
+  if (settings.apiKey) params.set('apikey', settings.apiKey);
+  return params;
+};
+
+export const redactApiKey = (url: string): string => url.replace(/([?&]apikey=)[^&]*/, '$1***');
+
+const checkEndpoint = async (name: string, url: string): Promise<EndpointCheckResult> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), CONNECTIVITY_TIMEOUT_MS);
+  const started = performance.now();
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    let error: string | undefined;
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      error = body?.reason || response.statusText || `HTTP ${response.status}`;
+    }
+    return { name, url: redactApiKey(url), ok: response.ok, status: response.status, latencyMs: Math.round(performance.now() - started), error };
+  } catch (err) {
+    const error = controller.signal.aborted
+      ? `No response within ${CONNECTIVITY_TIMEOUT_MS / 1000}s`
+      : err instanceof Error ? err.message : 'Network error';
+    return { name, url: redactApiKey(url), ok: false, status: null, latencyMs: Math.round(performance.now() - started), error };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Sends one small request to each configured endpoint and reports which respond. Requests bypass
+ * the shared queue so a slow host cannot hold up forecast loading.
+ */
+export const checkOpenMeteoConnectivity = async (settings: OpenMeteoSettings): Promise<EndpointCheckResult[]> => {
+  const forecastQuery = () => appendApiKey(new URLSearchParams({
+    latitude: '52.52',
+    longitude: '13.41',
+    hourly: 'temperature_2m',
+    forecast_days: '1',
+  }), settings).toString();
+
+  const archiveDate = new Date(Date.now() - 7 * 24 * 3600 * 1000).toISOString().slice(0, 10);
+  const archiveQuery = appendApiKey(new URLSearchParams({
+    latitude: '52.52',
+    longitude: '13.41',
+    start_date: archiveDate,
+    end_date: archiveDate,
+    hourly: 'temperature_2m',
+  }), settings).toString();
+  const geocodingQuery = appendApiKey(new URLSearchParams({ name: 'London', count: '1' }), settings).toString();
+
+  const checks: Promise<EndpointCheckResult>[] = [
+    checkEndpoint('Forecast', `${settings.forecastBaseUrl}/v1/forecast?${forecastQuery()}`),
+    ...OPEN_METEO_DOMAINS.map(domain =>
+      checkEndpoint(`Domain: ${domain}`, `${getForecastBaseUrl(settings, domain)}${DOMAIN_PATHS[domain]}?${forecastQuery()}`)
+    ),
+    checkEndpoint('Ensemble', `${settings.ensembleBaseUrl}/v1/ensemble?${forecastQuery()}&models=gfs025`),
+    checkEndpoint('Archive', `${settings.archiveBaseUrl}/v1/archive?${archiveQuery}`),
+    checkEndpoint('Geocoding', `${settings.geocodingBaseUrl}/v1/search?${geocodingQuery}`),
+    checkEndpoint('Model metadata', `${settings.forecastBaseUrl}/data/dwd_icon/static/meta.json`),
+  ];
+  const results = await Promise.all(checks);
+  console.log(`[Settings] Connectivity check: ${results.filter(r => r.ok).length}/${results.length} endpoints responded.`);
+  return results;
+};
+
+/**
+ * Unit preferences live in localStorage rather than IndexedDB: they are needed synchronously on the
+ * first render, and belong to the browser rather than to the accuracy data.
+ */
+export const loadUnitPreferences = (): UnitPreferences => {
+  try {
+    const raw = localStorage.getItem(UNIT_PREFERENCES_KEY);
+    if (!raw) return DEFAULT_UNIT_PREFERENCES;
+    return sanitizeUnitPreferences(JSON.parse(raw));
+  } catch (error) {
+    console.warn('[Settings] Could not read saved unit preferences, using defaults:', error);
+    return DEFAULT_UNIT_PREFERENCES;
+  }
+};
+
+export const saveUnitPreferences = (preferences: UnitPreferences): void => {
+  localStorage.setItem(UNIT_PREFERENCES_KEY, JSON.stringify(preferences));
+  console.log(`[Settings] Saved unit preferences (${preferences.preset}, ${Object.keys(preferences.overrides).length} overrides).`);
+};
+
+const selectableModelKeys = (keys: unknown): string[] =>
+  Array.isArray(keys) ? MODELS.filter(m => m.category !== 'Derived' && keys.includes(m.key)).map(m => m.key) : [];
+
+/** Model panel choices, kept in localStorage alongside the unit preferences. Unknown keys are dropped. */
+export const loadModelPreferences = (): ModelPreferences => {
+  try {
+    const raw = localStorage.getItem(MODEL_PREFERENCES_KEY);
+    if (!raw) return DEFAULT_MODEL_PREFERENCES;
+    const stored = JSON.parse(raw);
+    return { hidden: selectableModelKeys(stored?.hidden), untracked: selectableModelKeys(stored?.untracked) };
+  } catch (error) {
+    console.warn('[Settings] Could not read saved model preferences, using defaults:', error);
+    return DEFAULT_MODEL_PREFERENCES;
+  }
+};
+
+export const saveModelPreferences = (preferences: ModelPreferences): void => {
+  localStorage.setItem(MODEL_PREFERENCES_KEY, JSON.stringify(preferences));
+  console.log(`[Settings] Saved model preferences (${preferences.hidden.length} hidden, ${preferences.untracked.length} untracked).`);
+};
+
+/** The location shown when the app was last used, or null on a first visit or if the entry is unreadable. */
+export const loadLastLocation = (): Location | null => {
+  try {
+    const raw = localStorage.getItem(LAST_LOCATION_KEY);
+    if (!raw) return null;
+    const location = JSON.parse(raw) as Location;
+    const valid = Number.isInteger(location?.id) && typeof location.name === 'string'
+      && isFinite(location.latitude) && isFinite(location.longitude);
+    return valid ? { ...location, country: location.country ?? '', admin1: location.admin1 ?? '' } : null;
+  } catch (error) {
+    console.warn('[Settings] Could not read the last used location:', error);
+    return null;
+  }
+};
+
+export const saveLastLocation = (location: Location): void => {
+  localStorage.setItem(LAST_LOCATION_KEY, JSON.stringify(location));
+};
@@ -0,0 +1,45 @@
+import { ACCURACY_INTERVAL_LEAD_HOURS, SUPER_ENSEMBLE_MAX_SITE_DISTANCE_KM, TRACKABLE_METRICS } from '../constants';
+import { AccuracyInterval, SuperEnsembleWeights, SuperEnsembleWeightSet } from '../types';
+import { getAccuracyScores, getAccuracySites } from './dbService';
+import { computeWeightSet, distanceKm, equalWeightSet } from '../utils/superEnsemble';
+
+const INTERVALS = Object.keys(ACCURACY_INTERVAL_LEAD_HOURS) as AccuracyInterval[];
+
+/**
+ * Builds Super Ensemble weights for the given models from the accuracy scores of the nearest
+ * verification site. Locations far from every site get equal weights, since another climate's
+ * scores say little about which model handles this one best.
+ */
+export const loadSuperEnsembleWeights = async (latitude: number, longitude: number, modelKeys: string[]): Promise<SuperEnsembleWeights> => {
+    const sites = await getAccuracySites();
+    const nearest = sites
+        .map(site => ({ site, distance: distanceKm(latitude, longitude, site.latitude, site.longitude) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+
+    const byMetric: SuperEnsembleWeights['byMetric'] = {};
+    const useScores = nearest && nearest.distance <= SUPER_ENSEMBLE_MAX_SITE_DISTANCE_KM;
+    const scores = useScores ? (await getAccuracyScores()).filter(s => s.locationId === nearest.site.id) : [];
+
+    for (const metric of TRACKABLE_METRICS) {
+        byMetric[metric.key] = {} as Record<AccuracyInterval, SuperEnsembleWeightSet>;
+        for (const interval of INTERVALS) {
+            byMetric[metric.key][interval] = useScores
+                ? computeWeightSet(modelKeys.map(modelKey => ({
+                    modelKey,
+                    score: scores.find(s => s.modelKey === modelKey)?.scores[metric.key]?.[interval],
+                })))
+                : equalWeightSet(modelKeys);
+        }
+    }
+
+    if (useScores) {
+        console.log(`[Super Ensemble] Weighting ${modelKeys.length} models by accuracy at ${nearest.site.name} (${nearest.distance.toFixed(0)} km away).`);
+    } else {
+        console.log(`[Super Ensemble] No accuracy site within ${SUPER_ENSEMBLE_MAX_SITE_DISTANCE_KM} km; using equal weights.`);
+    }
+
+    return {
+        site: useScores ? { id: nearest.site.id, name: nearest.site.name, distanceKm: nearest.distance } : null,
+        byMetric,
+    };
+};
@@ -1,24 +1,42 @@
 
 
-export type ForecastView = 'hourly' | 'daily' | 'accuracy';
+export type ForecastView = 'hourly' | 'daily' | 'accuracy' | 'compare';
 
 export type AccuracyInterval = '24h' | '48h' | '5d';
 
 export interface Metric {
   key: 'overview' | 'temperature_2m' | 'rain' | 'snowfall' | 'wind_speed_10m' | 'wind_gusts_10m' | 'cloud_cover' | 'visibility';
   label: string;
-  unit: string;
+  unit: string; // Canonical unit, see utils/units.ts
+}
+
+export type OpenMeteoEndpoint = 'forecast' | 'gem' | 'ecmwf' | 'gfs' | 'bom' | 'meteofrance' | 'ensemble';
+
+export interface ModelProviderRef {
+  providerId: string; // Key in the forecast provider registry, e.g. 'open-meteo'
+  endpoint?: string; // Provider-specific route, e.g. an OpenMeteoEndpoint
 }
 
 export interface Model {
   key: string; // Unique identifier for use within the app (e.g., 'gem_global')
   name: string;
   apiName: string; // Name for the 'models' parameter in the API call (e.g., 'global')
-  endpoint?: 'forecast' | 'gem' | 'ecmwf' | 'gfs' | 'bom' | 'meteofrance';
-  category: 'Canadian' | 'Global' | 'North American Regional' | 'Derived';
+  provider?: ModelProviderRef; // Defaults to Open-Meteo's main forecast endpoint
+  category: 'Canadian' | 'Global' | 'North American Regional' | 'Ensemble' | 'Derived';
   params: string[];
+  resolution?: string; // Grid spacing, for the model panel
+  coverage?: string; // Domain, for the model panel
   forecastDays?: number;
-  enabled?: boolean;
+  enabled?: boolean; // Build-time switch; users choose among enabled models with ModelPreferences
+  runIntervalHours?: number; // Hours between model cycles (e.g., 6 for 00/06/12/18Z)
+  runAvailabilityDelayHours?: number; // Typical hours from cycle initialization until the run is served
+  metadataName?: string; // Open-Meteo model metadata id, used to look up the latest run
+}
+
+// User choices from the model panel, stored as opt-outs so models added later start selected.
+export interface ModelPreferences {
+  hidden: string[]; // Not fetched for the forecast views, so left out of the median and super ensemble
+  untracked: string[]; // Not fetched or scored by accuracy runs
 }
 
 export interface Location {
@@ -30,6 +48,29 @@ export interface Location {
   admin1: string; // State or Province
 }
 
+// A user-managed accuracy verification site. Ids are generated by IndexedDB and never reused.
+export interface AccuracySite extends Location {
+  addedAt: string; // ISO string
+  icao?: string; // Station whose METARs verify this site, if it is at an airport
+}
+
+// A saved place in the header's switcher. The label defaults to the place name and can be renamed.
+export interface FavoriteLocation {
+  id: number; // Generated by IndexedDB, unrelated to the location's geocoding id
+  location: Location;
+  label: string;
+  order: number;
+  addedAt: string; // ISO string
+}
+
+// Next-36h summary of one place's median forecast in the compare view, in canonical units.
+export interface LocationOutlook {
+  high: number | null;
+  low: number | null;
+  precipitationTotal: number | null;
+  peakGust: number | null;
+}
+
 export interface GeocodingResponse {
   results: Location[];
 }
@@ -77,6 +118,25 @@ export interface HourlyData {
   wind_gusts_10m?: (number | null)[];
   cloud_cover?: (number | null)[];
   visibility?: (number | null)[];
+  ensemble?: EnsembleHourlySummary; // Present for ensemble models; the variables above then hold the member median
+}
+
+export type EnsemblePercentile = 'p10' | 'p25' | 'p50' | 'p75' | 'p90';
+
+export type EnsemblePercentiles = Record<EnsemblePercentile, number | null>;
+
+// A probability-of-exceedance event evaluated against every ensemble member, in API units.
+export interface EnsembleExceedanceThreshold {
+  id: string;
+  variable: 'precipitation' | 'temperature_2m';
+  direction: 'above' | 'below'; // 'above' counts members >= value, 'below' counts members <= value
+  value: number;
+}
+
+export interface EnsembleHourlySummary {
+  memberCount: number;
+  percentiles: { [variable: string]: Record<EnsemblePercentile, (number | null)[]> };
+  exceedance: { [thresholdId: string]: (number | null)[] }; // Fraction of members, 0-1
 }
 
 export interface DailyUnit {
@@ -119,6 +179,15 @@ export interface OpenMeteoModelResponse {
   model?: string; // This will hold our unique model `key`
 }
 
+// A normalized provider response saved for offline use, keyed by place, model and view.
+export interface CachedForecastResponse {
+  key: string;
+  modelKey: string;
+  view: ForecastView;
+  fetchedAt: string; // ISO string
+  response: OpenMeteoModelResponse & { model: string };
+}
+
 export interface ProcessedHourlyData {
   time: string;
   temperature_2m: number | null;
@@ -135,6 +204,27 @@ export interface ProcessedHourlyData {
   cloud_cover: number | null;
   visibility: number | null;
   precipitation_type: number | null;
+  ensemble?: EnsemblePointSummary;
+  modelCount?: number; // Derived models only: how many models had data at this time
+  spread?: { [field: string]: ModelSpread }; // Derived models only, keyed like the values above
+}
+
+// Spread of the deterministic models behind one derived value.
+export interface ModelSpread {
+  count: number;
+  min: number;
+  max: number;
+  iqr: number;
+  stdDev: number;
+}
+
+export type ModelAgreement = 'high' | 'moderate' | 'low';
+
+// Ensemble spread at one time step, converted to display units like the rest of the point.
+export interface EnsemblePointSummary {
+  memberCount: number;
+  percentiles: Partial<Record<Metric['key'], EnsemblePercentiles>>;
+  exceedance: { [thresholdId: string]: number | null };
 }
 
 export interface ModelData {
@@ -148,8 +238,12 @@ export interface ProcessedForecasts {
 export interface ComparisonChartProps {
   hourlyData: ProcessedForecasts;
   dailyData: ProcessedForecasts;
+  correctedHourlyData?: ProcessedForecasts | null;
+  mosSummary?: MosSummary | null;
   metric: Metric;
   activeView: ForecastView;
+  visibleModelKeys?: string[] | null; // null or omitted shows every model
+  onToggleModel?: (modelKey: string) => void;
 }
 
 export interface ForecastCardProps {
@@ -163,6 +257,7 @@ export interface HeaderProps {
     searchQuery: string;
     setSearchQuery: (query: string) => void;
     onSearchFocus: () => void;
+    onLocationSelect: (location: Location) => void;
 }
 
 export interface PendingForecast {
@@ -173,11 +268,75 @@ export interface PendingForecast {
   targetTime: string; // ISO string
   forecastedValue: number;
   forecastLeadTimeHours: number;
+  runInitTime: string; // ISO string, initialization time of the model run that produced the forecast
+  correctedValue?: number | null; // MOS-corrected value using the corrections known at ingestion time
+}
+
+export interface ModelRunInfo {
+  modelKey: string;
+  runInitTime: string; // ISO string
+  source: 'metadata' | 'schedule';
+}
+
+// Counters for the in-memory, run-aware response cache in front of the model fetches.
+export interface ResponseCacheModelStats {
+  hits: number;
+  misses: number; // Responses needed from the network, including refetches after a new run
+  coalesced: number; // Requests that joined one already in flight
+  prefetched: number; // Responses that came back with a request for the other view
+  invalidations: number; // Entries replaced because a newer run was expected
+  runInitTime: string | null; // Run of the most recently cached response
+  lastFetchedAt: string | null;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  networkCalls: number; // HTTP requests, each of which may serve several models and views
+  byModel: { [modelKey: string]: ResponseCacheModelStats };
+}
+
+export interface SkillPairs {
+    count: number;
+    modelSquaredError: number;
+    referenceSquaredError: number;
+}
+
+// Running sums from which every AccuracyScoreData statistic can be recomputed.
+export interface ErrorAccumulator {
+    count: number;
+    sumAbsError: number;
+    sumSignedError: number;
+    sumSquaredError: number;
+    unsignedCount?: number; // Samples carried over from scores that kept only an absolute error; counted in count and sumAbsError alone
+    persistence: SkillPairs;
+    median: SkillPairs;
 }
 
 export interface AccuracyScoreData {
     meanAbsoluteError: number;
     hoursTracked: number;
+    meanBias: number | null; // forecast minus actual; positive means the model runs warm/high. Null until a signed sample exists
+    rootMeanSquareError: number | null;
+    errorStdDev: number | null;
+    skillVsPersistence: number | null; // MSE skill relative to persisting the observation at run time
+    skillVsMedian: number | null; // MSE skill relative to the median of all models
+    totals: ErrorAccumulator;
+}
+
+export interface LeadTimeErrorBin {
+  leadStartHours: number; // exclusive
+  leadEndHours: number; // inclusive
+  meanAbsoluteError: number;
+  meanBias: number | null;
+  count: number;
+  totals: ErrorAccumulator;
+}
+
+export interface LeadTimeErrorCurve {
+  locationId: number;
+  modelKey: string;
+  metricKey: string;
+  bins: LeadTimeErrorBin[];
 }
 
 export interface AccuracyScore {
@@ -194,6 +353,71 @@ export interface AccuracyScore {
   };
 }
 
+export interface SuperEnsembleModelWeight {
+  modelKey: string;
+  weight: number; // Normalized across the models in the set
+  meanAbsoluteError: number | null; // null when the model has too few verified hours to be ranked
+  hoursTracked: number;
+}
+
+export interface SuperEnsembleWeightSet {
+  weights: SuperEnsembleModelWeight[];
+  equalWeights: boolean; // true when verification data was too thin to rank models
+}
+
+export interface SuperEnsembleWeights {
+  site: { id: number; name: string; distanceKm: number } | null; // Nearest accuracy site, if close enough to use
+  byMetric: { [metricKey: string]: Record<AccuracyInterval, SuperEnsembleWeightSet> };
+}
+
+export interface AccuracyScoreUpdate {
+  locationId: number;
+  locationName: string;
+  modelKey: string;
+  metricKey: string;
+  interval: AccuracyInterval;
+  sample: {
+    signedError: number;
+    persistenceError: number | null;
+    medianError: number | null;
+  };
+}
+
+// An event is observed or forecast when the accumulation over windowHours meets the threshold.
+export interface CategoricalThreshold {
+  key: string;
+  metricKey: string;
+  label: string;
+  threshold: number;
+  windowHours: number;
+}
+
+export interface ContingencyTable {
+  hits: number;
+  misses: number;
+  falseAlarms: number;
+  correctNegatives: number;
+}
+
+export interface CategoricalScoreData extends ContingencyTable {
+  probabilityOfDetection: number | null;
+  falseAlarmRatio: number | null;
+  criticalSuccessIndex: number | null;
+  frequencyBias: number | null;
+  heidkeSkillScore: number | null;
+}
+
+// Recomputed from the retained forecast history, so it covers the same rolling window.
+export interface CategoricalScore {
+  locationId: number;
+  locationName: string;
+  modelKey: string;
+  modelName: string;
+  scores: {
+    [thresholdKey: string]: Record<AccuracyInterval, CategoricalScoreData>;
+  };
+}
+
 export interface ModelError {
   modelName: string;
   reason: string;
@@ -210,6 +434,17 @@ export interface ActualWeatherRecord {
   wind_gusts_10m: number | null;
   cloud_cover: number | null;
   visibility: number | null;
+  observationSource?: string; // Providers that contributed values, e.g. "metar+archive"
+}
+
+// One hour of observations from a single provider, in the units stored in ActualWeatherRecord.
+export type ObservationRecord = Omit<ActualWeatherRecord, 'id' | 'locationId' | 'observationSource'>;
+
+export interface ObservationProvider {
+  key: string;
+  name: string;
+  supportsSite: (site: AccuracySite) => boolean;
+  fetchObservations: (site: AccuracySite, start: Date, end: Date) => Promise<ObservationRecord[]>;
 }
 
 export interface HistoricalForecastRecord {
@@ -219,7 +454,141 @@ export interface HistoricalForecastRecord {
   metricKey: string;
   targetTime: string; // ISO string
   forecastLeadTimeHours: number;
+  runInitTime: string | null; // null for records scored before run tracking existed
+  legacyLeadTime?: boolean; // true when forecastLeadTimeHours was derived from generationtime_ms
   forecastedValue: number;
   actualValue: number;
-  error: number;
-}
\ No newline at end of file
+  error: number; // absolute error
+  signedError?: number; // forecast minus actual
+  persistenceValue?: number | null; // observed value at run initialization
+  medianValue?: number | null; // median of all models' forecasts for the same hour and bucket
+  correctedValue?: number | null; // MOS-corrected forecast, verified alongside the raw value
+}
+
+// actual ≈ intercept + slope × forecast, then minus the residual bias for the forecast's UTC hour bin.
+export interface MosCorrectionCell {
+  samples: number;
+  intercept: number;
+  slope: number; // 1 when there were too few samples to fit a regression, leaving a pure bias correction
+  hourBinResidualBias: (number | null)[]; // Indexed by UTC hour / MOS_HOUR_BIN_HOURS; null when too few samples
+}
+
+export interface MosVerification {
+  samples: number;
+  rawMae: number;
+  correctedMae: number;
+}
+
+export interface MosCorrection {
+  locationId: number;
+  modelKey: string;
+  updatedAt: string; // ISO string
+  corrections: { [metricKey: string]: Partial<Record<AccuracyInterval, MosCorrectionCell>> };
+  verification: { [metricKey: string]: MosVerification };
+}
+
+// Corrections borrowed from the nearest accuracy site for the location being displayed.
+export interface MosSummary {
+  site: { id: number; name: string; distanceKm: number };
+  corrections: MosCorrection[];
+}
+
+// Order in which waiting requests start: the user's own actions, then the open views, then the accuracy cycle.
+export type RequestPriority = 'interactive' | 'view' | 'background';
+
+export interface ForecastRequest {
+  latitude: number;
+  longitude: number;
+  timezone: 'UTC' | 'auto';
+  priority?: RequestPriority;
+  signal?: AbortSignal; // Cancels the request, e.g. when the user moves on to another location
+}
+
+export interface CurrentWeatherResult {
+  current: CurrentWeather | null;
+  timezoneAbbreviation?: string;
+  error?: string;
+}
+
+// A source of model forecasts. Responses are normalized to the Open-Meteo shape (hourly values in
+// °C, knots, mm, snowfall in mm and visibility in metres), which the rest of the app consumes.
+export type ForecastDataKey = 'hourly' | 'daily';
+
+// Models fetched in one request. The first data key is the one asked for; a second rides along.
+export interface ModelBatch {
+  models: Model[];
+  dataKeys: ForecastDataKey[];
+}
+
+export type ModelBatchResult = { [modelKey: string]: Partial<Record<ForecastDataKey, OpenMeteoModelResponse & { model: string }>> };
+
+export interface ForecastProvider {
+  id: string;
+  name: string;
+  fetchHourly: (model: Model, request: ForecastRequest) => Promise<OpenMeteoModelResponse & { model: string }>;
+  fetchDaily: (model: Model, request: ForecastRequest) => Promise<OpenMeteoModelResponse & { model: string }>;
+  fetchCurrent: (latitude: number, longitude: number, signal?: AbortSignal) => Promise<CurrentWeatherResult>;
+  supportsMetric: (model: Model, metricKey: string) => boolean;
+  // Optional batching; providers without it are called once per model and data key.
+  planBatches?: (models: Model[], dataKey: ForecastDataKey) => ModelBatch[];
+  fetchBatch?: (batch: ModelBatch, request: ForecastRequest) => Promise<ModelBatchResult>;
+}
+
+// Hosts are roots such as "https://api.open-meteo.com"; the /v1/... paths are appended per request.
+export interface OpenMeteoSettings {
+  forecastBaseUrl: string;
+  domainBaseUrls: Partial<Record<Exclude<OpenMeteoEndpoint, 'forecast' | 'ensemble'>, string>>; // Falls back to forecastBaseUrl
+  ensembleBaseUrl: string;
+  archiveBaseUrl: string;
+  geocodingBaseUrl: string;
+  apiKey: string; // Sent as `apikey` for the commercial tier; empty when unused
+}
+
+export interface EndpointCheckResult {
+  name: string;
+  url: string; // API key redacted
+  ok: boolean;
+  status: number | null;
+  latencyMs: number;
+  error?: string;
+}
+
+// Display units. Stored and computed values stay in the canonical units of utils/units.ts
+// (°C, mm, cm, kn, statute miles, hPa); these only decide how they are shown.
+export type UnitQuantity = 'temperature' | 'precipitation' | 'snowfall' | 'windSpeed' | 'visibility' | 'pressure';
+
+export type UnitPresetId = 'aviation' | 'canadian' | 'us';
+
+export type DisplayUnits = Record<UnitQuantity, string>;
+
+export interface UnitPreset {
+  label: string;
+  units: DisplayUnits;
+}
+
+export interface UnitPreferences {
+  preset: UnitPresetId;
+  overrides: Partial<DisplayUnits>; // Per-quantity choices that replace the preset's unit
+}
+
+// Keys are a UnitQuantity or a variable/metric key such as 'wind_gusts_10m' or 'temperature_2m_max'.
+// Variables without a display conversion (cloud cover, direction) pass through unchanged.
+export interface UnitFormatter {
+  units: DisplayUnits;
+  label: (key: string) => string;
+  value: (key: string, canonical: number) => number;
+  delta: (key: string, canonical: number) => number; // For differences and errors: scaled, never offset
+  decimals: (key: string) => number; // Default precision in the chosen unit
+  number: (key: string, canonical: number | null | undefined, decimals?: number) => string;
+  format: (key: string, canonical: number | null | undefined, decimals?: number) => string; // Number and unit label
+}
+
+// App state carried in the URL hash so views can be linked and navigated with back/forward.
+// Fields missing or invalid in a link come back as null and keep their current value.
+export interface AppUrlState {
+  location: Location | null;
+  view: ForecastView | null;
+  metricKey: Metric['key'] | null;
+  modelKeys: string[] | null; // null shows every model
+  units: UnitPreferences | null;
+}
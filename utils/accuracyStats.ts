@@ -0,0 +1,124 @@
+import { ACCURACY_INTERVAL_LEAD_HOURS } from '../constants';
+import { AccuracyInterval, AccuracyScoreData, AccuracyScoreUpdate, CategoricalScoreData, ContingencyTable, ErrorAccumulator, HistoricalForecastRecord } from '../types';
+
+export const getAccuracyIntervalForLeadTime = (leadTimeHours: number): AccuracyInterval => {
+    if (leadTimeHours <= ACCURACY_INTERVAL_LEAD_HOURS['24h'].max) return '24h';
+    if (leadTimeHours <= ACCURACY_INTERVAL_LEAD_HOURS['48h'].max) return '48h';
+    return '5d';
+};
+
+// Errors are forecast minus actual; reference errors are null when the reference is unknown.
+export type ErrorSample = AccuracyScoreUpdate['sample'];
+
+export const createErrorAccumulator = (): ErrorAccumulator => ({
+    count: 0,
+    sumAbsError: 0,
+    sumSignedError: 0,
+    sumSquaredError: 0,
+    persistence: { count: 0, modelSquaredError: 0, referenceSquaredError: 0 },
+    median: { count: 0, modelSquaredError: 0, referenceSquaredError: 0 },
+});
+
+export const addErrorSample = (acc: ErrorAccumulator, sample: ErrorSample): void => {
+    const squared = sample.signedError * sample.signedError;
+    acc.count++;
+    acc.sumAbsError += Math.abs(sample.signedError);
+    acc.sumSignedError += sample.signedError;
+    acc.sumSquaredError += squared;
+
+    if (sample.persistenceError !== null) {
+        acc.persistence.count++;
+        acc.persistence.modelSquaredError += squared;
+        acc.persistence.referenceSquaredError += sample.persistenceError * sample.persistenceError;
+    }
+    if (sample.medianError !== null) {
+        acc.median.count++;
+        acc.median.modelSquaredError += squared;
+        acc.median.referenceSquaredError += sample.medianError * sample.medianError;
+    }
+};
+
+export const mergeErrorAccumulators = (target: ErrorAccumulator, source: ErrorAccumulator): void => {
+    target.count += source.count;
+    target.sumAbsError += source.sumAbsError;
+    target.sumSignedError += source.sumSignedError;
+    target.sumSquaredError += source.sumSquaredError;
+    if (source.unsignedCount) target.unsignedCount = (target.unsignedCount ?? 0) + source.unsignedCount;
+    for (const ref of ['persistence', 'median'] as const) {
+        target[ref].count += source[ref].count;
+        target[ref].modelSquaredError += source[ref].modelSquaredError;
+        target[ref].referenceSquaredError += source[ref].referenceSquaredError;
+    }
+};
+
+// MSE-based skill score: 1 is perfect, 0 matches the reference, negative is worse than it.
+const skillScore = (pairs: ErrorAccumulator['persistence']): number | null => {
+    if (pairs.count === 0 || pairs.referenceSquaredError === 0) return null;
+    return 1 - pairs.modelSquaredError / pairs.referenceSquaredError;
+};
+
+export const summarizeErrorAccumulator = (acc: ErrorAccumulator): AccuracyScoreData => {
+    if (acc.count === 0) {
+        return {
+            meanAbsoluteError: 0,
+            hoursTracked: 0,
+            meanBias: 0,
+            rootMeanSquareError: 0,
+            errorStdDev: 0,
+            skillVsPersistence: null,
+            skillVsMedian: null,
+            totals: acc,
+        };
+    }
+    // Bias and spread come only from samples that kept their sign; carried-over ones lack it.
+    const signedCount = acc.count - (acc.unsignedCount ?? 0);
+    const meanBias = signedCount > 0 ? acc.sumSignedError / signedCount : null;
+    const meanSquaredError = signedCount > 0 ? acc.sumSquaredError / signedCount : null;
+    return {
+        meanAbsoluteError: acc.sumAbsError / acc.count,
+        hoursTracked: acc.count,
+        meanBias,
+        rootMeanSquareError: meanSquaredError !== null ? Math.sqrt(meanSquaredError) : null,
+        errorStdDev: meanSquaredError !== null && meanBias !== null ? Math.sqrt(Math.max(0, meanSquaredError - meanBias * meanBias)) : null,
+        skillVsPersistence: skillScore(acc.persistence),
+        skillVsMedian: skillScore(acc.median),
+        totals: acc,
+    };
+};
+
+export const sampleFromHistoricalRecord = (record: HistoricalForecastRecord): ErrorSample => ({
+    signedError: record.signedError ?? record.forecastedValue - record.actualValue,
+    persistenceError: typeof record.persistenceValue === 'number' ? record.persistenceValue - record.actualValue : null,
+    medianError: typeof record.medianValue === 'number' ? record.medianValue - record.actualValue : null,
+});
+
+export const createContingencyTable = (): ContingencyTable => ({
+    hits: 0,
+    misses: 0,
+    falseAlarms: 0,
+    correctNegatives: 0,
+});
+
+export const addContingencyOutcome = (table: ContingencyTable, forecastEvent: boolean, observedEvent: boolean): void => {
+    if (forecastEvent && observedEvent) table.hits++;
+    else if (observedEvent) table.misses++;
+    else if (forecastEvent) table.falseAlarms++;
+    else table.correctNegatives++;
+};
+
+const ratio = (numerator: number, denominator: number): number | null =>
+    denominator === 0 ? null : numerator / denominator;
+
+export const summarizeContingencyTable = (table: ContingencyTable): CategoricalScoreData => {
+    const { hits, misses, falseAlarms, correctNegatives } = table;
+    // Heidke: fraction correct relative to the fraction expected correct by chance.
+    const chanceDenominator = (hits + misses) * (misses + correctNegatives) + (hits + falseAlarms) * (falseAlarms + correctNegatives);
+    return {
+        ...table,
+        probabilityOfDetection: ratio(hits, hits + misses),
+        falseAlarmRatio: ratio(falseAlarms, hits + falseAlarms),
+        criticalSuccessIndex: ratio(hits, hits + misses + falseAlarms),
+        frequencyBias: ratio(hits + falseAlarms, hits + misses),
+        heidkeSkillScore: ratio(2 * (hits * correctNegatives - misses * falseAlarms), chanceDenominator),
+    };
+};
@@ -0,0 +1,82 @@
+import { EnsembleExceedanceThreshold, EnsembleHourlySummary, EnsemblePercentile } from '../types';
+
+// Pure member statistics for ensemble responses, shared by the Open-Meteo and mock providers.
+
+export const ENSEMBLE_PERCENTILES: { key: EnsemblePercentile; fraction: number }[] = [
+    { key: 'p10', fraction: 0.1 },
+    { key: 'p25', fraction: 0.25 },
+    { key: 'p50', fraction: 0.5 },
+    { key: 'p75', fraction: 0.75 },
+    { key: 'p90', fraction: 0.9 },
+];
+
+const MEMBER_KEY = /^(.+)_member\d+$/;
+
+// Percentiles of a direction are meaningless, so these keep the control member's value.
+const CIRCULAR_VARIABLES = new Set(['wind_direction_10m', 'wind_direction_10m_dominant']);
+
+/** Linear interpolation between closest ranks; `sorted` must be ascending and non-empty. */
+export const percentileOfSorted = (sorted: number[], fraction: number): number => {
+    const rank = fraction * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const exceedanceFraction = (values: number[], threshold: EnsembleExceedanceThreshold): number | null => {
+    if (values.length === 0) return null;
+    const hits = values.filter(v => threshold.direction === 'above' ? v >= threshold.value : v <= threshold.value).length;
+    return hits / values.length;
+};
+
+/**
+ * Collapses an ensemble hourly/daily block, where each variable is returned once for the control
+ * and again per member (`temperature_2m`, `temperature_2m_member01`, ...). Member keys are removed,
+ * each base variable is replaced with the member median so downstream code can treat the model
+ * like any deterministic one, and the spread is returned separately.
+ */
+export const collapseEnsembleMembers = (
+    block: { time: string[]; [key: string]: any },
+    thresholds: EnsembleExceedanceThreshold[]
+): { data: { time: string[]; [key: string]: any }; summary: EnsembleHourlySummary } => {
+    const membersByVariable = new Map<string, (number | null)[][]>();
+    for (const [key, values] of Object.entries(block)) {
+        if (!Array.isArray(values) || key === 'time') continue;
+        const variable = key.match(MEMBER_KEY)?.[1] ?? key;
+        if (!membersByVariable.has(variable)) membersByVariable.set(variable, []);
+        membersByVariable.get(variable)!.push(values);
+    }
+
+    const data: { time: string[]; [key: string]: any } = { time: block.time };
+    const summary: EnsembleHourlySummary = { memberCount: 0, percentiles: {}, exceedance: {} };
+
+    for (const [variable, members] of membersByVariable) {
+        summary.memberCount = Math.max(summary.memberCount, members.length);
+        if (CIRCULAR_VARIABLES.has(variable)) {
+            data[variable] = block[variable] ?? members[0];
+            continue;
+        }
+
+        const bands = Object.fromEntries(ENSEMBLE_PERCENTILES.map(p => [p.key, [] as (number | null)[]])) as Record<EnsemblePercentile, (number | null)[]>;
+        const variableThresholds = thresholds.filter(t => t.variable === variable);
+        for (const threshold of variableThresholds) summary.exceedance[threshold.id] = [];
+
+        for (let i = 0; i < block.time.length; i++) {
+            const values = members
+                .map(member => member[i])
+                .filter((v): v is number => typeof v === 'number' && isFinite(v))
+                .sort((a, b) => a - b);
+            for (const { key, fraction } of ENSEMBLE_PERCENTILES) {
+                bands[key].push(values.length > 0 ? percentileOfSorted(values, fraction) : null);
+            }
+            for (const threshold of variableThresholds) {
+                summary.exceedance[threshold.id].push(exceedanceFraction(values, threshold));
+            }
+        }
+
+        summary.percentiles[variable] = bands;
+        data[variable] = bands.p50;
+    }
+
+    return { data, summary };
+};
@@ -0,0 +1,23 @@
+import { COMPARE_WINDOW_HOURS } from '../constants';
+import { LocationOutlook, ProcessedHourlyData } from '../types';
+
+/** The hourly points from now through the compare window. Times are UTC without a suffix. */
+export const upcomingHours = (hourly: ProcessedHourlyData[], now: Date = new Date()): ProcessedHourlyData[] => {
+    const startIndex = hourly.findIndex(point => new Date(point.time + 'Z') >= now);
+    return startIndex === -1 ? [] : hourly.slice(startIndex, startIndex + COMPARE_WINDOW_HOURS);
+};
+
+const valuesOf = (points: ProcessedHourlyData[], field: 'temperature_2m' | 'precipitation' | 'wind_gusts_10m'): number[] =>
+    points.map(p => p[field]).filter((v): v is number => typeof v === 'number' && isFinite(v));
+
+export const summarizeOutlook = (points: ProcessedHourlyData[]): LocationOutlook => {
+    const temperatures = valuesOf(points, 'temperature_2m');
+    const precipitation = valuesOf(points, 'precipitation');
+    const gusts = valuesOf(points, 'wind_gusts_10m');
+    return {
+        high: temperatures.length > 0 ? Math.max(...temperatures) : null,
+        low: temperatures.length > 0 ? Math.min(...temperatures) : null,
+        precipitationTotal: precipitation.length > 0 ? precipitation.reduce((sum, v) => sum + v, 0) : null,
+        peakGust: gusts.length > 0 ? Math.max(...gusts) : null,
+    };
+};
@@ -0,0 +1,27 @@
+// Raw reports in the formats stations actually issue, so parser changes can be checked against
+// the groups seen in practice. All fall in the same month as METAR_REFERENCE_DATE.
+
+export const METAR_REFERENCE_DATE = new Date('2024-01-16T00:00:00Z');
+
+export const METAR_FIXTURES = {
+    // Canadian station reporting hourly precipitation in plain language, with light snow.
+    canadianPrecipitation: 'METAR CYOW 151300Z 27012G22KT 15SM -SN BKN025 OVC060 M05/M09 A2987 RMK SC5SC3 PCPN 0.4MM PAST HR SLP128=',
+    // Canadian rain report where the plain-language amount is the only hourly precipitation.
+    canadianRain: 'METAR CYVR 151500Z 09008KT 8SM -RA FEW008 BKN020 OVC045 06/05 A2975 RMK SF1SC5SC2 PCPN 1.2MM PAST HR SLP075=',
+    // Heavy snow with a vertical visibility, a quarter mile, and an hourly water-equivalent group.
+    frozenPrecipitation: 'KMSP 151553Z 02015G24KT 1/4SM +SN FZFG VV005 M06/M07 A2985 RMK AO2 PK WND 02028/1521 SLP128 P0004 T10611072',
+    // Whole and fractional miles split across two tokens, with 6-hour and 24-hour groups.
+    splitFractionalVisibility: 'KDEN 151753Z 36008KT 1 1/2SM -SN BR OVC008 M03/M04 A3012 RMK AO2 SLP221 P0002 60006 70012 T10281039 11022 21033 51015',
+    // Visibility reported as a lower bound.
+    visibilityLowerBound: 'KPHX 151651Z 10005KT P6SM FEW200 18/M02 A3015 RMK AO2 SLP199 T01831022',
+    // Calm-to-light variable wind with a rain amount in the hourly group.
+    variableWind: 'KBOS 151554Z VRB03KT 10SM -RA SCT030 BKN250 08/04 A3001 RMK AO2 SLP163 P0003 T00780039',
+    // Gusting wind with a variable direction range and metric visibility.
+    gustingVariableDirection: 'EGLL 151620Z 24015G27KT 210V280 9999 SCT035 14/07 Q1008',
+    // Wind in metres per second.
+    metricWind: 'UUEE 151600Z 18005MPS 6000 -SHSN BKN015CB M08/M10 Q1019 R06L/290050 NOSIG',
+    // Automated report with the wind, visibility, cloud and temperature groups missing.
+    missingGroups: 'LFPG 151630Z AUTO /////KT //// ////// ///// Q1015',
+    // Automated report with the temperature group missing and an indeterminable hourly amount.
+    missingTemperature: 'SPECI KJFK 151651Z AUTO 00000KT 10SM CLR ///// A3002 RMK AO2 P//// PWINO TSNO $',
+};
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { metarToObservation, parseMetar } from './metarParser';
+import { METAR_FIXTURES, METAR_REFERENCE_DATE } from './metarParser.fixtures';
+
+const parse = (key: keyof typeof METAR_FIXTURES) => parseMetar(METAR_FIXTURES[key], METAR_REFERENCE_DATE);
+
+const METERS_PER_MILE = 1609.34;
+const MM_PER_INCH = 25.4;
+
+describe('parseMetar', () => {
+    it('reads the station and places the observation time in the reference month', () => {
+        const metar = parse('canadianPrecipitation');
+        expect(metar.station).toBe('CYOW');
+        expect(metar.observedAt.toISOString()).toBe('2024-01-15T13:00:00.000Z');
+        expect(metar.isSpeci).toBe(false);
+    });
+
+    it('takes a day later than the reference date from the previous month', () => {
+        const metar = parseMetar(METAR_FIXTURES.variableWind, new Date('2024-02-02T00:00:00Z'));
+        expect(metar.observedAt.toISOString()).toBe('2024-01-15T15:54:00.000Z');
+    });
+
+    describe('Canadian plain-language precipitation', () => {
+        it('reads PCPN x MM PAST HR as the hourly amount', () => {
+            expect(parse('canadianPrecipitation').precipitation.lastHourMm).toBe(0.4);
+            expect(parse('canadianRain').precipitation.lastHourMm).toBe(1.2);
+        });
+
+        it('reports rain only when nothing frozen fell', () => {
+            expect(metarToObservation(parse('canadianRain')).rain).toBe(1.2);
+            expect(metarToObservation(parse('canadianPrecipitation')).rain).toBeNull();
+        });
+    });
+
+    describe('frozen precipitation', () => {
+        it('keeps the weather groups and the hourly water equivalent', () => {
+            const metar = parse('frozenPrecipitation');
+            expect(metar.weather).toEqual(['+SN', 'FZFG']);
+            expect(metar.precipitation.lastHourMm).toBeCloseTo(0.04 * MM_PER_INCH);
+        });
+
+        it('leaves rain and snowfall unobserved', () => {
+            const observation = metarToObservation(parse('frozenPrecipitation'));
+            expect(observation.rain).toBeNull();
+            expect(observation.snowfall).toBeNull();
+        });
+
+        it('treats a vertical visibility as overcast', () => {
+            const metar = parse('frozenPrecipitation');
+            expect(metar.cloudLayers).toEqual([{ cover: 'VV', baseFeet: 500 }]);
+            expect(metarToObservation(metar).cloud_cover).toBe(100);
+        });
+
+        it('prefers the tenths temperature from the remarks', () => {
+            const metar = parse('frozenPrecipitation');
+            expect(metar.temperatureC).toBe(-6.1);
+            expect(metar.dewpointC).toBe(-7.2);
+        });
+
+        it('reads the 6-hour and 24-hour groups', () => {
+            const metar = parse('splitFractionalVisibility');
+            expect(metar.precipitation.lastSixHourMm).toBeCloseTo(0.06 * MM_PER_INCH);
+            expect(metar.precipitation.last24HourMm).toBeCloseTo(0.12 * MM_PER_INCH);
+        });
+    });
+
+    describe('visibility', () => {
+        it('reads whole statute miles', () => {
+            expect(parse('canadianPrecipitation').visibilityMiles).toBe(15);
+            expect(parse('variableWind').visibilityMiles).toBe(10);
+        });
+
+        it('reads fractional miles', () => {
+            expect(parse('frozenPrecipitation').visibilityMiles).toBe(0.25);
+        });
+
+        it('joins whole and fractional miles split across two groups', () => {
+            const metar = parse('splitFractionalVisibility');
+            expect(metar.visibilityMiles).toBe(1.5);
+            expect(metar.weather).toEqual(['-SN', 'BR']);
+        });
+
+        it('flags P6SM as a lower bound', () => {
+            const metar = parse('visibilityLowerBound');
+            expect(metar.visibilityMiles).toBe(6);
+            expect(metar.visibilityIsLowerBound).toBe(true);
+            expect(parse('canadianPrecipitation').visibilityIsLowerBound).toBe(false);
+        });
+
+        it('converts metric visibility, flagging 9999 as a lower bound of 10 km', () => {
+            const tenKilometres = parse('gustingVariableDirection');
+            expect(tenKilometres.visibilityMiles).toBeCloseTo(10000 / METERS_PER_MILE);
+            expect(tenKilometres.visibilityIsLowerBound).toBe(true);
+            expect(parse('metricWind').visibilityMiles).toBeCloseTo(6000 / METERS_PER_MILE);
+            expect(parse('metricWind').visibilityIsLowerBound).toBe(false);
+        });
+
+        it('leaves lower-bound visibility out of the observation', () => {
+            expect(metarToObservation(parse('visibilityLowerBound')).visibility).toBeNull();
+            expect(metarToObservation(parse('gustingVariableDirection')).visibility).toBeNull();
+            expect(metarToObservation(parse('frozenPrecipitation')).visibility).toBe(0.25);
+        });
+    });
+
+    describe('wind', () => {
+        it('reads a variable direction as null with the speed kept', () => {
+            const metar = parse('variableWind');
+            expect(metar.windDirectionDeg).toBeNull();
+            expect(metar.windSpeedKt).toBe(3);
+            expect(metar.windGustKt).toBeNull();
+        });
+
+        it('reads gusts and skips the variable direction range', () => {
+            const metar = parse('gustingVariableDirection');
+            expect(metar.windDirectionDeg).toBe(240);
+            expect(metar.windSpeedKt).toBe(15);
+            expect(metar.windGustKt).toBe(27);
+            expect(metar.weather).toEqual([]);
+        });
+
+        it('converts metres per second to knots', () => {
+            const metar = parse('metricWind');
+            expect(metar.windSpeedKt).toBeCloseTo(5 * 1.94384);
+            expect(metar.weather).toEqual(['-SHSN']);
+            expect(metar.cloudLayers).toEqual([{ cover: 'BKN', baseFeet: 1500 }]);
+        });
+
+        it('reads calm wind as zero', () => {
+            const metar = parse('missingTemperature');
+            expect(metar.windDirectionDeg).toBe(0);
+            expect(metar.windSpeedKt).toBe(0);
+        });
+    });
+
+    describe('missing groups', () => {
+        it('decodes slashed-out groups as null', () => {
+            const metar = parse('missingGroups');
+            expect(metar.isAuto).toBe(true);
+            expect(metar.windDirectionDeg).toBeNull();
+            expect(metar.windSpeedKt).toBeNull();
+            expect(metar.visibilityMiles).toBeNull();
+            expect(metar.temperatureC).toBeNull();
+            expect(metar.dewpointC).toBeNull();
+            expect(metar.cloudLayers).toEqual([]);
+            expect(metar.weather).toEqual([]);
+        });
+
+        it('leaves every field of the observation unobserved', () => {
+            const observation = metarToObservation(parse('missingGroups'));
+            expect(Object.values(observation).every(value => value === null)).toBe(true);
+        });
+
+        it('keeps the groups that were reported', () => {
+            const metar = parse('missingTemperature');
+            expect(metar.isSpeci).toBe(true);
+            expect(metar.temperatureC).toBeNull();
+            expect(metar.visibilityMiles).toBe(10);
+            expect(metar.precipitation.lastHourMm).toBeNull();
+            expect(metarToObservation(metar).cloud_cover).toBe(0);
+        });
+    });
+
+    it('rejects a report without an observation time', () => {
+        expect(() => parseMetar('KBOS VRB03KT 10SM', METAR_REFERENCE_DATE)).toThrow('Missing METAR observation time');
+    });
+});
@@ -0,0 +1,257 @@
+import { ObservationRecord } from '../types';
+
+// Pure METAR decoding with no network or DB access, so recorded reports can be replayed offline.
+
+export type MetarCloudCover = 'FEW' | 'SCT' | 'BKN' | 'OVC' | 'VV';
+
+export interface MetarCloudLayer {
+    cover: MetarCloudCover;
+    baseFeet: number | null;
+}
+
+export interface ParsedMetar {
+    raw: string;
+    station: string;
+    observedAt: Date;
+    isSpeci: boolean;
+    isAuto: boolean;
+    temperatureC: number | null;
+    dewpointC: number | null;
+    windDirectionDeg: number | null; // null when variable or missing
+    windSpeedKt: number | null;
+    windGustKt: number | null;
+    visibilityMiles: number | null; // 'P6SM', '9999' and CAVOK decode to their bound: 6 mi or 10 km
+    visibilityIsLowerBound: boolean; // true when the true visibility is only known to be at least visibilityMiles
+    cloudLayers: MetarCloudLayer[];
+    clearSky: boolean; // SKC, CLR, NSC, NCD or CAVOK
+    weather: string[]; // present weather groups, e.g. '-SN', 'BR', '+TSRA'
+    precipitation: {
+        lastHourMm: number | null;
+        lastSixHourMm: number | null; // 3 or 6 hours depending on the report time
+        last24HourMm: number | null;
+    };
+}
+
+const METERS_PER_MILE = 1609.34;
+const MM_PER_INCH = 25.4;
+const KT_PER_MPS = 1.94384;
+const KMH_PER_KT = 1.852;
+
+// Midpoints of each category's okta range, as a percentage of sky cover.
+const CLOUD_COVER_PERCENT: Record<MetarCloudCover, number> = {
+    FEW: (1.5 / 8) * 100,
+    SCT: (3.5 / 8) * 100,
+    BKN: (6 / 8) * 100,
+    OVC: 100,
+    VV: 100,
+};
+
+const FROZEN_PRECIPITATION = /(SN|SG|IC|PL|GR|GS)/;
+
+const WEATHER_PATTERN = /^(\+|-|VC)?(MI|PR|BC|DR|BL|SH|TS|FZ)?((DZ|RA|SN|SG|IC|PL|GR|GS|UP|BR|FG|FU|VA|DU|SA|HZ|PY|PO|SQ|FC|SS|DS)+)?$/;
+
+const parseSignedTemperature = (value: string): number | null => {
+    if (!value || value.startsWith('//')) return null;
+    const magnitude = parseInt(value.replace('M', ''), 10);
+    if (!isFinite(magnitude)) return null;
+    return value.startsWith('M') ? -magnitude : magnitude;
+};
+
+// Precipitation groups are in hundredths of an inch; '////' means the amount is indeterminable.
+const parseHundredthsOfInch = (digits: string): number | null =>
+    /^\d+$/.test(digits) ? (parseInt(digits, 10) / 100) * MM_PER_INCH : null;
+
+/**
+ * METARs only carry day-of-month and time, so the month and year are taken from the reference
+ * date, stepping back a month when the result would be more than a day in the future.
+ */
+const resolveObservationTime = (day: number, hour: number, minute: number, referenceDate: Date): Date => {
+    const candidate = new Date(Date.UTC(referenceDate.getUTCFullYear(), referenceDate.getUTCMonth(), day, hour, minute));
+    if (candidate.getTime() - referenceDate.getTime() > 24 * 3600 * 1000) {
+        return new Date(Date.UTC(referenceDate.getUTCFullYear(), referenceDate.getUTCMonth() - 1, day, hour, minute));
+    }
+    return candidate;
+};
+
+const parseRemarks = (remarks: string[], parsed: ParsedMetar): void => {
+    for (const token of remarks) {
+        // Temperature/dewpoint to tenths, e.g. T10171033 = -1.7 / -3.3.
+        const precise = token.match(/^T([01])(\d{3})([01])(\d{3})$/);
+        if (precise) {
+            parsed.temperatureC = (precise[1] === '1' ? -1 : 1) * parseInt(precise[2], 10) / 10;
+            parsed.dewpointC = (precise[3] === '1' ? -1 : 1) * parseInt(precise[4], 10) / 10;
+            continue;
+        }
+        const hourly = token.match(/^P(\d{4}|\/{4})$/);
+        if (hourly) {
+            parsed.precipitation.lastHourMm = parseHundredthsOfInch(hourly[1]);
+            continue;
+        }
+        const sixHour = token.match(/^6(\d{4}|\/{4})$/);
+        if (sixHour) {
+            parsed.precipitation.lastSixHourMm = parseHundredthsOfInch(sixHour[1]);
+            continue;
+        }
+        const daily = token.match(/^7(\d{4}|\/{4})$/);
+        if (daily) {
+            parsed.precipitation.last24HourMm = parseHundredthsOfInch(daily[1]);
+        }
+    }
+
+    // Canadian stations report hourly amounts in plain language, e.g. "PCPN 0.4MM PAST HR".
+    const canadian = remarks.join(' ').match(/PCPN (\d+(?:\.\d+)?)MM PAST HR/);
+    if (canadian) {
+        parsed.precipitation.lastHourMm = parseFloat(canadian[1]);
+    }
+};
+
+/**
+ * Decodes a single raw METAR or SPECI report. Groups that are not needed for verification
+ * (RVR, altimeter, recent weather, runway state) are skipped. Throws if the station or
+ * observation time cannot be found, since the report cannot be placed without them.
+ */
+export const parseMetar = (raw: string, referenceDate: Date = new Date()): ParsedMetar => {
+    const tokens = raw.trim().replace(/=$/, '').split(/\s+/);
+    const rmkIndex = tokens.indexOf('RMK');
+    const body = rmkIndex === -1 ? tokens : tokens.slice(0, rmkIndex);
+    const remarks = rmkIndex === -1 ? [] : tokens.slice(rmkIndex + 1);
+
+    let i = 0;
+    let isSpeci = false;
+    if (body[i] === 'METAR' || body[i] === 'SPECI') {
+        isSpeci = body[i] === 'SPECI';
+        i++;
+    }
+
+    const station = body[i++];
+    if (!station || !/^[A-Z][A-Z0-9]{3}$/.test(station)) {
+        throw new Error(`Unrecognised METAR station identifier in "${raw}".`);
+    }
+
+    const timeMatch = body[i++]?.match(/^(\d{2})(\d{2})(\d{2})Z$/);
+    if (!timeMatch) {
+        throw new Error(`Missing METAR observation time in "${raw}".`);
+    }
+
+    const parsed: ParsedMetar = {
+        raw,
+        station,
+        observedAt: resolveObservationTime(parseInt(timeMatch[1], 10), parseInt(timeMatch[2], 10), parseInt(timeMatch[3], 10), referenceDate),
+        isSpeci,
+        isAuto: false,
+        temperatureC: null,
+        dewpointC: null,
+        windDirectionDeg: null,
+        windSpeedKt: null,
+        windGustKt: null,
+        visibilityMiles: null,
+        visibilityIsLowerBound: false,
+        cloudLayers: [],
+        clearSky: false,
+        weather: [],
+        precipitation: { lastHourMm: null, lastSixHourMm: null, last24HourMm: null },
+    };
+
+    for (; i < body.length; i++) {
+        const token = body[i];
+
+        if (token === 'AUTO') { parsed.isAuto = true; continue; }
+        if (token === 'COR' || token === 'NIL') continue;
+
+        const wind = token.match(/^(\d{3}|VRB|\/{3})(\d{2,3}|\/\/)(?:G(\d{2,3}))?(KT|MPS|KMH)$/);
+        if (wind) {
+            const toKnots = (value: number) => wind[4] === 'MPS' ? value * KT_PER_MPS : wind[4] === 'KMH' ? value / KMH_PER_KT : value;
+            parsed.windDirectionDeg = /^\d{3}$/.test(wind[1]) ? parseInt(wind[1], 10) : null;
+            parsed.windSpeedKt = /^\d+$/.test(wind[2]) ? toKnots(parseInt(wind[2], 10)) : null;
+            parsed.windGustKt = wind[3] ? toKnots(parseInt(wind[3], 10)) : null;
+            continue;
+        }
+        if (/^\d{3}V\d{3}$/.test(token)) continue; // variable wind direction range
+
+        if (token === 'CAVOK') {
+            parsed.visibilityMiles = 10000 / METERS_PER_MILE;
+            parsed.visibilityIsLowerBound = true;
+            parsed.clearSky = true;
+            continue;
+        }
+        // Whole miles split from the fraction, e.g. "1 1/2SM".
+        if (/^\d+$/.test(token) && /^\d\/\d+SM$/.test(body[i + 1] ?? '')) {
+            const [numerator, denominator] = body[i + 1].replace('SM', '').split('/').map(Number);
+            parsed.visibilityMiles = parseInt(token, 10) + numerator / denominator;
+            i++;
+            continue;
+        }
+        const statuteMiles = token.match(/^([PM])?(?:(\d+)\/(\d+)|(\d+))SM$/);
+        if (statuteMiles) {
+            parsed.visibilityMiles = statuteMiles[4] !== undefined
+                ? parseInt(statuteMiles[4], 10)
+                : parseInt(statuteMiles[2], 10) / parseInt(statuteMiles[3], 10);
+            parsed.visibilityIsLowerBound = statuteMiles[1] === 'P';
+            continue;
+        }
+        if (/^\d{4}$/.test(token)) {
+            parsed.visibilityMiles = parseInt(token, 10) === 9999 ? 10000 / METERS_PER_MILE : parseInt(token, 10) / METERS_PER_MILE;
+            parsed.visibilityIsLowerBound = parseInt(token, 10) === 9999;
+            continue;
+        }
+        if (/^\d{4}(N|NE|E|SE|S|SW|W|NW)$/.test(token) || /^R\d{2}[LCR]?\//.test(token)) continue; // directional visibility, RVR
+
+        if (/^(SKC|CLR|NSC|NCD)$/.test(token)) {
+            parsed.clearSky = true;
+            continue;
+        }
+        const cloud = token.match(/^(FEW|SCT|BKN|OVC|VV)(\d{3}|\/{3})(CB|TCU|\/{3})?$/);
+        if (cloud) {
+            parsed.cloudLayers.push({
+                cover: cloud[1] as MetarCloudCover,
+                baseFeet: /^\d{3}$/.test(cloud[2]) ? parseInt(cloud[2], 10) * 100 : null,
+            });
+            continue;
+        }
+
+        const temperature = token.match(/^(M?\d{2}|\/\/)\/(M?\d{2}|\/\/)?$/);
+        if (temperature) {
+            parsed.temperatureC = parseSignedTemperature(temperature[1]);
+            parsed.dewpointC = parseSignedTemperature(temperature[2] ?? '');
+            continue;
+        }
+        if (/^[AQ]\d{4}$/.test(token) || token.startsWith('RE') || token.startsWith('WS')) continue;
+
+        if (token.length > 1 && WEATHER_PATTERN.test(token)) {
+            parsed.weather.push(token);
+        }
+    }
+
+    parseRemarks(remarks, parsed);
+    return parsed;
+};
+
+/**
+ * Maps a decoded report onto the units stored in ActualWeatherRecord (°C, knots, statute miles,
+ * %, mm). Fields a METAR cannot observe are null so the next observation provider can fill them:
+ * snowfall depth is never reported, gusts are only reported when significant, and hourly rain
+ * needs a precipitation group that many (including most Canadian) stations omit. Visibility
+ * reported only as a lower bound (P6SM, 9999, CAVOK) is left for the archive, since scoring a
+ * forecast of 20 km against the bound would count it as an error. Cloud cover is the most
+ * extensive reported layer, so high cloud above an automated station's range is missed.
+ */
+export const metarToObservation = (metar: ParsedMetar): Omit<ObservationRecord, 'time'> => {
+    const hasFrozenPrecipitation = metar.weather.some(w => FROZEN_PRECIPITATION.test(w));
+    let cloudCover: number | null = null;
+    if (metar.cloudLayers.length > 0) {
+        cloudCover = Math.max(...metar.cloudLayers.map(layer => CLOUD_COVER_PERCENT[layer.cover]));
+    } else if (metar.clearSky) {
+        cloudCover = 0;
+    }
+
+    return {
+        temperature_2m: metar.temperatureC,
+        // The hourly amount is water equivalent, which only matches `rain` when nothing frozen fell.
+        rain: hasFrozenPrecipitation ? null : metar.precipitation.lastHourMm,
+        snowfall: null,
+        wind_speed_10m: metar.windSpeedKt,
+        wind_gusts_10m: metar.windGustKt,
+        cloud_cover: cloudCover,
+        visibility: metar.visibilityIsLowerBound ? null : metar.visibilityMiles,
+    };
+};
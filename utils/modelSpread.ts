@@ -0,0 +1,52 @@
+import { MODEL_AGREEMENT_IQR } from '../constants';
+import { ModelAgreement, ModelSpread, ProcessedHourlyData } from '../types';
+import { percentileOfSorted } from './ensembleStats';
+
+const AGREEMENT_RANK: Record<ModelAgreement, number> = { high: 0, moderate: 1, low: 2 };
+
+export const AGREEMENT_LABELS: Record<ModelAgreement, string> = {
+    high: 'High',
+    moderate: 'Moderate',
+    low: 'Low',
+};
+
+export const AGREEMENT_COLORS: Record<ModelAgreement, string> = {
+    high: '#48bb78',
+    moderate: '#ecc94b',
+    low: '#f56565',
+};
+
+export const summarizeSpread = (values: number[]): ModelSpread => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+    const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length;
+    return {
+        count: sorted.length,
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+        iqr: percentileOfSorted(sorted, 0.75) - percentileOfSorted(sorted, 0.25),
+        stdDev: Math.sqrt(variance),
+    };
+};
+
+/** Agreement for one field; daily fields such as `temperature_2m_max` use their hourly thresholds. */
+export const agreementFor = (field: string, spread: ModelSpread | undefined): ModelAgreement | null => {
+    const thresholds = MODEL_AGREEMENT_IQR[field.replace(/_(max|min)$/, '')];
+    // A single model cannot disagree with itself, so there is nothing to report.
+    if (!spread || !thresholds || spread.count < 2) return null;
+    if (spread.iqr <= thresholds.high) return 'high';
+    if (spread.iqr <= thresholds.moderate) return 'moderate';
+    return 'low';
+};
+
+/** The weakest agreement among the given fields of a derived point. */
+export const overallAgreement = (point: ProcessedHourlyData, fields: string[]): ModelAgreement | null => {
+    let worst: ModelAgreement | null = null;
+    for (const field of fields) {
+        const agreement = agreementFor(field, point.spread?.[field]);
+        if (agreement && (worst === null || AGREEMENT_RANK[agreement] > AGREEMENT_RANK[worst])) {
+            worst = agreement;
+        }
+    }
+    return worst;
+};
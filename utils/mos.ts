@@ -0,0 +1,126 @@
+import { MOS_CORRECTED_METRICS, MOS_HOUR_BIN_HOURS, MOS_MIN_HOUR_BIN_SAMPLES, MOS_MIN_REGRESSION_SAMPLES, MOS_MIN_SAMPLES } from '../constants';
+import { AccuracyInterval, HistoricalForecastRecord, MosCorrection, MosCorrectionCell, MosVerification } from '../types';
+import { getAccuracyIntervalForLeadTime } from './accuracyStats';
+
+// Pure fitting and application of MOS-style corrections, so they can be replayed against stored history.
+
+const HOUR_BINS = 24 / MOS_HOUR_BIN_HOURS;
+
+// A regression that flattens or doubles the forecast is almost always overfitting a short record.
+const MIN_SLOPE = 0.5;
+const MAX_SLOPE = 1.5;
+
+const METRIC_LIMITS: { [metricKey: string]: { min: number; max?: number } } = {
+    wind_speed_10m: { min: 0 },
+    wind_gusts_10m: { min: 0 },
+    cloud_cover: { min: 0, max: 100 },
+    visibility: { min: 0 },
+};
+
+export const hourBinForTime = (time: Date): number => Math.floor(time.getUTCHours() / MOS_HOUR_BIN_HOURS) % HOUR_BINS;
+
+const fitCell = (samples: { forecast: number; actual: number; hourBin: number }[]): MosCorrectionCell => {
+    const n = samples.length;
+    const meanForecast = samples.reduce((sum, s) => sum + s.forecast, 0) / n;
+    const meanActual = samples.reduce((sum, s) => sum + s.actual, 0) / n;
+
+    let slope = 1;
+    if (n >= MOS_MIN_REGRESSION_SAMPLES) {
+        let covariance = 0;
+        let variance = 0;
+        for (const s of samples) {
+            covariance += (s.forecast - meanForecast) * (s.actual - meanActual);
+            variance += (s.forecast - meanForecast) ** 2;
+        }
+        if (variance > 0) {
+            slope = Math.min(MAX_SLOPE, Math.max(MIN_SLOPE, covariance / variance));
+        }
+    }
+    const intercept = meanActual - slope * meanForecast;
+
+    // Whatever the regression leaves behind at each time of day is the diurnal bias.
+    const residuals: number[][] = Array.from({ length: HOUR_BINS }, () => []);
+    for (const s of samples) {
+        residuals[s.hourBin].push(intercept + slope * s.forecast - s.actual);
+    }
+    const hourBinResidualBias = residuals.map(values =>
+        values.length >= MOS_MIN_HOUR_BIN_SAMPLES ? values.reduce((a, b) => a + b, 0) / values.length : null
+    );
+
+    return { samples: n, intercept, slope, hourBinResidualBias };
+};
+
+export const applyMosCorrection = (cell: MosCorrectionCell, metricKey: string, value: number, targetTime: Date): number => {
+    const residual = cell.hourBinResidualBias[hourBinForTime(targetTime)] ?? 0;
+    let corrected = cell.intercept + cell.slope * value - residual;
+    const limits = METRIC_LIMITS[metricKey];
+    if (limits) {
+        corrected = Math.max(limits.min, corrected);
+        if (limits.max !== undefined) corrected = Math.min(limits.max, corrected);
+    }
+    return corrected;
+};
+
+/** Looks up the cell for a forecast and corrects it, or returns null when no correction applies. */
+export const correctForecastValue = (
+    correction: MosCorrection | undefined,
+    metricKey: string,
+    value: number,
+    targetTime: Date,
+    leadTimeHours: number
+): number | null => {
+    const cell = correction?.corrections[metricKey]?.[getAccuracyIntervalForLeadTime(leadTimeHours)];
+    return cell ? applyMosCorrection(cell, metricKey, value, targetTime) : null;
+};
+
+/**
+ * Fits one correction per model from a site's verified history. Only run-tracked records are used,
+ * since legacy lead times would put samples in the wrong bucket. The verification compares raw and
+ * corrected errors for records that were corrected out-of-sample when they were ingested.
+ */
+export const fitMosCorrections = (locationId: number, records: HistoricalForecastRecord[]): MosCorrection[] => {
+    const usable = records.filter(r => r.runInitTime && !r.legacyLeadTime && MOS_CORRECTED_METRICS.includes(r.metricKey));
+    const byModel = new Map<string, HistoricalForecastRecord[]>();
+    for (const record of usable) {
+        (byModel.get(record.modelKey) ?? byModel.set(record.modelKey, []).get(record.modelKey)!).push(record);
+    }
+
+    const updatedAt = new Date().toISOString();
+    const results: MosCorrection[] = [];
+    for (const [modelKey, modelRecords] of byModel) {
+        const groups = new Map<string, { forecast: number; actual: number; hourBin: number }[]>();
+        const verification: { [metricKey: string]: MosVerification } = {};
+
+        for (const record of modelRecords) {
+            const key = `${record.metricKey}|${getAccuracyIntervalForLeadTime(record.forecastLeadTimeHours)}`;
+            (groups.get(key) ?? groups.set(key, []).get(key)!).push({
+                forecast: record.forecastedValue,
+                actual: record.actualValue,
+                hourBin: hourBinForTime(new Date(record.targetTime)),
+            });
+
+            if (typeof record.correctedValue === 'number') {
+                const v = verification[record.metricKey] ?? (verification[record.metricKey] = { samples: 0, rawMae: 0, correctedMae: 0 });
+                v.samples++;
+                v.rawMae += Math.abs(record.forecastedValue - record.actualValue);
+                v.correctedMae += Math.abs(record.correctedValue - record.actualValue);
+            }
+        }
+
+        const corrections: MosCorrection['corrections'] = {};
+        for (const [key, samples] of groups) {
+            if (samples.length < MOS_MIN_SAMPLES) continue;
+            const [metricKey, interval] = key.split('|') as [string, AccuracyInterval];
+            (corrections[metricKey] = corrections[metricKey] ?? {})[interval] = fitCell(samples);
+        }
+        for (const v of Object.values(verification)) {
+            v.rawMae /= v.samples;
+            v.correctedMae /= v.samples;
+        }
+
+        if (Object.keys(corrections).length > 0 || Object.keys(verification).length > 0) {
+            results.push({ locationId, modelKey, updatedAt, corrections, verification });
+        }
+    }
+    return results;
+};
@@ -0,0 +1,65 @@
+import { SUPER_ENSEMBLE_MIN_HOURS } from '../constants';
+import { AccuracyScoreData, SuperEnsembleWeightSet } from '../types';
+
+// MAE can legitimately be zero (e.g. rain during a dry spell), which would give an infinite weight.
+const MAE_FLOOR = 0.01;
+
+const EARTH_RADIUS_KM = 6371;
+
+export const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const dLat = toRadians(lat2 - lat1);
+    const dLon = toRadians(lon2 - lon1);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+export const equalWeightSet = (modelKeys: string[]): SuperEnsembleWeightSet => ({
+    weights: modelKeys.map(modelKey => ({ modelKey, weight: 1 / modelKeys.length, meanAbsoluteError: null, hoursTracked: 0 })),
+    equalWeights: true,
+});
+
+/**
+ * Weights each model by its inverse MAE. Models with too few verified hours get the average weight
+ * of the ranked models, so a new model neither dominates nor vanishes. With fewer than two ranked
+ * models there is nothing to compare, so every model is weighted equally.
+ */
+export const computeWeightSet = (candidates: { modelKey: string; score?: AccuracyScoreData }[]): SuperEnsembleWeightSet => {
+    const ranked = candidates.filter(c => c.score && c.score.hoursTracked >= SUPER_ENSEMBLE_MIN_HOURS && isFinite(c.score.meanAbsoluteError));
+    if (ranked.length < 2) {
+        const equal = equalWeightSet(candidates.map(c => c.modelKey));
+        equal.weights.forEach((w, i) => { w.hoursTracked = candidates[i].score?.hoursTracked ?? 0; });
+        return equal;
+    }
+
+    const rawWeight = (score: AccuracyScoreData) => 1 / Math.max(score.meanAbsoluteError, MAE_FLOOR);
+    const averageRanked = ranked.reduce((sum, c) => sum + rawWeight(c.score!), 0) / ranked.length;
+    const raw = candidates.map(c => ranked.includes(c) ? rawWeight(c.score!) : averageRanked);
+    const total = raw.reduce((a, b) => a + b, 0);
+
+    return {
+        weights: candidates.map((c, i) => ({
+            modelKey: c.modelKey,
+            weight: raw[i] / total,
+            meanAbsoluteError: ranked.includes(c) ? c.score!.meanAbsoluteError : null,
+            hoursTracked: c.score?.hoursTracked ?? 0,
+        })),
+        equalWeights: false,
+    };
+};
+
+/** Weighted mean of the models present at a time step, renormalizing over the models that reported. */
+export const blendModelValues = (values: { modelKey: string; value: number }[], weightSet: SuperEnsembleWeightSet | undefined): number | null => {
+    if (values.length === 0) return null;
+    let weightedSum = 0;
+    let totalWeight = 0;
+    for (const { modelKey, value } of values) {
+        const weight = weightSet ? weightSet.weights.find(w => w.modelKey === modelKey)?.weight ?? 0 : 1;
+        weightedSum += weight * value;
+        totalWeight += weight;
+    }
+    if (totalWeight === 0) {
+        return values.reduce((sum, v) => sum + v.value, 0) / values.length;
+    }
+    return weightedSum / totalWeight;
+};
@@ -0,0 +1,90 @@
+import { TIME_AXIS_MAX_INTERPOLATION_HOURS } from '../constants';
+import { ForecastView, ProcessedHourlyData } from '../types';
+
+// Amounts over the output step. They are summed when sub-hourly steps are merged and never
+// interpolated, since splitting a 3-hour total across its hours would invent a rate.
+const ACCUMULATED_FIELDS = new Set(['precipitation', 'rain', 'snowfall']);
+
+const HOUR_MS = 3600 * 1000;
+
+export type AlignedValues = { [field: string]: number };
+
+/** Snaps a processed timestamp to the axis step: the hour for hourly views, the date for daily. */
+export const axisTimeFor = (time: string, view: ForecastView): string =>
+    view === 'daily' ? time.slice(0, 10) : `${time.slice(0, 13)}:00`;
+
+const timeMs = (time: string): number => Date.parse(time.includes('T') ? time + 'Z' : time + 'T00:00:00Z');
+
+// Merges points that fall in the same axis step, e.g. the four 15-minute HRRR steps of an hour.
+const bucketModel = (points: ProcessedHourlyData[], view: ForecastView): Map<string, AlignedValues> => {
+    const sums = new Map<string, { [field: string]: { total: number; count: number } }>();
+    for (const point of points) {
+        const axisTime = axisTimeFor(point.time, view);
+        const bucket = sums.get(axisTime) ?? sums.set(axisTime, {}).get(axisTime)!;
+        for (const [field, value] of Object.entries(point)) {
+            if (typeof value !== 'number' || !isFinite(value) || field === 'precipitation_type' || field === 'modelCount') continue;
+            const entry = bucket[field] ?? (bucket[field] = { total: 0, count: 0 });
+            entry.total += value;
+            entry.count++;
+        }
+    }
+
+    const buckets = new Map<string, AlignedValues>();
+    for (const [axisTime, fields] of sums) {
+        const values: AlignedValues = {};
+        for (const [field, { total, count }] of Object.entries(fields)) {
+            values[field] = ACCUMULATED_FIELDS.has(field) ? total : total / count;
+        }
+        buckets.set(axisTime, values);
+    }
+    return buckets;
+};
+
+// Fills short gaps in one instantaneous field by linear interpolation between its neighbours.
+const interpolateField = (buckets: Map<string, AlignedValues>, field: string, axis: string[], axisMs: number[]) => {
+    let previous = -1;
+    for (let i = 0; i < axis.length; i++) {
+        if (buckets.get(axis[i])?.[field] === undefined) continue;
+        if (previous !== -1 && i - previous > 1 && axisMs[i] - axisMs[previous] <= TIME_AXIS_MAX_INTERPOLATION_HOURS * HOUR_MS) {
+            const start = buckets.get(axis[previous])![field];
+            const end = buckets.get(axis[i])![field];
+            for (let j = previous + 1; j < i; j++) {
+                const fraction = (axisMs[j] - axisMs[previous]) / (axisMs[i] - axisMs[previous]);
+                const values = buckets.get(axis[j]) ?? buckets.set(axis[j], {}).get(axis[j])!;
+                values[field] = start + (end - start) * fraction;
+            }
+        }
+        previous = i;
+    }
+};
+
+/**
+ * Puts the given models on one time axis: the sorted union of their timestamps, snapped to the view's
+ * step. Each model's values are indexed by axis time, with finer steps merged and short gaps in
+ * instantaneous variables interpolated, so a short or coarse model never truncates the others.
+ */
+export const alignModelsToTimeAxis = (
+    series: { modelKey: string; points: ProcessedHourlyData[] }[],
+    view: ForecastView
+): { axis: string[]; values: Map<string, Map<string, AlignedValues>> } => {
+    const values = new Map<string, Map<string, AlignedValues>>();
+    const axisSet = new Set<string>();
+    for (const { modelKey, points } of series) {
+        const buckets = bucketModel(points, view);
+        buckets.forEach((_, axisTime) => axisSet.add(axisTime));
+        values.set(modelKey, buckets);
+    }
+
+    const axis = Array.from(axisSet).sort();
+    if (view !== 'daily') {
+        const axisMs = axis.map(timeMs);
+        for (const buckets of values.values()) {
+            const fields = new Set<string>();
+            buckets.forEach(v => Object.keys(v).forEach(field => fields.add(field)));
+            for (const field of fields) {
+                if (!ACCUMULATED_FIELDS.has(field)) interpolateField(buckets, field, axis, axisMs);
+            }
+        }
+    }
+    return { axis, values };
+};
@@ -0,0 +1,121 @@
+import { DEFAULT_UNIT_PREFERENCES, UNIT_PRESETS } from '../constants';
+import { DisplayUnits, EnsembleExceedanceThreshold, UnitFormatter, UnitPreferences, UnitQuantity } from '../types';
+import { canonicalUnitFor } from './units';
+
+// Display-time conversion from canonical units to the user's chosen units. Every conversion is
+// linear, so differences (MAE, spread) scale by the same factor without the offset.
+
+interface UnitOption {
+    factor: number;
+    offset?: number;
+    decimals: number;
+}
+
+export const UNIT_OPTIONS: Record<UnitQuantity, { [unit: string]: UnitOption }> = {
+    temperature: {
+        '°C': { factor: 1, decimals: 0 },
+        '°F': { factor: 1.8, offset: 32, decimals: 0 },
+    },
+    precipitation: {
+        'mm': { factor: 1, decimals: 1 },
+        'in': { factor: 1 / 25.4, decimals: 2 },
+    },
+    snowfall: {
+        'cm': { factor: 1, decimals: 1 },
+        'in': { factor: 1 / 2.54, decimals: 1 },
+    },
+    windSpeed: {
+        'kn': { factor: 1, decimals: 0 },
+        'km/h': { factor: 1.852, decimals: 0 },
+        'mph': { factor: 1.150779, decimals: 0 },
+        'm/s': { factor: 0.514444, decimals: 1 },
+    },
+    visibility: {
+        'SM': { factor: 1, decimals: 1 },
+        'mi': { factor: 1, decimals: 1 },
+        'km': { factor: 1.609344, decimals: 1 },
+    },
+    pressure: {
+        'hPa': { factor: 1, decimals: 0 },
+        'inHg': { factor: 0.029529983, decimals: 2 },
+        'kPa': { factor: 0.1, decimals: 1 },
+    },
+};
+
+export const UNIT_QUANTITY_LABELS: Record<UnitQuantity, string> = {
+    temperature: 'Temperature',
+    precipitation: 'Precipitation',
+    snowfall: 'Snowfall',
+    windSpeed: 'Wind speed',
+    visibility: 'Visibility',
+    pressure: 'Pressure',
+};
+
+const QUANTITY_BY_VARIABLE: { [variable: string]: UnitQuantity } = {
+    temperature_2m: 'temperature',
+    dew_point_2m: 'temperature',
+    precipitation: 'precipitation',
+    rain: 'precipitation',
+    snowfall: 'snowfall',
+    wind_speed_10m: 'windSpeed',
+    wind_gusts_10m: 'windSpeed',
+    visibility: 'visibility',
+    pressure_msl: 'pressure',
+};
+
+const quantityFor = (key: string): UnitQuantity | undefined =>
+    key in UNIT_OPTIONS ? key as UnitQuantity : QUANTITY_BY_VARIABLE[key.replace(/_(max|min|sum|mean)$/, '')];
+
+/** Keeps only a known preset and overrides naming a unit offered for their quantity. */
+export const sanitizeUnitPreferences = (raw: Partial<UnitPreferences>): UnitPreferences => {
+    const preset = raw.preset && raw.preset in UNIT_PRESETS ? raw.preset : DEFAULT_UNIT_PREFERENCES.preset;
+    const overrides: UnitPreferences['overrides'] = {};
+    for (const [quantity, unit] of Object.entries(raw.overrides ?? {}) as [UnitQuantity, string][]) {
+        if (UNIT_OPTIONS[quantity]?.[unit]) overrides[quantity] = unit;
+    }
+    return { preset, overrides };
+};
+
+/** The preset's units with any valid per-quantity overrides applied. */
+export const resolveDisplayUnits = (preferences: UnitPreferences): DisplayUnits => {
+    const units = { ...(UNIT_PRESETS[preferences.preset] ?? UNIT_PRESETS.aviation).units };
+    for (const [quantity, unit] of Object.entries(preferences.overrides) as [UnitQuantity, string][]) {
+        if (UNIT_OPTIONS[quantity]?.[unit]) units[quantity] = unit;
+    }
+    return units;
+};
+
+export const createUnitFormatter = (units: DisplayUnits): UnitFormatter => {
+    const optionFor = (key: string) => {
+        const quantity = quantityFor(key);
+        return quantity ? UNIT_OPTIONS[quantity][units[quantity]] : undefined;
+    };
+    const label = (key: string) => {
+        const quantity = quantityFor(key);
+        return quantity ? units[quantity] : canonicalUnitFor(key) ?? '';
+    };
+    const value = (key: string, canonical: number) => {
+        const option = optionFor(key);
+        return option ? canonical * option.factor + (option.offset ?? 0) : canonical;
+    };
+    const delta = (key: string, canonical: number) => canonical * (optionFor(key)?.factor ?? 1);
+    const decimals = (key: string) => optionFor(key)?.decimals ?? 0;
+    const number = (key: string, canonical: number | null | undefined, places?: number) => {
+        if (typeof canonical !== 'number' || !isFinite(canonical)) return '--';
+        return value(key, canonical).toFixed(places ?? decimals(key));
+    };
+    const format = (key: string, canonical: number | null | undefined, places?: number) => {
+        const unit = label(key);
+        const text = number(key, canonical, places);
+        if (!unit || text === '--') return text;
+        return unit.startsWith('°') || unit === '%' ? `${text}${unit}` : `${text} ${unit}`;
+    };
+    return { units, label, value, delta, decimals, number, format };
+};
+
+/** A threshold's label in the user's units, e.g. "Precipitation ≥ 0.08 in". */
+export const formatExceedanceThreshold = (threshold: EnsembleExceedanceThreshold, units: UnitFormatter): string => {
+    const quantity = quantityFor(threshold.variable);
+    const name = quantity ? UNIT_QUANTITY_LABELS[quantity] : threshold.variable;
+    return `${name} ${threshold.direction === 'above' ? '≥' : '≤'} ${units.format(threshold.variable, threshold.value)}`;
+};
@@ -0,0 +1,144 @@
+// Unit normalization for Open-Meteo style responses. Every processed point, actual and chart uses
+// the canonical units below, whatever the endpoint, model or archive returned.
+
+type UnitFamily = 'temperature' | 'precipitation' | 'snowfall' | 'wind' | 'direction' | 'percent' | 'visibility';
+
+export const CANONICAL_UNITS: Record<UnitFamily, string> = {
+    temperature: '°C',
+    precipitation: 'mm',
+    snowfall: 'cm',
+    wind: 'kn',
+    direction: '°',
+    percent: '%',
+    visibility: 'mi',
+};
+
+const FAMILY_BY_VARIABLE: { [variable: string]: UnitFamily } = {
+    temperature_2m: 'temperature',
+    precipitation: 'precipitation',
+    rain: 'precipitation',
+    snowfall: 'snowfall',
+    wind_speed_10m: 'wind',
+    wind_gusts_10m: 'wind',
+    wind_direction_10m: 'direction',
+    cloud_cover: 'percent',
+    visibility: 'visibility',
+};
+
+const CONVERSIONS: Record<UnitFamily, { [unit: string]: (value: number) => number }> = {
+    temperature: { '°C': v => v, '°F': v => (v - 32) * 5 / 9 },
+    precipitation: { 'mm': v => v, 'cm': v => v * 10, 'inch': v => v * 25.4 },
+    snowfall: { 'cm': v => v, 'mm': v => v / 10, 'inch': v => v * 2.54 },
+    wind: { 'kn': v => v, 'km/h': v => v / 1.852, 'm/s': v => v * 1.943844, 'mp/h': v => v * 0.868976 },
+    direction: { '°': v => v },
+    percent: { '%': v => v },
+    visibility: { 'mi': v => v, 'm': v => v / 1609.34, 'km': v => v / 1.60934, 'ft': v => v / 5280 },
+};
+
+// Variables that hold an amount over the output step rather than an instantaneous state.
+const ACCUMULATED_VARIABLES = new Set(['precipitation', 'rain', 'snowfall']);
+
+// Coarser output steps that models are known to use for their accumulations.
+const ACCUMULATION_STEPS_HOURS = [3, 6];
+
+const HOUR_MS = 3600 * 1000;
+
+// Open-Meteo's rule of thumb: 7 cm of fresh snow is about 10 mm of water.
+export const SNOW_CM_TO_WATER_MM = 10 / 7;
+
+// Daily aggregates share the unit family of their hourly variable.
+const baseVariable = (key: string): string => key.replace(/_(max|min|sum|mean|dominant)$/, '');
+
+/** The canonical unit of a variable, or undefined for variables this module does not know. */
+export const canonicalUnitFor = (variable: string): string | undefined => {
+    const family = FAMILY_BY_VARIABLE[baseVariable(variable)];
+    return family ? CANONICAL_UNITS[family] : undefined;
+};
+
+/** Returns a converter to the canonical unit, or throws if the unit is not one we understand. */
+export const canonicalConverter = (variable: string, unit: string | undefined, source: string): ((value: number) => number) | null => {
+    const family = FAMILY_BY_VARIABLE[baseVariable(variable)];
+    if (!family) return null;
+    if (unit === undefined) {
+        throw new Error(`${source} returned ${variable} without a unit.`);
+    }
+    const convert = CONVERSIONS[family][unit];
+    if (!convert) {
+        throw new Error(`${source} returned ${variable} in unsupported unit '${unit}' (expected one of ${Object.keys(CONVERSIONS[family]).join(', ')}).`);
+    }
+    return convert;
+};
+
+const convertArray = (values: (number | null)[], convert: (value: number) => number) =>
+    values.map(v => (typeof v === 'number' && isFinite(v) ? convert(v) : v ?? null));
+
+/**
+ * Converts every known variable of an hourly or daily block to canonical units using the unit map
+ * the API returned alongside it. Unknown variables pass through untouched; a known variable with a
+ * missing or unsupported unit throws, because guessing would silently scale the forecast.
+ */
+export const normalizeBlockUnits = <T extends { time: string[] }>(block: T, units: object | undefined, source: string): T => {
+    if (!units) {
+        throw new Error(`${source} returned data without units.`);
+    }
+    const out: any = { ...block };
+    for (const [key, values] of Object.entries(block as Record<string, unknown>)) {
+        if (key === 'time' || !Array.isArray(values)) continue;
+        const convert = canonicalConverter(key, (units as Record<string, string>)[key], source);
+        if (convert) out[key] = convertArray(values, convert);
+    }
+    return out as T;
+};
+
+/** Converts ensemble percentile bands, which share the units of their base variable. */
+export const normalizePercentileUnits = <P extends { [band: string]: (number | null)[] }>(
+    percentiles: { [variable: string]: P },
+    units: object,
+    source: string
+): { [variable: string]: P } => {
+    const out: { [variable: string]: P } = {};
+    for (const [variable, bands] of Object.entries(percentiles)) {
+        const convert = canonicalConverter(variable, (units as Record<string, string>)[variable], source);
+        out[variable] = convert
+            ? Object.fromEntries(Object.entries(bands).map(([band, values]) => [band, convertArray(values, convert)])) as P
+            : bands;
+    }
+    return out;
+};
+
+/**
+ * Rewrites coarse accumulations as hourly amounts. A value that follows a 3- or 6-hour gap, either
+ * because the intervening hours are null or because the timestamps themselves step that far, is
+ * the total since the previous value. It is spread evenly over the null hours, or kept as an hourly
+ * rate at its own timestamp when there are none. Returns the steps found per variable for logging.
+ */
+export const spreadCoarseAccumulations = <T extends { time: string[] }>(block: T): { block: T; stepsByVariable: { [variable: string]: number[] } } => {
+    const out: any = { ...block };
+    const stepsByVariable: { [variable: string]: number[] } = {};
+    const timesMs = block.time.map(t => Date.parse(t + 'Z'));
+
+    for (const [key, values] of Object.entries(block as Record<string, unknown>)) {
+        if (!ACCUMULATED_VARIABLES.has(key) || !Array.isArray(values)) continue;
+        const spread = [...values] as (number | null)[];
+        const steps = new Set<number>();
+        let previous = -1;
+        for (let i = 0; i < spread.length; i++) {
+            const value = values[i];
+            if (typeof value !== 'number' || !isFinite(value)) continue;
+            if (previous !== -1) {
+                const hours = Math.round((timesMs[i] - timesMs[previous]) / HOUR_MS);
+                if (ACCUMULATION_STEPS_HOURS.includes(hours)) {
+                    const perHour = value / hours;
+                    for (let j = previous + 1; j <= i; j++) spread[j] = perHour;
+                    steps.add(hours);
+                }
+            }
+            previous = i;
+        }
+        if (steps.size > 0) {
+            out[key] = spread;
+            stepsByVariable[key] = Array.from(steps);
+        }
+    }
+    return { block: out as T, stepsByVariable };
+};
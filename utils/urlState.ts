@@ -0,0 +1,82 @@
+import { METRICS, MODELS } from '../constants';
+import { AppUrlState, ForecastView, Location, Metric, UnitPreferences, UnitQuantity } from '../types';
+import { sanitizeUnitPreferences } from './unitFormat';
+
+// Encodes the shareable parts of the app state in the URL hash, e.g.
+// #lat=52.87&lon=-118.08&name=Jasper&view=daily&metric=wind_gusts_10m&units=canadian
+
+const VIEWS: ForecastView[] = ['hourly', 'daily', 'accuracy', 'compare'];
+const COORDINATE_DECIMALS = 4;
+
+/** A stable id for a place that has no geocoding id, e.g. a shared link or the device's position. */
+export const coordinateLocationId = (latitude: number, longitude: number): number =>
+    Math.round((latitude + 90) * 1e4) * 1e7 + Math.round((longitude + 180) * 1e4);
+
+const parseLocation = (params: URLSearchParams): Location | null => {
+    const latitude = Number(params.get('lat'));
+    const longitude = Number(params.get('lon'));
+    if (!params.has('lat') || !params.has('lon') || !isFinite(latitude) || !isFinite(longitude)) return null;
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+    const id = Number(params.get('id'));
+    return {
+        id: params.has('id') && Number.isInteger(id) ? id : coordinateLocationId(latitude, longitude),
+        name: params.get('name') || `${latitude.toFixed(2)}, ${longitude.toFixed(2)}`,
+        latitude,
+        longitude,
+        admin1: params.get('region') ?? '',
+        country: params.get('country') ?? '',
+    };
+};
+
+const parseUnits = (params: URLSearchParams): UnitPreferences | null => {
+    const preset = params.get('units');
+    if (!preset) return null;
+    const overrides: Partial<Record<UnitQuantity, string>> = {};
+    for (const pair of (params.get('unitOverrides') ?? '').split(',')) {
+        const [quantity, unit] = pair.split(':');
+        if (quantity && unit) overrides[quantity as UnitQuantity] = unit;
+    }
+    return sanitizeUnitPreferences({ preset: preset as UnitPreferences['preset'], overrides });
+};
+
+export const parseUrlState = (hash: string): AppUrlState => {
+    const params = new URLSearchParams(hash.replace(/^#\/?/, ''));
+    const view = params.get('view') as ForecastView | null;
+    const metricKey = params.get('metric') as Metric['key'] | null;
+    // A list that names no known model would hide everything, so it falls back to showing all.
+    const listedModels = (params.get('models') ?? '').split(',').filter(key => MODELS.some(m => m.key === key));
+    const modelKeys = listedModels.length > 0 ? listedModels : null;
+    return {
+        location: parseLocation(params),
+        view: view && VIEWS.includes(view) ? view : null,
+        metricKey: metricKey && METRICS.some(m => m.key === metricKey) ? metricKey : null,
+        modelKeys,
+        units: parseUnits(params),
+    };
+};
+
+export const buildUrlHash = (state: AppUrlState): string => {
+    const params = new URLSearchParams();
+    if (state.location) {
+        params.set('lat', state.location.latitude.toFixed(COORDINATE_DECIMALS));
+        params.set('lon', state.location.longitude.toFixed(COORDINATE_DECIMALS));
+        params.set('name', state.location.name);
+        if (state.location.admin1) params.set('region', state.location.admin1);
+        if (state.location.country) params.set('country', state.location.country);
+        params.set('id', state.location.id.toString());
+    }
+    if (state.view) params.set('view', state.view);
+    if (state.metricKey) params.set('metric', state.metricKey);
+    if (state.modelKeys) params.set('models', state.modelKeys.join(','));
+    if (state.units) {
+        params.set('units', state.units.preset);
+        const overrides = Object.entries(state.units.overrides).map(([quantity, unit]) => `${quantity}:${unit}`);
+        if (overrides.length > 0) params.set('unitOverrides', overrides.join(','));
+    }
+    return `#${params.toString()}`;
+};
+
+/** True when two locations are the same place as far as a link can tell. */
+export const isSameLocation = (a: Location, b: Location): boolean =>
+    a.latitude.toFixed(COORDINATE_DECIMALS) === b.latitude.toFixed(COORDINATE_DECIMALS) &&
+    a.longitude.toFixed(COORDINATE_DECIMALS) === b.longitude.toFixed(COORDINATE_DECIMALS);
@@ -12,7 +12,13 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.USE_MOCK_PROVIDER': JSON.stringify(env.USE_MOCK_PROVIDER),
+        'process.env.OPEN_METEO_FORECAST_URL': JSON.stringify(env.OPEN_METEO_FORECAST_URL),
+        'process.env.OPEN_METEO_ENSEMBLE_URL': JSON.stringify(env.OPEN_METEO_ENSEMBLE_URL),
+        'process.env.OPEN_METEO_ARCHIVE_URL': JSON.stringify(env.OPEN_METEO_ARCHIVE_URL),
+        'process.env.OPEN_METEO_GEOCODING_URL': JSON.stringify(env.OPEN_METEO_GEOCODING_URL),
+        'process.env.OPEN_METEO_API_KEY': JSON.stringify(env.OPEN_METEO_API_KEY)
       },
       resolve: {
         alias: {